@@ -0,0 +1,138 @@
+import React, { useEffect, useState } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { BarChart, Bar, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer } from 'recharts';
+import { AlertTriangle, History } from 'lucide-react';
+import { applyStressTest, type Scenario } from '@/domain/forecastEngine';
+import { runBacktest, type BacktestResult, type BacktestRun } from '@/domain/backtestEngine';
+import { AUSTRALIAN_MARKET_HISTORY } from '@/data/marketHistory';
+import { formatCurrency } from '@/domain/constants';
+
+interface BacktestCardProps {
+  scenario: Scenario;
+  stressMode: boolean;
+}
+
+const OUTCOMES: { key: 'best' | 'median' | 'worst'; label: string }[] = [
+  { key: 'best', label: 'Best' },
+  { key: 'median', label: 'Median' },
+  { key: 'worst', label: 'Worst' },
+];
+
+const formatDate = (date: Date) => date.toLocaleDateString('en-AU', { month: 'short', year: 'numeric' });
+
+const OutcomeRow: React.FC<{ label: string; run: BacktestRun }> = ({ label, run }) => (
+  <tr className="border-b">
+    <td className="py-2 px-4">{label}</td>
+    <td className="text-right py-2 px-4">{run.startYear}</td>
+    <td className="text-right py-2 px-4">{formatCurrency(run.netWorthPresentValue)}</td>
+    <td className="text-right py-2 px-4">{formatCurrency(run.netWorth)}</td>
+    <td className={`text-right py-2 px-4 ${run.firstShortfallDate ? 'text-destructive' : ''}`}>
+      {run.firstShortfallDate ? formatDate(run.firstShortfallDate) : formatCurrency(run.minCashBuffer)}
+    </td>
+  </tr>
+);
+
+const BacktestCard: React.FC<BacktestCardProps> = ({ scenario, stressMode }) => {
+  const [result, setResult] = useState<BacktestResult | null>(null);
+  const [running, setRunning] = useState(false);
+
+  // Results describe the scenario they were run on
+  useEffect(() => {
+    setResult(null);
+  }, [scenario, stressMode]);
+
+  const handleRun = () => {
+    setRunning(true);
+    // Let the running state render before the runs block
+    setTimeout(() => {
+      setResult(runBacktest(stressMode ? applyStressTest(scenario) : scenario, AUSTRALIAN_MARKET_HISTORY));
+      setRunning(false);
+    }, 0);
+  };
+
+  const chartData = (result?.runs || []).map(run => ({
+    startYear: run.startYear,
+    netWorth: run.netWorthPresentValue / 100,
+  }));
+  const firstYear = AUSTRALIAN_MARKET_HISTORY[0]?.year;
+  const lastYear = AUSTRALIAN_MARKET_HISTORY[AUSTRALIAN_MARKET_HISTORY.length - 1]?.year;
+
+  return (
+    <Card className="lg:col-span-2">
+      <CardHeader>
+        <CardTitle className="flex items-center justify-between">
+          <span className="flex items-center gap-2">
+            <History className="w-5 h-5" />
+            Historical Backtest
+          </span>
+          <Button variant="outline" size="sm" onClick={handleRun} disabled={running}>
+            {running ? 'Running...' : 'Run Backtest'}
+          </Button>
+        </CardTitle>
+        <CardDescription>
+          The forecast replayed from each start year of Australian house prices, ASX 200 returns, CPI and
+          variable rates, {firstYear}-{lastYear}
+        </CardDescription>
+      </CardHeader>
+      {result && (
+        <CardContent className="space-y-4">
+          {result.runs.length === 0 ? (
+            <p className="text-sm text-muted-foreground">Not enough history to replay this scenario</p>
+          ) : (
+            <>
+              {result.shortfallStartYears.length > 0 && (
+                <Alert variant="destructive">
+                  <AlertTriangle className="h-4 w-4" />
+                  <AlertDescription>
+                    Cash runs out when starting in {result.shortfallStartYears.join(', ')}
+                    {' '}({result.shortfallStartYears.length} of {result.runs.length} start years)
+                  </AlertDescription>
+                </Alert>
+              )}
+
+              <div className="overflow-x-auto">
+                <table className="w-full text-sm">
+                  <thead>
+                    <tr className="border-b">
+                      <th className="text-left py-2 px-4 font-medium">Outcome</th>
+                      <th className="text-right py-2 px-4 font-medium">Start year</th>
+                      <th className="text-right py-2 px-4 font-medium">Final net worth (today's $)</th>
+                      <th className="text-right py-2 px-4 font-medium">Final net worth</th>
+                      <th className="text-right py-2 px-4 font-medium">Lowest cash / cash runs out</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {OUTCOMES.map(({ key, label }) => result[key] && (
+                      <OutcomeRow key={key} label={label} run={result[key]} />
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+
+              <div className="h-64">
+                <ResponsiveContainer width="100%" height="100%">
+                  <BarChart data={chartData}>
+                    <CartesianGrid strokeDasharray="3 3" />
+                    <XAxis dataKey="startYear" />
+                    <YAxis />
+                    <Tooltip formatter={(value: number) => [`$${Math.round(value).toLocaleString()}`, 'Final net worth (today\'s $)']} />
+                    <Bar dataKey="netWorth" fill="hsl(var(--primary))" />
+                  </BarChart>
+                </ResponsiveContainer>
+              </div>
+
+              <p className="text-sm text-muted-foreground">
+                Each run replays {result.windowYears} years of history from its start year; loans keep their margin
+                over today's standard variable rate and are charged at that year's rates from the start
+              </p>
+            </>
+          )}
+        </CardContent>
+      )}
+    </Card>
+  );
+};
+
+export default BacktestCard;
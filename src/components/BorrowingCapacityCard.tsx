@@ -0,0 +1,152 @@
+import React, { useMemo, useState } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import type { ForecastMonth, Scenario } from '@/domain/forecastEngine';
+import { assessBorrowingCapacity, SERVICEABILITY_CONSTANTS } from '@/domain/serviceabilityEngine';
+import { formatCurrency } from '@/domain/constants';
+
+interface BorrowingCapacityCardProps {
+  scenario: Scenario;
+  forecast: ForecastMonth[];
+}
+
+const BorrowingCapacityCard: React.FC<BorrowingCapacityCardProps> = ({ scenario, forecast }) => {
+  const firstYear = forecast[0]?.date.getFullYear() ?? new Date().getFullYear();
+  const [year, setYear] = useState(firstYear);
+  const [ratePct, setRatePct] = useState(6);
+  const [rentPw, setRentPw] = useState(0);
+  const [loanAmount, setLoanAmount] = useState(0);
+
+  const assessment = useMemo(() => {
+    const month = forecast.find(m => m.date.getFullYear() >= year);
+    if (!month) return undefined;
+
+    return assessBorrowingCapacity(scenario, month, {
+      annualRate: ratePct / 100,
+      rentPwCents: rentPw * 100,
+      loanAmountCents: loanAmount > 0 ? loanAmount * 100 : undefined,
+    });
+  }, [scenario, forecast, year, ratePct, rentPw, loanAmount]);
+
+  if (forecast.length === 0) return null;
+
+  const lines = assessment ? [
+    { label: 'Gross income (yearly)', value: assessment.grossIncome },
+    { label: `Net income, rent at ${SERVICEABILITY_CONSTANTS.RENTAL_SHADING * 100}%`, value: assessment.netIncome },
+    {
+      label: assessment.benchmarkExpenses > assessment.declaredExpenses
+        ? 'Living expenses (benchmark, above declared)'
+        : 'Living expenses (declared)',
+      value: -assessment.expensesUsed,
+    },
+    { label: 'Existing loans, holding costs and rent', value: -assessment.existingCommitments },
+  ] : [];
+
+  return (
+    <Card className="lg:col-span-2">
+      <CardHeader>
+        <CardTitle>Borrowing Capacity</CardTitle>
+        <CardDescription>
+          What a lender might approve, assessing every loan at its rate plus a {SERVICEABILITY_CONSTANTS.APRA_BUFFER * 100}% buffer
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
+          <div className="space-y-2">
+            <Label htmlFor="borrowYear">Apply in Year</Label>
+            <Input
+              id="borrowYear"
+              type="number"
+              min={firstYear}
+              max={firstYear + scenario.horizonYears - 1}
+              value={year}
+              onChange={(e) => setYear(Number(e.target.value))}
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="borrowRate">Loan Rate (%)</Label>
+            <Input
+              id="borrowRate"
+              type="number"
+              step="0.01"
+              value={ratePct}
+              onChange={(e) => setRatePct(Number(e.target.value))}
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="borrowRent">New Rent per Week ($)</Label>
+            <Input
+              id="borrowRent"
+              type="number"
+              min={0}
+              value={rentPw}
+              onChange={(e) => setRentPw(Number(e.target.value))}
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="borrowAmount">Loan Sought ($)</Label>
+            <Input
+              id="borrowAmount"
+              type="number"
+              min={0}
+              placeholder="Maximum"
+              value={loanAmount || ''}
+              onChange={(e) => setLoanAmount(Number(e.target.value))}
+            />
+          </div>
+        </div>
+
+        {assessment && (
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+            <div className="space-y-1 text-sm">
+              {lines.map((line) => (
+                <div key={line.label} className="flex justify-between">
+                  <span className="text-muted-foreground">{line.label}</span>
+                  <span>{formatCurrency(line.value)}</span>
+                </div>
+              ))}
+              <div className="flex justify-between font-medium border-t pt-1">
+                <span>Monthly surplus</span>
+                <span>{formatCurrency(assessment.surplus)}</span>
+              </div>
+            </div>
+
+            <div className="space-y-1 text-sm">
+              <div className="flex justify-between">
+                <span className="text-muted-foreground">Serviceability limit</span>
+                <span>{formatCurrency(assessment.serviceabilityLimit)}</span>
+              </div>
+              <div className="flex justify-between">
+                <span className="text-muted-foreground">DTI limit ({SERVICEABILITY_CONSTANTS.DTI_LIMIT}x income)</span>
+                <span>{formatCurrency(assessment.dtiLimit)}</span>
+              </div>
+              <div className="flex justify-between font-medium">
+                <span>Maximum borrowing</span>
+                <span>{formatCurrency(assessment.maxBorrowing)}</span>
+              </div>
+              {scenario.stressBorrowCapDownPct > 0 && (
+                <div className="flex justify-between">
+                  <span className="text-muted-foreground">After {scenario.stressBorrowCapDownPct}% stress haircut</span>
+                  <span>{formatCurrency(assessment.stressedMaxBorrowing)}</span>
+                </div>
+              )}
+              <div className="flex justify-between border-t pt-1">
+                <span className="text-muted-foreground">DTI with {formatCurrency(assessment.loanAmount)} loan</span>
+                <span>{assessment.dti.toFixed(1)}x</span>
+              </div>
+              <div className="flex justify-between font-medium">
+                <span>Monthly surplus after the loan</span>
+                <span className={assessment.netSurplus < 0 ? 'text-destructive' : ''}>
+                  {formatCurrency(assessment.netSurplus)}
+                </span>
+              </div>
+            </div>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default BorrowingCapacityCard;
@@ -50,7 +50,6 @@ const Dashboard: React.FC = () => {
         dateOfBirth: new Date('1985-06-15'),
         retirementAge: 65,
         inflationCpiPa: 0.025,
-        wageGrowthPa: 0.03,
         returnSuperPa: 0.07,
         returnPortfolioPa: 0.08,
         taxMarginalRate: 0.37,
@@ -14,20 +14,45 @@ import {
   generateSummary, 
   formatSummaryForDisplay, 
   applyStressTest,
+  getInsolvencySummary,
+  getHouseholdEarners,
   type Scenario,
   type UserProfile,
   type Property,
   type ForecastMonth 
 } from '@/domain/forecastEngine';
 import { formatCurrency } from '@/domain/constants';
-import { type LoanDetails } from '@/domain/loanEngine';
+import { calculateLoanSchedule, getSecurityPropertyIds, removeSecurity, type LoanDetails } from '@/domain/loanEngine';
+import { type PropertyStatus } from '@/domain/propertyEngine';
+import { getOffsetAccounts } from '@/domain/offsetEngine';
 
 import EditablePropertyForm from './forms/EditablePropertyForm';
 import EditableLoanForm from './forms/EditableLoanForm';
+import EditableCashRateForm from './forms/EditableCashRateForm';
 import EditableProfileForm from './forms/EditableProfileForm';
 import EditablePeopleForm from './forms/EditablePeopleForm';
 import EditableAssetsForm from './forms/EditableAssetsForm';
+import EditableOffsetAccountsForm from './forms/EditableOffsetAccountsForm';
+import EditableStrategyForm from './forms/EditableStrategyForm';
+import EditableEventsForm from './forms/EditableEventsForm';
 import ScenarioManager from './ScenarioManager';
+import SaleStatementsCard from './SaleStatementsCard';
+import TaxYearsCard from './TaxYearsCard';
+import LandTaxCard from './LandTaxCard';
+import BorrowingCapacityCard from './BorrowingCapacityCard';
+import LvrCard from './LvrCard';
+import RefinanceCard from './RefinanceCard';
+import MonteCarloCard from './MonteCarloCard';
+import BacktestCard from './BacktestCard';
+import SensitivityCard from './SensitivityCard';
+
+const PROPERTY_STATUS_LABELS: Record<PropertyStatus, string> = {
+  pending: 'Not yet settled',
+  ppor: 'Home',
+  investment: 'Investment',
+  vacant: 'Vacant',
+  sold: 'Sold',
+};
 
 const EditableDashboard: React.FC = () => {
   const [userId] = useState('550e8400-e29b-41d4-a716-446655440000'); // Demo UUID - in real app, get from auth
@@ -114,10 +139,10 @@ const EditableDashboard: React.FC = () => {
   const handlePropertyDelete = async (propertyId: string) => {
     if (currentScenario) {
       const updatedProperties = currentScenario.properties.filter(p => p.id !== propertyId);
-      const updatedLoans = currentScenario.loans.filter(l => {
-        // Remove loans associated with this property (we'd need to track property-loan relationships)
-        return true; // For now, keep all loans
-      });
+      // Loans secured only by this property were deleted with it; others are released from it
+      const updatedLoans = currentScenario.loans
+        .map(l => removeSecurity(l, propertyId))
+        .filter((l): l is LoanDetails => l !== undefined);
       
       const updatedScenario = { 
         ...currentScenario, 
@@ -154,12 +179,71 @@ const EditableDashboard: React.FC = () => {
   const handleLoanDelete = async (loanId: string) => {
     if (currentScenario) {
       const updatedLoans = currentScenario.loans.filter(l => l.id !== loanId);
-      const updatedScenario = { ...currentScenario, loans: updatedLoans };
+      const offsetAccounts = currentScenario.offsetAccounts?.map(account => ({
+        ...account,
+        loanIds: account.loanIds.filter(id => id !== loanId),
+      }));
+      const updatedScenario = { ...currentScenario, loans: updatedLoans, offsetAccounts };
       setCurrentScenario(updatedScenario);
       setEditingLoanId(null);
     }
   };
 
+  // Debt, LVR and interest secured against a property in the first forecast month
+  const getPropertyDebtSummary = (propertyId: string): string | null => {
+    const debt = forecast[0]?.propertyDebts[propertyId];
+    if (!debt) return null;
+
+    const lvr = forecast[0].propertyLvrs[propertyId] || 0;
+    const interest = forecast[0].propertyInterest[propertyId] || 0;
+    return ` • ${formatCurrency(debt)} debt (${(lvr * 100).toFixed(1)}% LVR), ${formatCurrency(interest)}/month interest`;
+  };
+
+  const getSecurityNames = (loan: LoanDetails): string => {
+    const names = getSecurityPropertyIds(loan)
+      .map(id => currentScenario?.properties.find(p => p.id === id)?.name)
+      .filter(Boolean);
+    return names.length > 0 ? `Secured by ${names.join(' + ')}` : 'Unsecured';
+  };
+
+  // Payoff date and interest saved for loans paid ahead of schedule
+  const getPayoffSummary = (loan: LoanDetails): string | null => {
+    const schedule = calculateLoanSchedule(loan);
+    if (schedule.interestSaved <= 0 || !schedule.payoffDate) return null;
+
+    const payoff = schedule.payoffDate.toLocaleDateString('en-AU', { month: 'short', year: 'numeric' });
+    return ` • Paid off ${payoff}, ${formatCurrency(schedule.interestSaved)} interest saved`;
+  };
+
+  // Interest each loan saves over the forecast from the offset balances held against it
+  const offsetInterestSaved: Record<string, number> = {};
+  for (const month of forecast) {
+    for (const [loanId, saved] of Object.entries(month.offsetInterestSaved)) {
+      offsetInterestSaved[loanId] = (offsetInterestSaved[loanId] || 0) + saved;
+    }
+  }
+
+  // Deductible interest over the forecast, and when private borrowing first enters the loan
+  const getDeductibilitySummary = (loan: LoanDetails): string | null => {
+    const deductible = forecast.reduce((sum, month) => sum + (month.deductibleInterest[loan.id] || 0), 0);
+    const mixed = forecast
+      .map(month => ({ date: month.date, position: month.loanPositions.find(p => p.loanId === loan.id) }))
+      .find(({ position }) => position && (position.purposeBalances.private || 0) > 0 && loan.purpose !== 'private');
+
+    let summary = ` • ${formatCurrency(deductible)} deductible interest`;
+    if (mixed) {
+      const privateShare = (mixed.position.purposeBalances.private || 0) / mixed.position.balance;
+      const from = mixed.date.toLocaleDateString('en-AU', { month: 'short', year: 'numeric' });
+      summary += `, ${(privateShare * 100).toFixed(0)}% private from ${from}`;
+    }
+    return summary;
+  };
+
+  const getOffsetSummary = (loan: LoanDetails): string | null => {
+    const saved = offsetInterestSaved[loan.id];
+    return saved > 0 ? ` • ${formatCurrency(saved)} interest saved by offsets` : null;
+  };
+
   const chartData = forecast.slice(0, 360).filter((_, index) => index % 12 === 0).map(month => ({
     year: Math.floor(month.month / 12),
     netWorth: month.netWorth / 100,
@@ -169,6 +253,18 @@ const EditableDashboard: React.FC = () => {
     cashflow: month.netCashflow / 100,
   }));
 
+  const insolvency = getInsolvencySummary(forecast);
+
+  const allocationChartData = Array.from({ length: Math.min(10, Math.floor(forecast.length / 12)) }, (_, year) => {
+    const totals = { year: year + 1, cash_buffer: 0, offset: 0, extra_repayment: 0, salary_sacrifice: 0, portfolio: 0 };
+    for (const month of forecast.slice(year * 12, (year + 1) * 12)) {
+      for (const allocation of month.surplusAllocations) {
+        totals[allocation.kind] += allocation.amount / 100;
+      }
+    }
+    return totals;
+  });
+
   if (loading && !currentScenario) {
     return (
       <div className="min-h-screen bg-background flex items-center justify-center">
@@ -223,6 +319,17 @@ const EditableDashboard: React.FC = () => {
         </AlertDescription>
       </Alert>
 
+      {insolvency.firstInsolventDate && (
+        <Alert variant="destructive" className="mx-6 mt-4">
+          <AlertTriangle className="h-4 w-4" />
+          <AlertDescription>
+            <strong>Cash runs out{stressMode ? ' under stress' : ''}:</strong> every funding source is exhausted
+            from {insolvency.firstInsolventDate.toLocaleDateString('en-AU', { month: 'short', year: 'numeric' })},
+            leaving {formatCurrency(insolvency.cumulativeShortfall)} unfunded over {insolvency.insolventMonths} months.
+          </AlertDescription>
+        </Alert>
+      )}
+
       <div className="container mx-auto px-6 py-8">
         <div className="grid grid-cols-1 lg:grid-cols-4 gap-6">
           {/* Sidebar - Scenario Manager */}
@@ -248,13 +355,15 @@ const EditableDashboard: React.FC = () => {
               </Card>
             ) : (
               <Tabs defaultValue="overview" className="space-y-6">
-                <TabsList className="grid w-full grid-cols-7">
+                <TabsList className="grid w-full grid-cols-9">
                   <TabsTrigger value="overview">Overview</TabsTrigger>
                   <TabsTrigger value="profile">Profile</TabsTrigger>
                   <TabsTrigger value="people">People</TabsTrigger>
                   <TabsTrigger value="assets">Assets</TabsTrigger>
                   <TabsTrigger value="properties">Properties</TabsTrigger>
                   <TabsTrigger value="loans">Loans</TabsTrigger>
+                  <TabsTrigger value="events">Events</TabsTrigger>
+                  <TabsTrigger value="strategy">Strategy</TabsTrigger>
                   <TabsTrigger value="forecasts">Forecasts</TabsTrigger>
                 </TabsList>
 
@@ -487,6 +596,7 @@ const EditableDashboard: React.FC = () => {
                       {addingProperty && (
                         <EditablePropertyForm
                           userId={userId}
+                          defaultStateCode={currentScenario.profile.stateCode}
                           onSave={handlePropertySave}
                           onCancel={() => setAddingProperty(false)}
                         />
@@ -497,7 +607,9 @@ const EditableDashboard: React.FC = () => {
                           {editingPropertyId === property.id ? (
                             <EditablePropertyForm
                               property={property}
+                              loans={currentScenario.loans}
                               userId={userId}
+                              defaultStateCode={currentScenario.profile.stateCode}
                               onSave={handlePropertySave}
                               onCancel={() => setEditingPropertyId(null)}
                               onDelete={handlePropertyDelete}
@@ -509,9 +621,17 @@ const EditableDashboard: React.FC = () => {
                                   <div className="flex items-center gap-3">
                                     <Home className="w-6 h-6 text-primary" />
                                     <div>
-                                      <CardTitle className="text-lg">{property.name}</CardTitle>
+                                      <CardTitle className="text-lg flex items-center gap-2">
+                                        {property.name}
+                                        {forecast[0]?.propertyStatuses[property.id] && (
+                                          <Badge variant="secondary">
+                                            {PROPERTY_STATUS_LABELS[forecast[0].propertyStatuses[property.id]]}
+                                          </Badge>
+                                        )}
+                                      </CardTitle>
                                       <CardDescription>
                                         {formatCurrency(property.valueNowCents)} • {property.rentPwCents > 0 ? `$${(property.rentPwCents / 100).toFixed(0)}/week` : 'No rent'}
+                                        {getPropertyDebtSummary(property.id)}
                                       </CardDescription>
                                     </div>
                                   </div>
@@ -562,6 +682,7 @@ const EditableDashboard: React.FC = () => {
                       {addingLoan && currentScenario.properties.length > 0 && (
                         <EditableLoanForm
                           propertyId={currentScenario.properties[0].id}
+                          properties={currentScenario.properties}
                           onSave={handleLoanSave}
                           onCancel={() => setAddingLoan(false)}
                         />
@@ -571,7 +692,8 @@ const EditableDashboard: React.FC = () => {
                         <div key={loan.id}>
                           {editingLoanId === loan.id ? (
                             <EditableLoanForm
-                              loan={{ ...loan, propertyId: currentScenario.properties[0]?.id || '' }}
+                              loan={{ ...loan, propertyId: loan.propertyId || currentScenario.properties[0]?.id || '' }}
+                              properties={currentScenario.properties}
                               onSave={handleLoanSave}
                               onCancel={() => setEditingLoanId(null)}
                               onDelete={handleLoanDelete}
@@ -585,7 +707,10 @@ const EditableDashboard: React.FC = () => {
                                     <div>
                                       <CardTitle className="text-lg">Loan {loan.id}</CardTitle>
                                       <CardDescription>
-                                        {formatCurrency(loan.startBalanceCents)} • {(loan.annualRate * 100).toFixed(2)}% p.a.
+                                        {getSecurityNames(loan)} • {formatCurrency(loan.startBalanceCents)} • {(loan.annualRate * 100).toFixed(2)}% p.a.
+                                        {getPayoffSummary(loan)}
+                                        {getOffsetSummary(loan)}
+                                        {getDeductibilitySummary(loan)}
                                       </CardDescription>
                                     </div>
                                   </div>
@@ -611,6 +736,52 @@ const EditableDashboard: React.FC = () => {
                       )}
                     </CardContent>
                   </Card>
+
+                  <EditableOffsetAccountsForm
+                    accounts={currentScenario.offsetAccounts || []}
+                    loans={currentScenario.loans}
+                    scenarioId={currentScenario.id}
+                    interestSaved={offsetInterestSaved}
+                    onAccountsChange={(offsetAccounts) => setCurrentScenario({ ...currentScenario, offsetAccounts })}
+                  />
+
+                  <EditableCashRateForm
+                    key={currentScenario.id}
+                    scenarioId={currentScenario.id}
+                    cashRatePath={currentScenario.cashRatePath}
+                    onCashRatePathChange={(cashRatePath) => setCurrentScenario({ ...currentScenario, cashRatePath })}
+                  />
+                </TabsContent>
+
+                {/* Events Tab */}
+                <TabsContent value="events">
+                  <EditableEventsForm
+                    events={currentScenario.planEvents || []}
+                    scenarioId={currentScenario.id}
+                    properties={currentScenario.properties}
+                    loans={currentScenario.loans}
+                    people={currentScenario.people}
+                    onEventsChange={(planEvents) => setCurrentScenario({ ...currentScenario, planEvents })}
+                  />
+                </TabsContent>
+
+                {/* Strategy Tab */}
+                <TabsContent value="strategy">
+                  <EditableStrategyForm
+                    key={currentScenario.id}
+                    scenarioId={currentScenario.id}
+                    steps={currentScenario.surplusAllocation}
+                    loans={currentScenario.loans}
+                    offsetAccounts={getOffsetAccounts(currentScenario.offsetAccounts || [], currentScenario.loans)}
+                    people={currentScenario.people}
+                    onStepsChange={(surplusAllocation) => setCurrentScenario({ ...currentScenario, surplusAllocation })}
+                    deficitSources={currentScenario.deficitFunding}
+                    onDeficitSourcesChange={(deficitFunding) => setCurrentScenario({ ...currentScenario, deficitFunding })}
+                    saleProceeds={currentScenario.saleProceeds}
+                    onSaleProceedsChange={(saleProceeds) => setCurrentScenario({ ...currentScenario, saleProceeds })}
+                    lvrThresholds={currentScenario.lvrWarningThresholds}
+                    onLvrThresholdsChange={(lvrWarningThresholds) => setCurrentScenario({ ...currentScenario, lvrWarningThresholds })}
+                  />
                 </TabsContent>
 
                 {/* Forecasts Tab */}
@@ -656,6 +827,52 @@ const EditableDashboard: React.FC = () => {
                         </div>
                       </CardContent>
                     </Card>
+
+                    <Card className="lg:col-span-2">
+                      <CardHeader>
+                        <CardTitle>Surplus Allocation</CardTitle>
+                        <CardDescription>Where each year's surplus went</CardDescription>
+                      </CardHeader>
+                      <CardContent>
+                        <div className="h-64">
+                          <ResponsiveContainer width="100%" height="100%">
+                            <BarChart data={allocationChartData}>
+                              <CartesianGrid strokeDasharray="3 3" />
+                              <XAxis dataKey="year" />
+                              <YAxis />
+                              <Tooltip formatter={(value: number) => [`$${Math.round(value).toLocaleString()}`, '']} />
+                              <Bar dataKey="cash_buffer" stackId="surplus" fill="hsl(var(--primary))" name="Cash buffer" />
+                              <Bar dataKey="offset" stackId="surplus" fill="hsl(var(--accent))" name="Offset" />
+                              <Bar dataKey="extra_repayment" stackId="surplus" fill="hsl(var(--destructive))" name="Extra repayments" />
+                              <Bar dataKey="salary_sacrifice" stackId="surplus" fill="hsl(var(--warning))" name="Salary sacrifice" />
+                              <Bar dataKey="portfolio" stackId="surplus" fill="hsl(var(--success))" name="Portfolio" />
+                            </BarChart>
+                          </ResponsiveContainer>
+                        </div>
+                      </CardContent>
+                    </Card>
+
+                    <SaleStatementsCard
+                      key={currentScenario.id}
+                      scenario={stressMode ? applyStressTest(currentScenario) : currentScenario}
+                      forecast={forecast}
+                    />
+
+                    <TaxYearsCard earners={getHouseholdEarners(currentScenario)} forecast={forecast} />
+
+                    <LandTaxCard properties={currentScenario.properties} forecast={forecast} />
+
+                    <BorrowingCapacityCard scenario={currentScenario} forecast={forecast} />
+
+                    <LvrCard scenario={currentScenario} forecast={forecast} />
+
+                    <RefinanceCard forecast={forecast} />
+
+                    <MonteCarloCard scenario={currentScenario} stressMode={stressMode} />
+
+                    <BacktestCard scenario={currentScenario} stressMode={stressMode} />
+
+                    <SensitivityCard scenario={currentScenario} stressMode={stressMode} />
                   </div>
                 </TabsContent>
               </Tabs>
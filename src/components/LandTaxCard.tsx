@@ -0,0 +1,63 @@
+import React from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import type { ForecastMonth, Property } from '@/domain/forecastEngine';
+import { formatCurrency } from '@/domain/constants';
+
+interface LandTaxCardProps {
+  properties: Property[];
+  forecast: ForecastMonth[];
+}
+
+const YEARS_SHOWN = 10;
+
+const LandTaxCard: React.FC<LandTaxCardProps> = ({ properties, forecast }) => {
+  const assessments = forecast.flatMap(month => month.landTaxAssessments);
+  if (assessments.length === 0) return null;
+
+  const years = [...new Set(assessments.map(a => a.year))].slice(0, YEARS_SHOWN);
+  const names = Object.fromEntries(properties.map(property => [property.id, property.name]));
+
+  return (
+    <Card className="lg:col-span-2">
+      <CardHeader>
+        <CardTitle>Land Tax by Year</CardTitle>
+        <CardDescription>
+          Each owner's land in a state is added together before the threshold applies
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        <div className="overflow-x-auto">
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="border-b">
+                <th className="text-left py-2 px-4 font-medium">Year</th>
+                <th className="text-left py-2 px-4 font-medium">Property</th>
+                <th className="text-left py-2 px-4 font-medium">State</th>
+                <th className="text-right py-2 px-4 font-medium">Land Value</th>
+                <th className="text-right py-2 px-4 font-medium">Land Tax</th>
+              </tr>
+            </thead>
+            <tbody>
+              {assessments
+                .filter(a => years.includes(a.year))
+                .map((assessment) => (
+                  <tr key={`${assessment.year}-${assessment.propertyId}`} className="border-b">
+                    <td className="py-2 px-4">{assessment.year}</td>
+                    <td className="py-2 px-4">{names[assessment.propertyId] || 'Planned purchase'}</td>
+                    <td className="py-2 px-4">{assessment.stateCode}</td>
+                    <td className="text-right py-2 px-4">{formatCurrency(assessment.landValue)}</td>
+                    <td className="text-right py-2 px-4">
+                      {assessment.isExempt ? <Badge variant="secondary">Home exempt</Badge> : formatCurrency(assessment.landTax)}
+                    </td>
+                  </tr>
+                ))}
+            </tbody>
+          </table>
+        </div>
+      </CardContent>
+    </Card>
+  );
+};
+
+export default LandTaxCard;
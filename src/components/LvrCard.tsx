@@ -0,0 +1,106 @@
+import React from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { AlertTriangle } from 'lucide-react';
+import type { ForecastMonth, Scenario } from '@/domain/forecastEngine';
+import { DEFAULT_LVR_THRESHOLDS, findLvrWarnings } from '@/domain/lvrEngine';
+import { formatCurrency } from '@/domain/constants';
+
+interface LvrCardProps {
+  scenario: Scenario;
+  forecast: ForecastMonth[];
+}
+
+const YEARS_SHOWN = 10;
+
+const formatLvr = (lvr: number) => `${(lvr * 100).toFixed(1)}%`;
+
+const LvrCard: React.FC<LvrCardProps> = ({ scenario, forecast }) => {
+  const thresholds = scenario.lvrWarningThresholds || DEFAULT_LVR_THRESHOLDS;
+  const lowest = Math.min(...thresholds);
+  const warnings = findLvrWarnings(forecast, thresholds);
+  const yearStarts = forecast.filter((_, index) => index % 12 === 0).slice(0, YEARS_SHOWN);
+  const propertyIds = [...new Set(yearStarts.flatMap(month => Object.keys(month.propertyLvrs)))];
+  const lmiCharges = forecast.flatMap(month =>
+    Object.entries(month.lmiPremiums).map(([loanId, premium]) => ({ loanId, premium, date: month.date }))
+  );
+
+  if (propertyIds.length === 0) return null;
+
+  const names: Record<string, string> = Object.fromEntries(scenario.properties.map(property => [property.id, property.name]));
+  for (const event of scenario.planEvents || []) {
+    if (event.kind === 'buy') names[event.id] = event.meta.name || 'New property';
+  }
+  const formatDate = (date: Date) => date.toLocaleDateString('en-AU', { month: 'short', year: 'numeric' });
+
+  return (
+    <Card className="lg:col-span-2">
+      <CardHeader>
+        <CardTitle>Loan to Value</CardTitle>
+        <CardDescription>
+          Each property's secured debt over its projected value, at the start of each year
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {warnings.length > 0 && (
+          <Alert variant="destructive">
+            <AlertTriangle className="h-4 w-4" />
+            <AlertDescription>
+              {warnings.map((warning) => (
+                <div key={`${warning.propertyId}-${warning.threshold}-${warning.date.getTime()}`}>
+                  {names[warning.propertyId]} goes above {formatLvr(warning.threshold)} LVR
+                  in {formatDate(warning.date)} ({formatLvr(warning.lvr)})
+                </div>
+              ))}
+            </AlertDescription>
+          </Alert>
+        )}
+
+        <div className="overflow-x-auto">
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="border-b">
+                <th className="text-left py-2 px-4 font-medium">Property</th>
+                {yearStarts.map((month) => (
+                  <th key={month.month} className="text-right py-2 px-4 font-medium">{month.date.getFullYear()}</th>
+                ))}
+              </tr>
+            </thead>
+            <tbody>
+              {propertyIds.map((propertyId) => (
+                <tr key={propertyId} className="border-b">
+                  <td className="py-2 px-4">{names[propertyId]}</td>
+                  {yearStarts.map((month) => {
+                    const lvr = month.propertyLvrs[propertyId];
+                    return (
+                      <td
+                        key={month.month}
+                        className={`text-right py-2 px-4 ${lvr > lowest ? 'text-destructive' : ''}`}
+                      >
+                        {lvr !== undefined ? formatLvr(lvr) : '-'}
+                      </td>
+                    );
+                  })}
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+
+        {lmiCharges.length > 0 && (
+          <div className="space-y-1 text-sm">
+            <h3 className="font-medium">Lenders mortgage insurance</h3>
+            {lmiCharges.map((charge) => (
+              <div key={`${charge.loanId}-${charge.date.getTime()}`} className="flex justify-between">
+                <span className="text-muted-foreground">Added to loan {charge.loanId} in {formatDate(charge.date)}</span>
+                <span>{formatCurrency(charge.premium)}</span>
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default LvrCard;
@@ -0,0 +1,206 @@
+import React, { useEffect, useState } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer } from 'recharts';
+import { Dices } from 'lucide-react';
+import { applyStressTest, type Scenario } from '@/domain/forecastEngine';
+import {
+  DEFAULT_MONTE_CARLO,
+  MARKET_FACTORS,
+  runMonteCarlo,
+  type MarketFactor,
+  type MonteCarloResult,
+  type MonteCarloSettings,
+  type PercentileBand,
+} from '@/domain/monteCarloEngine';
+import { formatCurrency } from '@/domain/constants';
+
+interface MonteCarloCardProps {
+  scenario: Scenario;
+  stressMode: boolean;
+}
+
+const FACTOR_LABELS: Record<MarketFactor, string> = {
+  property: 'Property growth',
+  shares: 'Shares return',
+  super: 'Super return',
+  inflation: 'Inflation',
+  rates: 'Interest rate change',
+};
+
+const formatProbability = (probability: number) => `${Math.round(probability * 100)}%`;
+
+const BandCells: React.FC<{ band: PercentileBand }> = ({ band }) => (
+  <>
+    <td className="text-right py-2 px-4">{formatCurrency(band.p10)}</td>
+    <td className="text-right py-2 px-4">{formatCurrency(band.p50)}</td>
+    <td className="text-right py-2 px-4">{formatCurrency(band.p90)}</td>
+  </>
+);
+
+const MonteCarloCard: React.FC<MonteCarloCardProps> = ({ scenario, stressMode }) => {
+  const [settings, setSettings] = useState<MonteCarloSettings>(DEFAULT_MONTE_CARLO);
+  const [result, setResult] = useState<MonteCarloResult | null>(null);
+  const [running, setRunning] = useState(false);
+  const [completed, setCompleted] = useState(0);
+
+  // Results describe the scenario they were run on
+  useEffect(() => {
+    setResult(null);
+  }, [scenario, stressMode]);
+
+  const handleRun = async () => {
+    setRunning(true);
+    setCompleted(0);
+    try {
+      setResult(await runMonteCarlo(stressMode ? applyStressTest(scenario) : scenario, settings, setCompleted));
+    } finally {
+      setRunning(false);
+    }
+  };
+
+  // Years are labelled from the start year, so the end of the horizon follows the last year
+  const getYearLabel = (year: number) => scenario.startDate.getFullYear() + year;
+
+  const updateDistribution = (factor: MarketFactor, field: 'mean' | 'stdDev', value: string) => {
+    const rate = value === '' ? undefined : Number(value) / 100;
+    setSettings({
+      ...settings,
+      distributions: {
+        ...settings.distributions,
+        [factor]: { ...settings.distributions[factor], [field]: field === 'stdDev' ? rate ?? 0 : rate },
+      },
+    });
+  };
+
+  const chartData = (result?.years || []).map(year => ({
+    year: getYearLabel(year.year),
+    p10: year.netWorth.p10 / 100,
+    p50: year.netWorth.p50 / 100,
+    p90: year.netWorth.p90 / 100,
+  }));
+  const rows = (result?.years || []).filter((year, index, years) => year.year % 5 === 0 || index === years.length - 1);
+
+  return (
+    <Card className="lg:col-span-2">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Dices className="w-5 h-5" />
+          Monte Carlo
+        </CardTitle>
+        <CardDescription>
+          The forecast rerun across simulated markets, with correlated yearly returns drawn around the scenario's assumptions
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <div className="space-y-2">
+          <div className="grid grid-cols-3 gap-4 text-sm font-medium">
+            <span />
+            <span>Expected (% p.a.)</span>
+            <span>Volatility (%)</span>
+          </div>
+          {MARKET_FACTORS.map((factor) => (
+            <div key={factor} className="grid grid-cols-3 gap-4 items-center">
+              <Label htmlFor={`mc-${factor}-mean`}>{FACTOR_LABELS[factor]}</Label>
+              <Input
+                id={`mc-${factor}-mean`}
+                type="number"
+                step="0.1"
+                value={settings.distributions[factor].mean !== undefined ? settings.distributions[factor].mean * 100 : ''}
+                onChange={(e) => updateDistribution(factor, 'mean', e.target.value)}
+                placeholder="Scenario's own"
+              />
+              <Input
+                type="number"
+                step="0.1"
+                min={0}
+                value={settings.distributions[factor].stdDev * 100}
+                onChange={(e) => updateDistribution(factor, 'stdDev', e.target.value)}
+              />
+            </div>
+          ))}
+        </div>
+
+        <div className="flex items-end gap-4">
+          <div className="space-y-2">
+            <Label htmlFor="mcSimulations">Simulations</Label>
+            <Input
+              id="mcSimulations"
+              type="number"
+              min={10}
+              max={2000}
+              value={settings.simulations}
+              onChange={(e) => setSettings({ ...settings, simulations: Math.max(1, Number(e.target.value)) })}
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="mcSeed">Seed</Label>
+            <Input
+              id="mcSeed"
+              type="number"
+              value={settings.seed}
+              onChange={(e) => setSettings({ ...settings, seed: Number(e.target.value) })}
+            />
+          </div>
+          <Button onClick={handleRun} disabled={running}>
+            {running ? `Running ${completed}/${settings.simulations}...` : 'Run Simulations'}
+          </Button>
+        </div>
+
+        {result && (
+          <>
+            <div className="flex justify-between text-sm">
+              <span className="text-muted-foreground">
+                Chance of running out of cash ({result.simulations} simulations)
+              </span>
+              <span className={`font-medium ${result.outOfCashProbability > 0 ? 'text-destructive' : ''}`}>
+                {formatProbability(result.outOfCashProbability)}
+              </span>
+            </div>
+
+            <div className="h-64">
+              <ResponsiveContainer width="100%" height="100%">
+                <LineChart data={chartData}>
+                  <CartesianGrid strokeDasharray="3 3" />
+                  <XAxis dataKey="year" />
+                  <YAxis />
+                  <Tooltip formatter={(value: number) => [`$${Math.round(value).toLocaleString()}`, '']} />
+                  <Line type="monotone" dataKey="p90" stroke="hsl(var(--success))" name="P90 net worth" dot={false} />
+                  <Line type="monotone" dataKey="p50" stroke="hsl(var(--primary))" name="P50 net worth" dot={false} />
+                  <Line type="monotone" dataKey="p10" stroke="hsl(var(--destructive))" name="P10 net worth" dot={false} />
+                </LineChart>
+              </ResponsiveContainer>
+            </div>
+
+            <div className="overflow-x-auto">
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="border-b">
+                    <th className="text-left py-2 px-4 font-medium">Year</th>
+                    <th className="text-right py-2 px-4 font-medium" colSpan={3}>Cash buffer (P10 / P50 / P90)</th>
+                    <th className="text-right py-2 px-4 font-medium" colSpan={3}>Debt (P10 / P50 / P90)</th>
+                    <th className="text-right py-2 px-4 font-medium">Out of cash</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {rows.map((year) => (
+                    <tr key={year.year} className="border-b">
+                      <td className="py-2 px-4">{getYearLabel(year.year)}</td>
+                      <BandCells band={year.cashBuffer} />
+                      <BandCells band={year.totalDebt} />
+                      <td className="text-right py-2 px-4">{formatProbability(year.outOfCashProbability)}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default MonteCarloCard;
@@ -110,7 +110,7 @@ const ProfileForm: React.FC<ProfileFormProps> = ({ profile }) => {
               <TrendingUp className="w-4 h-4 mr-2" />
               Economic Assumptions
             </Label>
-            <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-4">
+            <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
               <div className="space-y-2">
                 <Label htmlFor="inflation">Inflation (CPI)</Label>
                 <Input
@@ -121,16 +121,6 @@ const ProfileForm: React.FC<ProfileFormProps> = ({ profile }) => {
                 />
               </div>
 
-              <div className="space-y-2">
-                <Label htmlFor="wage-growth">Wage Growth</Label>
-                <Input
-                  id="wage-growth"
-                  value={`${(profile.wageGrowthPa * 100).toFixed(1)}% p.a.`}
-                  readOnly
-                  className="bg-muted"
-                />
-              </div>
-
               <div className="space-y-2">
                 <Label htmlFor="super-return">Super Return</Label>
                 <Input
@@ -0,0 +1,113 @@
+import React from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import type { ForecastMonth } from '@/domain/forecastEngine';
+import type { RefinanceComparison } from '@/domain/loanEngine';
+import { formatCurrency } from '@/domain/constants';
+
+interface RefinanceCardProps {
+  forecast: ForecastMonth[];
+}
+
+const formatRate = (rate: number) => `${(rate * 100).toFixed(2)}%`;
+
+const formatMonths = (months: number) => {
+  const years = Math.floor(months / 12);
+  const rest = months % 12;
+  if (years === 0) return `${rest} months`;
+  return rest === 0 ? `${years} years` : `${years} years ${rest} months`;
+};
+
+const ComparisonLines: React.FC<{ comparison: RefinanceComparison }> = ({ comparison }) => {
+  const { costs } = comparison;
+  const costLines = [
+    { label: 'Discharge fee', value: costs.dischargeFee },
+    { label: 'Establishment fee', value: costs.establishmentFee },
+    { label: 'Fixed rate break cost', value: costs.breakFee },
+    { label: 'Other switching costs', value: costs.otherCosts },
+    { label: 'Lenders mortgage insurance', value: costs.lmi },
+  ].filter(line => line.value > 0);
+
+  return (
+    <div className="grid grid-cols-1 md:grid-cols-2 gap-6 text-sm">
+      <div className="space-y-1">
+        <div className="grid grid-cols-3 gap-2 font-medium">
+          <span />
+          <span className="text-right">Before</span>
+          <span className="text-right">After</span>
+        </div>
+        <div className="grid grid-cols-3 gap-2">
+          <span className="text-muted-foreground">Rate</span>
+          <span className="text-right">{formatRate(comparison.oldRate)}</span>
+          <span className="text-right">{formatRate(comparison.newRate)}</span>
+        </div>
+        <div className="grid grid-cols-3 gap-2">
+          <span className="text-muted-foreground">Monthly repayment</span>
+          <span className="text-right">{formatCurrency(comparison.oldPayment)}</span>
+          <span className="text-right">{formatCurrency(comparison.newPayment)}</span>
+        </div>
+        <div className="grid grid-cols-3 gap-2">
+          <span className="text-muted-foreground">Interest to payoff</span>
+          <span className="text-right">{formatCurrency(comparison.oldInterest)}</span>
+          <span className="text-right">{formatCurrency(comparison.newInterest)}</span>
+        </div>
+      </div>
+
+      <div className="space-y-1">
+        {costLines.map((line) => (
+          <div key={line.label} className="flex justify-between">
+            <span className="text-muted-foreground">{line.label}</span>
+            <span>{formatCurrency(line.value)}</span>
+          </div>
+        ))}
+        {comparison.cashOut > 0 && (
+          <div className="flex justify-between">
+            <span className="text-muted-foreground">Cash out</span>
+            <span>{formatCurrency(comparison.cashOut)}</span>
+          </div>
+        )}
+        <div className="flex justify-between font-medium border-t pt-1">
+          <span>Net saving</span>
+          <span className={comparison.netSaving < 0 ? 'text-destructive' : ''}>
+            {formatCurrency(comparison.netSaving)}
+          </span>
+        </div>
+        <div className="flex justify-between">
+          <span className="text-muted-foreground">Break-even</span>
+          <span>
+            {comparison.breakEvenMonth !== undefined ? `After ${formatMonths(comparison.breakEvenMonth)}` : 'Never'}
+          </span>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+const RefinanceCard: React.FC<RefinanceCardProps> = ({ forecast }) => {
+  const refinances = forecast.flatMap(month => month.refinances);
+
+  if (refinances.length === 0) return null;
+
+  return (
+    <Card className="lg:col-span-2">
+      <CardHeader>
+        <CardTitle>Refinances</CardTitle>
+        <CardDescription>
+          Each planned refinance against keeping the loan, until both are repaid
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {refinances.map((comparison) => (
+          <div key={`${comparison.loanId}-${comparison.date.getTime()}`} className="space-y-2">
+            <h3 className="font-medium">
+              Loan {comparison.loanId}, {comparison.date.toLocaleDateString('en-AU', { month: 'short', year: 'numeric' })}
+              <span className="text-muted-foreground font-normal"> ({formatCurrency(comparison.balance)} owing)</span>
+            </h3>
+            <ComparisonLines comparison={comparison} />
+          </div>
+        ))}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default RefinanceCard;
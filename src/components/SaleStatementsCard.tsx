@@ -0,0 +1,133 @@
+import React, { useMemo, useState } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { projectSale, type ForecastMonth, type Scenario } from '@/domain/forecastEngine';
+import { isPropertyHeld } from '@/domain/propertyEngine';
+import type { SaleStatement } from '@/domain/saleEngine';
+import { formatCurrency } from '@/domain/constants';
+
+interface SaleStatementsCardProps {
+  scenario: Scenario;
+  forecast: ForecastMonth[];
+}
+
+const DESTINATION_LABELS: Record<SaleStatement['destination'], string> = {
+  cash: 'Cash buffer',
+  offset: 'Offset account',
+  portfolio: 'Portfolio',
+};
+
+const StatementLines: React.FC<{ statement: SaleStatement }> = ({ statement }) => {
+  const lines = [
+    { label: 'Sale price', value: statement.salePrice },
+    { label: 'Agent commission and selling costs', value: -statement.sellingCosts },
+    { label: 'Loans repaid', value: -statement.debtRepaid },
+    { label: 'Capital gains tax', value: -statement.cgt },
+  ];
+
+  return (
+    <div className="space-y-1 text-sm">
+      {lines.map((line) => (
+        <div key={line.label} className="flex justify-between">
+          <span className="text-muted-foreground">{line.label}</span>
+          <span>{formatCurrency(line.value)}</span>
+        </div>
+      ))}
+      <div className="flex justify-between font-medium border-t pt-1">
+        <span>Net proceeds</span>
+        <span>{formatCurrency(statement.netProceeds)}</span>
+      </div>
+      <p className="text-xs text-muted-foreground pt-1">
+        Capital gain {formatCurrency(statement.capitalGain)} on a cost base of {formatCurrency(statement.costBase)}
+        {statement.discountApplied ? ', 50% discount applied' : ', held under 12 months'}
+        {statement.costBaseResetDate
+          ? ` (market value when first rented out, ${statement.costBaseResetDate.toLocaleDateString('en-AU')})`
+          : ''}
+        {statement.exemptFraction > 0 ? `, ${Math.round(statement.exemptFraction * 100)}% main residence exempt` : ''}
+      </p>
+    </div>
+  );
+};
+
+const SaleStatementsCard: React.FC<SaleStatementsCardProps> = ({ scenario, forecast }) => {
+  const heldProperties = scenario.properties.filter(p => isPropertyHeld(p, scenario.startDate));
+  const [propertyId, setPropertyId] = useState(heldProperties[0]?.id || '');
+  const [saleYear, setSaleYear] = useState(5);
+
+  const scheduledSales = forecast.flatMap(month => month.saleStatements);
+
+  const projection = useMemo(() => {
+    if (!propertyId) return undefined;
+
+    const saleDate = new Date(scenario.startDate);
+    saleDate.setFullYear(saleDate.getFullYear() + saleYear);
+    return projectSale(scenario, propertyId, saleDate);
+  }, [scenario, propertyId, saleYear]);
+
+  return (
+    <Card className="lg:col-span-2">
+      <CardHeader>
+        <CardTitle>Property Sales</CardTitle>
+        <CardDescription>What you walk away with after selling costs, loan payout and CGT</CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {scheduledSales.map((statement) => (
+          <div key={`${statement.propertyId}-${statement.date.getTime()}`} className="p-4 border rounded-lg">
+            <div className="flex items-center justify-between mb-3">
+              <h3 className="font-medium">{statement.propertyName}</h3>
+              <div className="flex gap-2">
+                <Badge variant="secondary">{statement.date.toLocaleDateString('en-AU', { month: 'short', year: 'numeric' })}</Badge>
+                <Badge variant="outline">{DESTINATION_LABELS[statement.destination]}</Badge>
+              </div>
+            </div>
+            <StatementLines statement={statement} />
+          </div>
+        ))}
+
+        {heldProperties.length > 0 && (
+          <div className="p-4 border border-dashed rounded-lg space-y-4">
+            <h3 className="font-medium">What if I sell?</h3>
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label>Property</Label>
+                <Select value={propertyId} onValueChange={setPropertyId}>
+                  <SelectTrigger>
+                    <SelectValue placeholder="Select property" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {heldProperties.map((property) => (
+                      <SelectItem key={property.id} value={property.id}>
+                        {property.name}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="saleYear">Sell in Year</Label>
+                <Input
+                  id="saleYear"
+                  type="number"
+                  min={0}
+                  max={scenario.horizonYears}
+                  value={saleYear}
+                  onChange={(e) => setSaleYear(Number(e.target.value))}
+                />
+              </div>
+            </div>
+            {projection ? (
+              <StatementLines statement={projection} />
+            ) : (
+              <p className="text-sm text-muted-foreground">The property is no longer held in that year.</p>
+            )}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default SaleStatementsCard;
@@ -10,9 +10,21 @@ import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { Plus, Save, Copy, Trash2, Settings, FileText, AlertTriangle } from 'lucide-react';
 import { useToast } from '@/hooks/use-toast';
 import { supabase } from '@/integrations/supabase/client';
+import type { Json, Tables } from '@/integrations/supabase/types';
 import { cn } from '@/lib/utils';
-import type { Scenario, UserProfile, Property } from '@/domain/forecastEngine';
-import type { LoanDetails } from '@/domain/loanEngine';
+import type { Scenario, UserProfile, Property, Person, Asset } from '@/domain/forecastEngine';
+import {
+  parseLoanTransactions,
+  parseRateChanges,
+  toRateChangeJson,
+  type LoanDetails,
+  type LoanPurpose,
+  type PrepaymentMode,
+} from '@/domain/loanEngine';
+import type { AllocationStep, DeficitSource } from '@/domain/allocationEngine';
+import type { PlanEvent, PlanEventKind, PlanEventMeta } from '@/domain/eventEngine';
+import type { SaleProceedsRule } from '@/domain/saleEngine';
+import { getLoanOffsetId, type OffsetAccount } from '@/domain/offsetEngine';
 
 interface ScenarioManagerProps {
   currentScenario?: Scenario;
@@ -82,6 +94,48 @@ const ScenarioManager: React.FC<ScenarioManagerProps> = ({
         loansData = data || [];
       }
 
+      // Load people, assets, offset accounts and plan events for all scenarios
+      const scenarioIds = scenariosData?.map(s => s.id) || [];
+      let peopleData: Tables<'people'>[] = [];
+      let assetsData: Tables<'assets'>[] = [];
+      let offsetsData: Tables<'offset_accounts'>[] = [];
+      let eventsData: Tables<'plan_events'>[] = [];
+
+      if (scenarioIds.length > 0) {
+        const { data: peopleRows, error: peopleError } = await supabase
+          .from('people')
+          .select('*')
+          .in('scenario_id', scenarioIds);
+
+        if (peopleError) throw peopleError;
+        peopleData = peopleRows || [];
+
+        const { data: assetRows, error: assetsError } = await supabase
+          .from('assets')
+          .select('*')
+          .in('scenario_id', scenarioIds);
+
+        if (assetsError) throw assetsError;
+        assetsData = assetRows || [];
+
+        const { data: offsetRows, error: offsetsError } = await supabase
+          .from('offset_accounts')
+          .select('*')
+          .in('scenario_id', scenarioIds);
+
+        if (offsetsError) throw offsetsError;
+        offsetsData = offsetRows || [];
+
+        const { data: eventRows, error: eventsError } = await supabase
+          .from('plan_events')
+          .select('*')
+          .in('scenario_id', scenarioIds)
+          .order('event_date');
+
+        if (eventsError) throw eventsError;
+        eventsData = eventRows || [];
+      }
+
       // Transform data to domain models
       const profile: UserProfile | undefined = profileData ? {
         id: profileData.id,
@@ -89,14 +143,13 @@ const ScenarioManager: React.FC<ScenarioManagerProps> = ({
         dateOfBirth: new Date(profileData.date_of_birth),
         retirementAge: profileData.retirement_age,
         inflationCpiPa: profileData.inflation_cpi_pa,
-        wageGrowthPa: profileData.wage_growth_pa,
         returnSuperPa: profileData.return_super_pa,
         returnPortfolioPa: profileData.return_portfolio_pa,
         taxMarginalRate: profileData.tax_marginal_rate,
         medicareLevy: profileData.medicare_levy_pct,
         stateCode: profileData.state_code,
         salaryCurrentCents: profileData.salary_current_cents || 0,
-        salaryGrowthPa: profileData.salary_growth_pa || 3.0,
+        salaryGrowthPa: profileData.salary_growth_pa ?? 0.03,
         savingsCurrentCents: profileData.savings_current_cents || 0,
         superCurrentCents: profileData.super_current_cents || 0,
         otherInvestmentsCents: profileData.other_investments_cents || 0,
@@ -116,6 +169,8 @@ const ScenarioManager: React.FC<ScenarioManagerProps> = ({
         ratesPaCents: p.rates_pa_cents,
         insurancePaCents: p.insurance_pa_cents,
         landTaxPaCents: p.land_tax_pa_cents,
+        landValueCents: p.land_value_cents ?? undefined,
+        ownedByTrust: p.owned_by_trust,
         rentPwCents: p.rent_pw_cents,
         vacancyWeeksPa: p.vacancy_weeks_pa,
         depreciationCapitalPaCents: p.depreciation_capital_pa_cents,
@@ -123,10 +178,16 @@ const ScenarioManager: React.FC<ScenarioManagerProps> = ({
         becomesIpOn: p.becomes_ip_on ? new Date(p.becomes_ip_on) : undefined,
         becomesPporOn: p.becomes_ppor_on ? new Date(p.becomes_ppor_on) : undefined,
         soldOn: p.sold_on ? new Date(p.sold_on) : undefined,
+        stateCode: p.state_code || undefined,
+        isFirstHome: p.is_first_home,
+        isOffThePlan: p.is_off_the_plan,
+        isForeignPurchaser: p.is_foreign_purchaser,
       })) || [];
 
       const loans: LoanDetails[] = loansData.map(l => ({
         id: l.id,
+        propertyId: l.property_id,
+        securityPropertyIds: l.security_property_ids || [],
         startDate: new Date(l.start_date),
         startBalanceCents: l.start_balance_cents,
         annualRate: l.rate_pa,
@@ -135,6 +196,70 @@ const ScenarioManager: React.FC<ScenarioManagerProps> = ({
         offsetStartCents: l.offset_start_cents,
         offsetContribMonthlyCents: l.offset_contrib_monthly_cents,
         allowRedraw: l.allow_redraw,
+        extraMonthlyCents: l.extra_monthly_cents || 0,
+        lumpSums: parseLoanTransactions(l.lump_sums_json),
+        redraws: parseLoanTransactions(l.redraws_json),
+        prepaymentMode: (l.prepayment_mode as PrepaymentMode) || undefined,
+        rateChanges: parseRateChanges(l.rate_changes_json),
+        rateMarginPa: l.rate_margin_pa ?? undefined,
+        fixedRatePa: l.fixed_rate_pa ?? undefined,
+        fixedYears: l.fixed_years ?? undefined,
+        fixedPortionPct: l.fixed_portion_pct ?? undefined,
+        purpose: (l.purpose as LoanPurpose) || undefined,
+      }));
+
+      const people: Person[] = peopleData.map(p => ({
+        id: p.id,
+        scenarioId: p.scenario_id,
+        name: p.name,
+        dateOfBirth: p.date_of_birth ? new Date(p.date_of_birth) : undefined,
+        salaryCurrentCents: p.salary_current_cents || 0,
+        salaryGrowthPa: p.salary_growth_pa ?? 0.03,
+        superCurrentCents: p.super_current_cents || 0,
+        isPrimary: p.is_primary || false,
+      }));
+
+      const assets: Asset[] = assetsData.map(a => ({
+        id: a.id,
+        scenarioId: a.scenario_id,
+        name: a.name,
+        assetType: a.asset_type as Asset['assetType'],
+        currentValueCents: a.current_value_cents,
+        growthRatePa: a.growth_rate_pa || 0,
+        contributionMonthlyCents: a.contribution_monthly_cents || 0,
+      }));
+
+      const offsetAccounts: OffsetAccount[] = offsetsData.map(o => ({
+        id: o.id,
+        scenarioId: o.scenario_id,
+        name: o.name,
+        balanceCents: o.balance_cents,
+        loanIds: o.loan_ids || [],
+      }));
+
+      // Strategies saved before offsets were accounts point their offset at a loan
+      const parseSurplusAllocation = (json: unknown, accounts: OffsetAccount[]): AllocationStep[] | undefined =>
+        (json as (AllocationStep & { loanId?: string })[] | null)?.map(step =>
+          step.kind === 'offset' && !step.offsetId
+            ? { kind: 'offset', offsetId: getLoanOffsetId(step.loanId || '', accounts), targetCents: step.targetCents }
+            : step
+        ) || undefined;
+
+      const parseSaleProceeds = (json: unknown, accounts: OffsetAccount[]): SaleProceedsRule | undefined => {
+        const rule = json as (SaleProceedsRule & { loanId?: string }) | null;
+        if (rule?.destination === 'offset' && rule.loanId && !rule.offsetId) {
+          return { destination: 'offset', offsetId: getLoanOffsetId(rule.loanId, accounts) };
+        }
+        return rule || undefined;
+      };
+
+      const planEvents: PlanEvent[] = eventsData.map(e => ({
+        id: e.id,
+        scenarioId: e.scenario_id,
+        date: new Date(e.event_date),
+        kind: e.kind as PlanEventKind,
+        amountCents: e.amount_cents ?? undefined,
+        meta: (e.meta_json as PlanEventMeta | null) || {},
       }));
 
       const transformedScenarios: Scenario[] = scenariosData?.map(s => ({
@@ -150,7 +275,6 @@ const ScenarioManager: React.FC<ScenarioManagerProps> = ({
           dateOfBirth: new Date('1985-06-15'),
           retirementAge: 65,
           inflationCpiPa: 0.025,
-          wageGrowthPa: 0.03,
           returnSuperPa: 0.07,
           returnPortfolioPa: 0.08,
           taxMarginalRate: 0.37,
@@ -165,12 +289,22 @@ const ScenarioManager: React.FC<ScenarioManagerProps> = ({
         },
         properties,
         loans,
-        people: [], // TODO: Load people from database
-        assets: [], // TODO: Load assets from database
+        people: people.filter(p => p.scenarioId === s.id),
+        assets: assets.filter(a => a.scenarioId === s.id),
+        offsetAccounts: offsetAccounts.filter(o => o.scenarioId === s.id),
+        planEvents: planEvents.filter(e => e.scenarioId === s.id),
         stressRateBumpPct: s.stress_rate_bump_pct,
         stressGrowthHaircutPct: s.stress_growth_haircut_pct,
         stressVacancyWeeks: s.stress_vacancy_weeks,
         stressBorrowCapDownPct: s.stress_borrow_cap_down_pct,
+        surplusAllocation: parseSurplusAllocation(
+          s.surplus_allocation_json,
+          offsetAccounts.filter(o => o.scenarioId === s.id)
+        ),
+        deficitFunding: (s.deficit_funding_json as DeficitSource[] | null) || undefined,
+        saleProceeds: parseSaleProceeds(s.sale_proceeds_json, offsetAccounts.filter(o => o.scenarioId === s.id)),
+        lvrWarningThresholds: (s.lvr_thresholds_json as number[] | null) || undefined,
+        cashRatePath: parseRateChanges(s.cash_rate_path_json),
       })) || [];
 
       setScenarios(transformedScenarios);
@@ -251,6 +385,11 @@ const ScenarioManager: React.FC<ScenarioManagerProps> = ({
         stress_growth_haircut_pct: scenario.stressGrowthHaircutPct,
         stress_vacancy_weeks: scenario.stressVacancyWeeks,
         stress_borrow_cap_down_pct: scenario.stressBorrowCapDownPct,
+        surplus_allocation_json: scenario.surplusAllocation || null,
+        deficit_funding_json: scenario.deficitFunding || null,
+        sale_proceeds_json: scenario.saleProceeds || null,
+        lvr_thresholds_json: scenario.lvrWarningThresholds || null,
+        cash_rate_path_json: scenario.cashRatePath ? toRateChangeJson(scenario.cashRatePath) : null,
       };
 
       const { data, error } = await supabase
@@ -261,6 +400,57 @@ const ScenarioManager: React.FC<ScenarioManagerProps> = ({
 
       if (error) throw error;
 
+      // Copy the offset accounts, then point the copy's strategy at the new accounts
+      const offsetIds: Record<string, string> = {};
+      for (const account of scenario.offsetAccounts || []) {
+        const { data: offsetRow, error: offsetError } = await supabase
+          .from('offset_accounts')
+          .insert({
+            scenario_id: data.id,
+            name: account.name,
+            balance_cents: account.balanceCents,
+            loan_ids: account.loanIds,
+          })
+          .select()
+          .single();
+
+        if (offsetError) throw offsetError;
+        offsetIds[account.id] = offsetRow.id;
+      }
+
+      if (Object.keys(offsetIds).length > 0) {
+        const copyOffsetId = (offsetId?: string) => (offsetId && offsetIds[offsetId]) || offsetId;
+        const saleProceeds = scenario.saleProceeds?.destination === 'offset'
+          ? { ...scenario.saleProceeds, offsetId: copyOffsetId(scenario.saleProceeds.offsetId) }
+          : scenario.saleProceeds;
+
+        const { error: strategyError } = await supabase
+          .from('scenarios')
+          .update({
+            surplus_allocation_json: scenario.surplusAllocation?.map(step =>
+              step.kind === 'offset' ? { ...step, offsetId: copyOffsetId(step.offsetId) } : step
+            ) || null,
+            sale_proceeds_json: saleProceeds || null,
+          })
+          .eq('id', data.id);
+
+        if (strategyError) throw strategyError;
+      }
+
+      if (scenario.planEvents && scenario.planEvents.length > 0) {
+        const { error: eventsError } = await supabase
+          .from('plan_events')
+          .insert(scenario.planEvents.map(event => ({
+            scenario_id: data.id,
+            event_date: event.date.toISOString().split('T')[0],
+            kind: event.kind,
+            amount_cents: event.amountCents ?? null,
+            meta_json: event.meta as Json,
+          })));
+
+        if (eventsError) throw eventsError;
+      }
+
       toast({
         title: 'Scenario Duplicated',
         description: `Copy of ${scenario.name} has been created.`,
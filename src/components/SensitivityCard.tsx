@@ -0,0 +1,186 @@
+import React, { useEffect, useState } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { BarChart, Bar, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, ReferenceLine, Legend } from 'recharts';
+import { SlidersHorizontal } from 'lucide-react';
+import { applyStressTest, type Scenario } from '@/domain/forecastEngine';
+import {
+  DEFAULT_SENSITIVITY_DELTAS,
+  runSensitivity,
+  type AssumptionKind,
+  type SensitivityAnalysis,
+  type SensitivityAssumption,
+  type SensitivityDeltas,
+  type SensitivityMetric,
+} from '@/domain/sensitivityEngine';
+import { formatCurrency } from '@/domain/constants';
+
+interface SensitivityCardProps {
+  scenario: Scenario;
+  stressMode: boolean;
+}
+
+const METRIC_LABELS: Record<SensitivityMetric, string> = {
+  retirementNetWorth: 'Net worth at retirement',
+  minCashBuffer: 'Lowest cash buffer',
+  debtFreeMonths: 'Debt-free date',
+};
+
+const ASSUMPTION_LABELS: Record<AssumptionKind, string> = {
+  inflation: 'Inflation',
+  wageGrowth: 'Wage growth',
+  superReturn: 'Super return',
+  portfolioReturn: 'Portfolio return',
+  propertyGrowth: 'growth',
+  rent: 'rent',
+  loanRate: 'rate',
+};
+
+const getAssumptionLabel = (assumption: SensitivityAssumption) => {
+  switch (assumption.kind) {
+    case 'propertyGrowth':
+    case 'rent':
+    case 'loanRate':
+      return `${assumption.name} ${ASSUMPTION_LABELS[assumption.kind]}`;
+    default:
+      return ASSUMPTION_LABELS[assumption.kind];
+  }
+};
+
+const SensitivityCard: React.FC<SensitivityCardProps> = ({ scenario, stressMode }) => {
+  const [metric, setMetric] = useState<SensitivityMetric>('retirementNetWorth');
+  const [deltas, setDeltas] = useState<SensitivityDeltas>(DEFAULT_SENSITIVITY_DELTAS);
+  const [analysis, setAnalysis] = useState<SensitivityAnalysis | null>(null);
+  const [running, setRunning] = useState(false);
+
+  // Results describe the scenario they were run on
+  useEffect(() => {
+    setAnalysis(null);
+  }, [scenario, stressMode]);
+
+  const handleRun = () => {
+    setRunning(true);
+    // Let the running state render before the forecasts block
+    setTimeout(() => {
+      setAnalysis(runSensitivity(stressMode ? applyStressTest(scenario) : scenario, metric, deltas));
+      setRunning(false);
+    }, 0);
+  };
+
+  const isMonths = analysis?.metric === 'debtFreeMonths';
+  const horizonMonths = scenario.horizonYears * 12;
+
+  // Money is charted in dollars; each nudge is a bar from the unchanged outcome
+  const toChart = (change: number) => (isMonths ? change : change / 100);
+  const chartData = (analysis?.results || []).map(result => ({
+    label: getAssumptionLabel(result.assumption),
+    low: [Math.min(0, toChart(result.lowChange)), Math.max(0, toChart(result.lowChange))],
+    high: [Math.min(0, toChart(result.highChange)), Math.max(0, toChart(result.highChange))],
+  }));
+
+  const formatChange = (value: number) =>
+    isMonths ? `${Math.round(value)} months` : `$${Math.round(value).toLocaleString()}`;
+
+  const formatBase = (value: number) => {
+    if (!isMonths) return formatCurrency(value);
+    if (value >= horizonMonths) return 'Not within the forecast';
+    const date = new Date(scenario.startDate.getFullYear(), scenario.startDate.getMonth() + value, 1);
+    return date.toLocaleDateString('en-AU', { month: 'short', year: 'numeric' });
+  };
+
+  return (
+    <Card className="lg:col-span-2">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <SlidersHorizontal className="w-5 h-5" />
+          Sensitivity
+        </CardTitle>
+        <CardDescription>
+          How far an outcome moves when each assumption is nudged down and up on its own
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <div className="grid grid-cols-1 md:grid-cols-4 gap-4 items-end">
+          <div className="space-y-2 md:col-span-2">
+            <Label>Outcome</Label>
+            <Select value={metric} onValueChange={(value) => setMetric(value as SensitivityMetric)}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {Object.entries(METRIC_LABELS).map(([value, label]) => (
+                  <SelectItem key={value} value={value}>
+                    {label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="sensitivityRateDelta">Rates nudged by (% points)</Label>
+            <Input
+              id="sensitivityRateDelta"
+              type="number"
+              step="0.25"
+              min={0}
+              value={deltas.rate * 100}
+              onChange={(e) => setDeltas({ ...deltas, rate: Number(e.target.value) / 100 })}
+            />
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="sensitivityRentDelta">Rent nudged by (%)</Label>
+            <Input
+              id="sensitivityRentDelta"
+              type="number"
+              step="1"
+              min={0}
+              max={100}
+              value={deltas.rent * 100}
+              onChange={(e) => setDeltas({ ...deltas, rent: Number(e.target.value) / 100 })}
+            />
+          </div>
+        </div>
+
+        <Button onClick={handleRun} disabled={running}>
+          {running ? 'Running...' : 'Run Sensitivity'}
+        </Button>
+
+        {analysis && (
+          <>
+            <div className="flex justify-between text-sm">
+              <span className="text-muted-foreground">{METRIC_LABELS[analysis.metric]} with no changes</span>
+              <span className="font-medium">{formatBase(analysis.base)}</span>
+            </div>
+
+            <div style={{ height: Math.max(160, chartData.length * 40 + 60) }}>
+              <ResponsiveContainer width="100%" height="100%">
+                <BarChart data={chartData} layout="vertical">
+                  <CartesianGrid strokeDasharray="3 3" />
+                  <XAxis type="number" />
+                  <YAxis type="category" dataKey="label" width={160} />
+                  <Tooltip
+                    formatter={(value: number[], name: string) => [
+                      formatChange(value[0] < 0 ? value[0] : value[1]),
+                      name,
+                    ]}
+                  />
+                  <Legend />
+                  <ReferenceLine x={0} stroke="hsl(var(--muted-foreground))" />
+                  <Bar dataKey="low" fill="hsl(var(--destructive))" name="Nudged down" />
+                  <Bar dataKey="high" fill="hsl(var(--success))" name="Nudged up" />
+                </BarChart>
+              </ResponsiveContainer>
+            </div>
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default SensitivityCard;
@@ -0,0 +1,65 @@
+import React from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import type { ForecastMonth, Person } from '@/domain/forecastEngine';
+import { formatCurrency } from '@/domain/constants';
+
+interface TaxYearsCardProps {
+  earners: Person[];
+  forecast: ForecastMonth[];
+}
+
+// Enough financial years to see a rental loss turn positive without scrolling the whole horizon
+const YEARS_SHOWN = 10;
+
+const TaxYearsCard: React.FC<TaxYearsCardProps> = ({ earners, forecast }) => {
+  const assessments = forecast.flatMap(month => month.taxAssessments);
+  const financialYears = [...new Set(assessments.map(a => a.financialYear))].slice(0, YEARS_SHOWN);
+  const names = Object.fromEntries(earners.map(person => [person.id, person.name]));
+
+  return (
+    <Card className="lg:col-span-2">
+      <CardHeader>
+        <CardTitle>Tax by Financial Year</CardTitle>
+        <CardDescription>
+          Rent less holding costs, loan interest and depreciation, offset against salary at tax time
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        <div className="overflow-x-auto">
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="border-b">
+                <th className="text-left py-2 px-4 font-medium">Year</th>
+                <th className="text-left py-2 px-4 font-medium">Person</th>
+                <th className="text-right py-2 px-4 font-medium">Net Rent</th>
+                <th className="text-right py-2 px-4 font-medium">Taxable Income</th>
+                <th className="text-right py-2 px-4 font-medium">Tax Payable</th>
+                <th className="text-right py-2 px-4 font-medium">Withheld</th>
+                <th className="text-right py-2 px-4 font-medium">Refund / Owing</th>
+              </tr>
+            </thead>
+            <tbody>
+              {assessments
+                .filter(a => financialYears.includes(a.financialYear))
+                .map((assessment) => (
+                  <tr key={`${assessment.financialYear}-${assessment.personId}`} className="border-b">
+                    <td className="py-2 px-4">FY{assessment.financialYear}</td>
+                    <td className="py-2 px-4">{names[assessment.personId]}</td>
+                    <td className="text-right py-2 px-4">{formatCurrency(assessment.netRentalIncome)}</td>
+                    <td className="text-right py-2 px-4">{formatCurrency(assessment.taxableIncome)}</td>
+                    <td className="text-right py-2 px-4">{formatCurrency(assessment.taxPayable)}</td>
+                    <td className="text-right py-2 px-4">{formatCurrency(assessment.taxWithheld)}</td>
+                    <td className={`text-right py-2 px-4 ${assessment.refund < 0 ? 'text-destructive' : ''}`}>
+                      {formatCurrency(assessment.refund)}
+                    </td>
+                  </tr>
+                ))}
+            </tbody>
+          </table>
+        </div>
+      </CardContent>
+    </Card>
+  );
+};
+
+export default TaxYearsCard;
@@ -0,0 +1,79 @@
+import React from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Calendar } from '@/components/ui/calendar';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import { CalendarIcon, Plus, Trash2 } from 'lucide-react';
+import { format } from 'date-fns';
+
+export interface DatedValue {
+  date: Date;
+  value: number;
+}
+
+interface DatedValueListProps {
+  addLabel: string;
+  items: DatedValue[];
+  onChange: (items: DatedValue[]) => void;
+  step?: string;
+  disabled?: boolean;
+}
+
+// Editable list of month and amount pairs, such as lump sums or rate changes
+const DatedValueList: React.FC<DatedValueListProps> = ({ addLabel, items, onChange, step, disabled }) => {
+  const update = (index: number, item: DatedValue) => {
+    onChange(items.map((existing, i) => i === index ? item : existing));
+  };
+
+  return (
+    <div className="space-y-2">
+      {items.map((item, index) => (
+        <div key={index} className="flex gap-2">
+          <Popover>
+            <PopoverTrigger asChild>
+              <Button type="button" variant="outline" className="flex-1 justify-start text-left font-normal">
+                <CalendarIcon className="mr-2 h-4 w-4" />
+                {format(item.date, 'MMM yyyy')}
+              </Button>
+            </PopoverTrigger>
+            <PopoverContent className="w-auto p-0">
+              <Calendar
+                mode="single"
+                selected={item.date}
+                onSelect={(date) => update(index, { ...item, date: date || item.date })}
+                initialFocus
+              />
+            </PopoverContent>
+          </Popover>
+          <Input
+            type="number"
+            className="flex-1"
+            step={step}
+            value={item.value}
+            onChange={(e) => update(index, { ...item, value: Number(e.target.value) })}
+          />
+          <Button
+            type="button"
+            variant="destructive"
+            size="sm"
+            onClick={() => onChange(items.filter((_, i) => i !== index))}
+          >
+            <Trash2 className="w-4 h-4" />
+          </Button>
+        </div>
+      ))}
+      <Button
+        type="button"
+        variant="outline"
+        size="sm"
+        disabled={disabled}
+        onClick={() => onChange([...items, { date: new Date(), value: 0 }])}
+      >
+        <Plus className="w-4 h-4 mr-2" />
+        {addLabel}
+      </Button>
+    </div>
+  );
+};
+
+export default DatedValueList;
@@ -0,0 +1,88 @@
+import React, { useState } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { Save, TrendingUp } from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+import { supabase } from '@/integrations/supabase/client';
+import { toRateChangeJson, type RateChange } from '@/domain/loanEngine';
+import DatedValueList from './DatedValueList';
+
+interface EditableCashRateFormProps {
+  scenarioId: string;
+  cashRatePath?: RateChange[];
+  onCashRatePathChange: (path: RateChange[]) => void;
+}
+
+const EditableCashRateForm: React.FC<EditableCashRateFormProps> = ({
+  scenarioId,
+  cashRatePath,
+  onCashRatePathChange,
+}) => {
+  const [draftPath, setDraftPath] = useState<RateChange[]>(cashRatePath || []);
+  const [isSaving, setIsSaving] = useState(false);
+  const { toast } = useToast();
+
+  const handleSave = async () => {
+    const sortedPath = [...draftPath].sort((a, b) => a.date.getTime() - b.date.getTime());
+
+    setIsSaving(true);
+    try {
+      const { error } = await supabase
+        .from('scenarios')
+        .update({ cash_rate_path_json: toRateChangeJson(sortedPath) })
+        .eq('id', scenarioId);
+
+      if (error) throw error;
+
+      setDraftPath(sortedPath);
+      onCashRatePathChange(sortedPath);
+
+      toast({
+        title: 'Cash Rate Updated',
+        description: 'The cash rate path has been saved successfully.',
+      });
+    } catch (error) {
+      console.error('Error saving cash rate path:', error);
+      toast({
+        title: 'Error',
+        description: 'Failed to save cash rate path. Please try again.',
+        variant: 'destructive',
+      });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <TrendingUp className="w-5 h-5" />
+          Cash Rate Path
+        </CardTitle>
+        <CardDescription>
+          Loans set to follow the cash rate are charged it plus their margin from each date
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="space-y-2">
+          <Label>Cash Rate from</Label>
+          <DatedValueList
+            addLabel="Add Cash Rate"
+            items={draftPath.map(c => ({ date: c.date, value: c.annualRate }))}
+            onChange={(items) => setDraftPath(items.map(item => ({ date: item.date, annualRate: item.value })))}
+            step="0.0001"
+          />
+        </div>
+
+        <Button onClick={handleSave} disabled={isSaving}>
+          <Save className="w-4 h-4 mr-2" />
+          {isSaving ? 'Saving...' : 'Save Cash Rate Path'}
+        </Button>
+      </CardContent>
+    </Card>
+  );
+};
+
+export default EditableCashRateForm;
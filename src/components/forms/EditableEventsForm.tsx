@@ -0,0 +1,675 @@
+import React, { useState } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Calendar } from '@/components/ui/calendar';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { CalendarClock, CalendarIcon, Plus, Save, Trash2, X } from 'lucide-react';
+import { format } from 'date-fns';
+import { cn } from '@/lib/utils';
+import { useToast } from '@/hooks/use-toast';
+import { supabase } from '@/integrations/supabase/client';
+import type { Json } from '@/integrations/supabase/types';
+import type { Person, Property } from '@/domain/forecastEngine';
+import type { LoanDetails, LoanPurpose } from '@/domain/loanEngine';
+import type { PlanEvent, PlanEventKind, PlanEventMeta } from '@/domain/eventEngine';
+import { AU_STATES, formatCurrency } from '@/domain/constants';
+
+interface EditableEventsFormProps {
+  events: PlanEvent[];
+  scenarioId: string;
+  properties: Property[];
+  loans: LoanDetails[];
+  people: Person[];
+  onEventsChange: (events: PlanEvent[]) => void;
+}
+
+// Purchase details that change the stamp duty on a buy
+const DUTY_FLAGS: { key: 'isFirstHome' | 'isOffThePlan' | 'isForeignPurchaser'; label: string }[] = [
+  { key: 'isFirstHome', label: 'First home buyer' },
+  { key: 'isOffThePlan', label: 'Off the plan / new build' },
+  { key: 'isForeignPurchaser', label: 'Foreign purchaser' },
+];
+
+// Equity drawn at a refinance is deductible only when it is invested
+const CASH_OUT_PURPOSES: { value: LoanPurpose; label: string }[] = [
+  { value: 'private', label: 'Private spending' },
+  { value: 'investment', label: 'Investing' },
+];
+
+const EVENT_TYPES: { value: PlanEventKind; label: string; amountLabel?: string }[] = [
+  { value: 'buy', label: 'Buy property', amountLabel: 'Purchase Price ($)' },
+  { value: 'sell', label: 'Sell property', amountLabel: 'Sale Price ($, blank for projected value)' },
+  { value: 'refinance', label: 'Refinance loan', amountLabel: 'Legal and Other Costs ($)' },
+  { value: 'move_in', label: 'Move in' },
+  { value: 'move_out', label: 'Move out' },
+  { value: 'new_car', label: 'New car', amountLabel: 'Car Cost ($)' },
+  { value: 'crash_pad_on', label: 'Start renting a crash pad', amountLabel: 'Rent per Week ($)' },
+  { value: 'crash_pad_off', label: 'Stop renting a crash pad' },
+  { value: 'super_topup', label: 'Super top-up', amountLabel: 'Contribution ($)' },
+];
+
+const EditableEventsForm: React.FC<EditableEventsFormProps> = ({
+  events,
+  scenarioId,
+  properties,
+  loans,
+  people,
+  onEventsChange,
+}) => {
+  const [isAdding, setIsAdding] = useState(false);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const { toast } = useToast();
+
+  const [formData, setFormData] = useState({
+    date: new Date(),
+    kind: 'buy' as PlanEventKind,
+    amountDollars: '',
+    meta: {} as PlanEventMeta,
+  });
+
+  // Properties and loans created by earlier buy events can be sold or refinanced too
+  const plannedProperties = events
+    .filter(e => e.kind === 'buy' && e.id !== editingId)
+    .map(e => ({ id: e.id, name: e.meta.name || 'New property' }));
+  const propertyOptions = [...properties.map(p => ({ id: p.id, name: p.name })), ...plannedProperties];
+  const loanOptions = [
+    ...loans.map(l => ({ id: l.id, name: `Loan ${l.id}` })),
+    ...plannedProperties.map(p => ({ id: `${p.id}-loan`, name: `${p.name} loan` })),
+  ];
+
+  const getEventTypeInfo = (kind: PlanEventKind) => {
+    return EVENT_TYPES.find(t => t.value === kind) || EVENT_TYPES[0];
+  };
+
+  const getPropertyName = (propertyId?: string) => {
+    return propertyOptions.find(p => p.id === propertyId)?.name || 'Unknown property';
+  };
+
+  const describeEvent = (event: PlanEvent): string => {
+    switch (event.kind) {
+      case 'buy':
+        return event.meta.name || 'New property';
+      case 'sell':
+      case 'move_in':
+      case 'move_out':
+        return getPropertyName(event.meta.propertyId);
+      case 'refinance':
+        return loanOptions.find(l => l.id === event.meta.loanId)?.name || 'Unknown loan';
+      case 'super_topup':
+        return people.find(p => p.id === event.meta.personId)?.name || 'Primary person';
+      default:
+        return '';
+    }
+  };
+
+  const setMeta = (meta: Partial<PlanEventMeta>) => {
+    setFormData({ ...formData, meta: { ...formData.meta, ...meta } });
+  };
+
+  const toCents = (dollars: string) => dollars === '' ? undefined : Math.round(Number(dollars) * 100);
+  const toDollars = (cents?: number) => cents !== undefined ? cents / 100 : '';
+  const toRate = (percent: string) => percent === '' ? undefined : Number(percent) / 100;
+  const toPercent = (rate?: number) => rate !== undefined ? rate * 100 : '';
+  const toYears = (years: string) => years === '' ? undefined : Number(years);
+
+  const resetForm = () => {
+    setFormData({
+      date: new Date(),
+      kind: 'buy',
+      amountDollars: '',
+      meta: {},
+    });
+    setIsAdding(false);
+    setEditingId(null);
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    try {
+      const eventData = {
+        scenario_id: scenarioId,
+        event_date: formData.date.toISOString().split('T')[0],
+        kind: formData.kind,
+        amount_cents: getEventTypeInfo(formData.kind).amountLabel ? toCents(formData.amountDollars) ?? null : null,
+        meta_json: formData.meta as Json,
+      };
+
+      let result;
+      if (editingId) {
+        // Update existing event
+        result = await supabase
+          .from('plan_events')
+          .update(eventData)
+          .eq('id', editingId)
+          .select()
+          .single();
+      } else {
+        // Create new event
+        result = await supabase
+          .from('plan_events')
+          .insert(eventData)
+          .select()
+          .single();
+      }
+
+      if (result.error) throw result.error;
+
+      const savedEvent: PlanEvent = {
+        id: result.data.id,
+        scenarioId: result.data.scenario_id,
+        date: new Date(result.data.event_date),
+        kind: result.data.kind as PlanEventKind,
+        amountCents: result.data.amount_cents ?? undefined,
+        meta: (result.data.meta_json as PlanEventMeta | null) || {},
+      };
+
+      const updatedEvents = editingId
+        ? events.map(e => e.id === editingId ? savedEvent : e)
+        : [...events, savedEvent];
+
+      onEventsChange(updatedEvents.sort((a, b) => a.date.getTime() - b.date.getTime()));
+      resetForm();
+
+      toast({
+        title: editingId ? 'Event Updated' : 'Event Added',
+        description: `${getEventTypeInfo(savedEvent.kind).label} on ${format(savedEvent.date, 'PPP')} has been saved.`,
+      });
+    } catch (error) {
+      console.error('Error saving event:', error);
+      toast({
+        title: 'Error',
+        description: 'Failed to save event. Please try again.',
+        variant: 'destructive',
+      });
+    }
+  };
+
+  const handleEdit = (event: PlanEvent) => {
+    setFormData({
+      date: event.date,
+      kind: event.kind,
+      amountDollars: event.amountCents !== undefined ? String(event.amountCents / 100) : '',
+      meta: event.meta,
+    });
+    setEditingId(event.id);
+    setIsAdding(true);
+  };
+
+  const handleDelete = async (eventId: string) => {
+    try {
+      const { error } = await supabase
+        .from('plan_events')
+        .delete()
+        .eq('id', eventId);
+
+      if (error) throw error;
+
+      onEventsChange(events.filter(e => e.id !== eventId));
+
+      toast({
+        title: 'Event Deleted',
+        description: 'Event has been removed from the plan.',
+      });
+    } catch (error) {
+      console.error('Error deleting event:', error);
+      toast({
+        title: 'Error',
+        description: 'Failed to delete event. Please try again.',
+        variant: 'destructive',
+      });
+    }
+  };
+
+  const typeInfo = getEventTypeInfo(formData.kind);
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center justify-between">
+          <span className="flex items-center gap-2">
+            <CalendarClock className="w-5 h-5" />
+            Plan Events
+          </span>
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={() => setIsAdding(true)}
+          >
+            <Plus className="w-4 h-4 mr-2" />
+            Add Event
+          </Button>
+        </CardTitle>
+        <CardDescription>
+          Purchases, sales, refinances and life changes applied on their date during the forecast
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        {events.length === 0 && !isAdding ? (
+          <div className="text-center py-8">
+            <CalendarClock className="w-12 h-12 text-muted-foreground mx-auto mb-4" />
+            <h3 className="text-lg font-medium mb-2">No events planned</h3>
+            <p className="text-muted-foreground mb-4">
+              Add events like buying a second investment property or refinancing a loan
+            </p>
+            <Button onClick={() => setIsAdding(true)}>
+              <Plus className="w-4 h-4 mr-2" />
+              Add First Event
+            </Button>
+          </div>
+        ) : (
+          <div className="space-y-4">
+            {events.map((event) => (
+              <Card key={event.id} className="border-l-4 border-l-primary">
+                <CardContent className="p-4">
+                  <div className="flex items-center justify-between">
+                    <div>
+                      <div className="flex items-center gap-2">
+                        <Badge variant="secondary">{format(event.date, 'MMM yyyy')}</Badge>
+                        <h3 className="font-medium">{getEventTypeInfo(event.kind).label}</h3>
+                      </div>
+                      <div className="flex gap-4 mt-2 text-sm text-muted-foreground">
+                        {describeEvent(event) && <span>{describeEvent(event)}</span>}
+                        {event.amountCents !== undefined && <span>{formatCurrency(event.amountCents)}</span>}
+                      </div>
+                    </div>
+                    <div className="flex gap-2">
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        onClick={() => handleEdit(event)}
+                      >
+                        Edit
+                      </Button>
+                      <Button
+                        variant="destructive"
+                        size="sm"
+                        onClick={() => handleDelete(event.id)}
+                      >
+                        <Trash2 className="w-4 h-4" />
+                      </Button>
+                    </div>
+                  </div>
+                </CardContent>
+              </Card>
+            ))}
+
+            {isAdding && (
+              <Card className="border-2 border-dashed border-primary">
+                <CardContent className="p-4">
+                  <form onSubmit={handleSubmit} className="space-y-4">
+                    <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                      <div className="space-y-2">
+                        <Label>Event</Label>
+                        <Select
+                          value={formData.kind}
+                          onValueChange={(value) => setFormData({ ...formData, kind: value as PlanEventKind, meta: {} })}
+                        >
+                          <SelectTrigger>
+                            <SelectValue placeholder="Select event" />
+                          </SelectTrigger>
+                          <SelectContent>
+                            {EVENT_TYPES.map((type) => (
+                              <SelectItem key={type.value} value={type.value}>
+                                {type.label}
+                              </SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                      </div>
+
+                      <div className="space-y-2">
+                        <Label>Date</Label>
+                        <Popover>
+                          <PopoverTrigger asChild>
+                            <Button
+                              variant="outline"
+                              className={cn(
+                                'w-full justify-start text-left font-normal',
+                                !formData.date && 'text-muted-foreground'
+                              )}
+                            >
+                              <CalendarIcon className="mr-2 h-4 w-4" />
+                              {formData.date ? format(formData.date, 'PPP') : 'Pick a date'}
+                            </Button>
+                          </PopoverTrigger>
+                          <PopoverContent className="w-auto p-0">
+                            <Calendar
+                              mode="single"
+                              selected={formData.date}
+                              onSelect={(date) => setFormData({ ...formData, date: date || new Date() })}
+                              initialFocus
+                            />
+                          </PopoverContent>
+                        </Popover>
+                      </div>
+
+                      {typeInfo.amountLabel && (
+                        <div className="space-y-2">
+                          <Label htmlFor="amount">{typeInfo.amountLabel}</Label>
+                          <Input
+                            id="amount"
+                            type="number"
+                            value={formData.amountDollars}
+                            onChange={(e) => setFormData({ ...formData, amountDollars: e.target.value })}
+                            required={formData.kind !== 'sell'}
+                          />
+                        </div>
+                      )}
+
+                      {(formData.kind === 'sell' || formData.kind === 'move_in' || formData.kind === 'move_out') && (
+                        <div className="space-y-2">
+                          <Label>Property</Label>
+                          <Select
+                            value={formData.meta.propertyId}
+                            onValueChange={(value) => setMeta({ propertyId: value })}
+                          >
+                            <SelectTrigger>
+                              <SelectValue placeholder="Select property" />
+                            </SelectTrigger>
+                            <SelectContent>
+                              {propertyOptions.map((property) => (
+                                <SelectItem key={property.id} value={property.id}>
+                                  {property.name}
+                                </SelectItem>
+                              ))}
+                            </SelectContent>
+                          </Select>
+                        </div>
+                      )}
+
+                      {formData.kind === 'refinance' && (
+                        <div className="space-y-2">
+                          <Label>Loan</Label>
+                          <Select
+                            value={formData.meta.loanId}
+                            onValueChange={(value) => setMeta({ loanId: value })}
+                          >
+                            <SelectTrigger>
+                              <SelectValue placeholder="Select loan" />
+                            </SelectTrigger>
+                            <SelectContent>
+                              {loanOptions.map((loan) => (
+                                <SelectItem key={loan.id} value={loan.id}>
+                                  {loan.name}
+                                </SelectItem>
+                              ))}
+                            </SelectContent>
+                          </Select>
+                        </div>
+                      )}
+
+                      {formData.kind === 'super_topup' && (
+                        <div className="space-y-2">
+                          <Label>Person</Label>
+                          <Select
+                            value={formData.meta.personId}
+                            onValueChange={(value) => setMeta({ personId: value })}
+                          >
+                            <SelectTrigger>
+                              <SelectValue placeholder="Primary person" />
+                            </SelectTrigger>
+                            <SelectContent>
+                              {people.map((person) => (
+                                <SelectItem key={person.id} value={person.id}>
+                                  {person.name}
+                                </SelectItem>
+                              ))}
+                            </SelectContent>
+                          </Select>
+                        </div>
+                      )}
+
+                      {formData.kind === 'buy' && (
+                        <>
+                          <div className="space-y-2">
+                            <Label htmlFor="propertyName">Property Name</Label>
+                            <Input
+                              id="propertyName"
+                              value={formData.meta.name || ''}
+                              onChange={(e) => setMeta({ name: e.target.value })}
+                              placeholder="e.g., IP #2"
+                            />
+                          </div>
+
+                          <div className="space-y-2">
+                            <Label htmlFor="loanAmount">Loan Amount ($, blank for 80% LVR)</Label>
+                            <Input
+                              id="loanAmount"
+                              type="number"
+                              value={toDollars(formData.meta.loanAmountCents)}
+                              onChange={(e) => setMeta({ loanAmountCents: toCents(e.target.value) })}
+                            />
+                          </div>
+
+                          <div className="space-y-2">
+                            <Label htmlFor="rentPw">Rent per Week ($)</Label>
+                            <Input
+                              id="rentPw"
+                              type="number"
+                              value={toDollars(formData.meta.rentPwCents)}
+                              onChange={(e) => setMeta({ rentPwCents: toCents(e.target.value) })}
+                            />
+                          </div>
+
+                          <div className="space-y-2">
+                            <Label htmlFor="growth">Value Growth (% p.a.)</Label>
+                            <Input
+                              id="growth"
+                              type="number"
+                              step="0.1"
+                              value={toPercent(formData.meta.valueGrowthPa)}
+                              onChange={(e) => setMeta({ valueGrowthPa: toRate(e.target.value) })}
+                              placeholder="5"
+                            />
+                          </div>
+
+                          <div className="space-y-2">
+                            <Label htmlFor="costs">Annual Holding Costs ($)</Label>
+                            <Input
+                              id="costs"
+                              type="number"
+                              value={toDollars(formData.meta.costsPaCents)}
+                              onChange={(e) => setMeta({ costsPaCents: toCents(e.target.value) })}
+                            />
+                          </div>
+
+                          <div className="space-y-2">
+                            <Label htmlFor="landValue">Land Value ($, for land tax)</Label>
+                            <Input
+                              id="landValue"
+                              type="number"
+                              value={toDollars(formData.meta.landValueCents)}
+                              onChange={(e) => setMeta({ landValueCents: toCents(e.target.value) })}
+                            />
+                          </div>
+
+                          <div className="space-y-2 flex items-end">
+                            <label className="flex items-center space-x-2">
+                              <input
+                                type="checkbox"
+                                checked={formData.meta.isInvestment ?? true}
+                                onChange={(e) => setMeta({ isInvestment: e.target.checked })}
+                              />
+                              <span className="text-sm">Investment property</span>
+                            </label>
+                          </div>
+
+                          <div className="space-y-2">
+                            <Label>State</Label>
+                            <Select
+                              value={formData.meta.stateCode || ''}
+                              onValueChange={(value) => setMeta({ stateCode: value })}
+                            >
+                              <SelectTrigger>
+                                <SelectValue placeholder="Profile state" />
+                              </SelectTrigger>
+                              <SelectContent>
+                                {AU_STATES.map((state) => (
+                                  <SelectItem key={state.code} value={state.code}>
+                                    {state.code} - {state.name}
+                                  </SelectItem>
+                                ))}
+                              </SelectContent>
+                            </Select>
+                          </div>
+
+                          <div className="space-y-2 flex flex-col justify-end">
+                            {DUTY_FLAGS.map((flag) => (
+                              <label key={flag.key} className="flex items-center space-x-2">
+                                <input
+                                  type="checkbox"
+                                  checked={formData.meta[flag.key] ?? false}
+                                  onChange={(e) => setMeta({ [flag.key]: e.target.checked })}
+                                />
+                                <span className="text-sm">{flag.label}</span>
+                              </label>
+                            ))}
+                          </div>
+                        </>
+                      )}
+
+                      {(formData.kind === 'buy' || formData.kind === 'refinance') && (
+                        <>
+                          <div className="space-y-2">
+                            <Label htmlFor="rate">Interest Rate (% p.a.)</Label>
+                            <Input
+                              id="rate"
+                              type="number"
+                              step="0.01"
+                              value={toPercent(formData.meta.annualRate)}
+                              onChange={(e) => setMeta({ annualRate: toRate(e.target.value) })}
+                              placeholder={formData.kind === 'buy' ? '6.5' : 'Keep current rate'}
+                            />
+                          </div>
+
+                          <div className="space-y-2">
+                            <Label htmlFor="term">Loan Term (years)</Label>
+                            <Input
+                              id="term"
+                              type="number"
+                              value={formData.meta.termYears ?? ''}
+                              onChange={(e) => setMeta({ termYears: toYears(e.target.value) })}
+                              placeholder={formData.kind === 'buy' ? '30' : 'Remaining term'}
+                            />
+                          </div>
+
+                          <div className="space-y-2">
+                            <Label htmlFor="ioYears">Interest Only (years)</Label>
+                            <Input
+                              id="ioYears"
+                              type="number"
+                              value={formData.meta.ioYears ?? ''}
+                              onChange={(e) => setMeta({ ioYears: toYears(e.target.value) })}
+                              placeholder="0"
+                            />
+                          </div>
+                        </>
+                      )}
+
+                      {formData.kind === 'refinance' && (
+                        <>
+                          <div className="space-y-2">
+                            <Label htmlFor="cashOut">Cash Out ($)</Label>
+                            <Input
+                              id="cashOut"
+                              type="number"
+                              value={toDollars(formData.meta.cashOutCents)}
+                              onChange={(e) => setMeta({ cashOutCents: toCents(e.target.value) })}
+                            />
+                          </div>
+
+                          <div className="space-y-2">
+                            <Label>Cash Out Used For</Label>
+                            <Select
+                              value={formData.meta.cashOutPurpose || 'private'}
+                              onValueChange={(value) => setMeta({ cashOutPurpose: value as LoanPurpose })}
+                            >
+                              <SelectTrigger>
+                                <SelectValue />
+                              </SelectTrigger>
+                              <SelectContent>
+                                {CASH_OUT_PURPOSES.map((purpose) => (
+                                  <SelectItem key={purpose.value} value={purpose.value}>
+                                    {purpose.label}
+                                  </SelectItem>
+                                ))}
+                              </SelectContent>
+                            </Select>
+                          </div>
+
+                          <div className="space-y-2">
+                            <Label htmlFor="dischargeFee">Discharge Fee ($)</Label>
+                            <Input
+                              id="dischargeFee"
+                              type="number"
+                              value={toDollars(formData.meta.dischargeFeeCents)}
+                              onChange={(e) => setMeta({ dischargeFeeCents: toCents(e.target.value) })}
+                            />
+                          </div>
+
+                          <div className="space-y-2">
+                            <Label htmlFor="establishmentFee">Establishment Fee ($)</Label>
+                            <Input
+                              id="establishmentFee"
+                              type="number"
+                              value={toDollars(formData.meta.establishmentFeeCents)}
+                              onChange={(e) => setMeta({ establishmentFeeCents: toCents(e.target.value) })}
+                            />
+                          </div>
+
+                          <div className="space-y-2">
+                            <Label htmlFor="breakFee">Fixed Rate Break Cost ($)</Label>
+                            <Input
+                              id="breakFee"
+                              type="number"
+                              value={toDollars(formData.meta.breakFeeCents)}
+                              onChange={(e) => setMeta({ breakFeeCents: toCents(e.target.value) })}
+                              placeholder="Estimate"
+                            />
+                          </div>
+
+                          <div className="space-y-2 flex flex-col justify-end">
+                            <label className="flex items-center space-x-2">
+                              <input
+                                type="checkbox"
+                                checked={formData.meta.capitaliseCosts ?? false}
+                                onChange={(e) => setMeta({ capitaliseCosts: e.target.checked })}
+                              />
+                              <span className="text-sm">Add costs to the new loan</span>
+                            </label>
+                          </div>
+                        </>
+                      )}
+                    </div>
+
+                    <div className="flex gap-2">
+                      <Button type="submit" className="flex-1">
+                        <Save className="w-4 h-4 mr-2" />
+                        {editingId ? 'Update Event' : 'Add Event'}
+                      </Button>
+                      <Button
+                        type="button"
+                        variant="outline"
+                        onClick={resetForm}
+                      >
+                        <X className="w-4 h-4 mr-2" />
+                        Cancel
+                      </Button>
+                    </div>
+                  </form>
+                </CardContent>
+              </Card>
+            )}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default EditableEventsForm;
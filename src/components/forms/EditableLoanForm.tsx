@@ -10,12 +10,27 @@ import { Badge } from '@/components/ui/badge';
 import { Switch } from '@/components/ui/switch';
 import { Calendar } from '@/components/ui/calendar';
 import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { CalendarIcon, CreditCard, Save, X, Trash2 } from 'lucide-react';
 import { format } from 'date-fns';
 import { cn } from '@/lib/utils';
 import { useToast } from '@/hooks/use-toast';
 import { supabase } from '@/integrations/supabase/client';
-import type { LoanDetails } from '@/domain/loanEngine';
+import DatedValueList, { type DatedValue } from './DatedValueList';
+import { formatCurrency } from '@/domain/constants';
+import {
+  calculateLoanSchedule,
+  parseLoanTransactions,
+  parseRateChanges,
+  toLoanTransactionJson,
+  toRateChangeJson,
+  type LoanDetails,
+  type LoanPurpose,
+  type LoanTransaction,
+  type PrepaymentMode,
+  type RateChange,
+} from '@/domain/loanEngine';
+import type { Property } from '@/domain/forecastEngine';
 
 const loanSchema = z.object({
   propertyId: z.string().min(1, 'Property is required'),
@@ -24,16 +39,44 @@ const loanSchema = z.object({
   annualRate: z.number().min(0).max(1, 'Interest rate must be between 0% and 100%'),
   ioYears: z.number().min(0).max(30, 'IO years must be between 0 and 30'),
   termYears: z.number().min(1).max(50, 'Term must be between 1 and 50 years'),
-  offsetStartCents: z.number().min(0, 'Offset start balance must be positive or zero'),
-  offsetContribMonthlyCents: z.number().min(0, 'Monthly contribution must be positive or zero'),
   allowRedraw: z.boolean(),
+  extraMonthlyCents: z.number().min(0, 'Extra repayment must be positive or zero'),
+  prepaymentMode: z.enum(['keep_payment', 'recalculate_payment']),
+  tracksCashRate: z.boolean(),
+  rateMarginPa: z.number().min(0).max(1, 'Margin must be between 0% and 100%'),
+  fixedRatePa: z.number().min(0).max(1, 'Fixed rate must be between 0% and 100%'),
+  fixedYears: z.number().min(0).max(10, 'Fixed period must be between 0 and 10 years'),
+  fixedPortionPct: z.number().min(1).max(100, 'Fixed share must be between 1% and 100%'),
+  purpose: z.enum(['property', 'investment', 'private']),
 });
 
 type LoanFormData = z.infer<typeof loanSchema>;
 
+const PREPAYMENT_MODES: { value: PrepaymentMode; label: string }[] = [
+  { value: 'keep_payment', label: 'Keep repayment, finish sooner' },
+  { value: 'recalculate_payment', label: 'Lower repayment, same term' },
+];
+
+const LOAN_PURPOSES: { value: LoanPurpose; label: string }[] = [
+  { value: 'property', label: 'Buying the secured property' },
+  { value: 'investment', label: 'Other investments' },
+  { value: 'private', label: 'Private spending' },
+];
+
+// DatedValueList edits dollars and rates; the loan stores cents and dated rates
+const toDollarItems = (transactions: LoanTransaction[]): DatedValue[] =>
+  transactions.map(t => ({ date: t.date, value: t.amountCents / 100 }));
+const fromDollarItems = (items: DatedValue[]): LoanTransaction[] =>
+  items.map(item => ({ date: item.date, amountCents: Math.round(item.value * 100) }));
+const toRateItems = (changes: RateChange[]): DatedValue[] =>
+  changes.map(c => ({ date: c.date, value: c.annualRate }));
+const fromRateItems = (items: DatedValue[]): RateChange[] =>
+  items.map(item => ({ date: item.date, annualRate: item.value }));
+
 interface EditableLoanFormProps {
   loan?: LoanDetails & { propertyId: string };
   propertyId?: string;
+  properties: Property[];
   onSave?: (loan: LoanDetails) => void;
   onCancel?: () => void;
   onDelete?: (loanId: string) => void;
@@ -42,12 +85,18 @@ interface EditableLoanFormProps {
 const EditableLoanForm: React.FC<EditableLoanFormProps> = ({
   loan,
   propertyId,
+  properties,
   onSave,
   onCancel,
   onDelete,
 }) => {
   const [isSubmitting, setIsSubmitting] = useState(false);
   const [isDeleting, setIsDeleting] = useState(false);
+  const [lumpSums, setLumpSums] = useState<LoanTransaction[]>(loan?.lumpSums || []);
+  const [redraws, setRedraws] = useState<LoanTransaction[]>(loan?.redraws || []);
+  const [redrawPurpose, setRedrawPurpose] = useState<LoanPurpose>(loan?.redraws?.[0]?.purpose || 'private');
+  const [rateChanges, setRateChanges] = useState<RateChange[]>(loan?.rateChanges || []);
+  const [securityPropertyIds, setSecurityPropertyIds] = useState<string[]>(loan?.securityPropertyIds || []);
   const { toast } = useToast();
 
   const {
@@ -65,9 +114,15 @@ const EditableLoanForm: React.FC<EditableLoanFormProps> = ({
       annualRate: loan.annualRate,
       ioYears: loan.ioYears,
       termYears: loan.termYears,
-      offsetStartCents: loan.offsetStartCents / 100,
-      offsetContribMonthlyCents: loan.offsetContribMonthlyCents / 100,
       allowRedraw: loan.allowRedraw,
+      extraMonthlyCents: (loan.extraMonthlyCents || 0) / 100,
+      prepaymentMode: loan.prepaymentMode || 'recalculate_payment',
+      tracksCashRate: loan.rateMarginPa !== undefined,
+      rateMarginPa: loan.rateMarginPa ?? 0.02,
+      fixedRatePa: loan.fixedRatePa ?? 0,
+      fixedYears: loan.fixedYears ?? 0,
+      fixedPortionPct: (loan.fixedPortionPct ?? 1) * 100,
+      purpose: loan.purpose || 'property',
     } : {
       propertyId: propertyId || '',
       startDate: new Date(),
@@ -75,27 +130,45 @@ const EditableLoanForm: React.FC<EditableLoanFormProps> = ({
       annualRate: 0.06,
       ioYears: 2,
       termYears: 30,
-      offsetStartCents: 0,
-      offsetContribMonthlyCents: 0,
       allowRedraw: false,
+      extraMonthlyCents: 0,
+      prepaymentMode: 'recalculate_payment',
+      tracksCashRate: false,
+      rateMarginPa: 0.02,
+      fixedRatePa: 0,
+      fixedYears: 0,
+      fixedPortionPct: 100,
+      purpose: 'property',
     },
   });
 
   const watchedValues = watch();
 
+  // Every planned redraw is put to the same use
+  const purposedRedraws = redraws.map(redraw => ({ ...redraw, purpose: redrawPurpose }));
+
   const onSubmit = async (data: LoanFormData) => {
     setIsSubmitting(true);
     try {
       const loanData = {
         property_id: data.propertyId,
+        security_property_ids: securityPropertyIds.filter(id => id !== data.propertyId),
         start_date: data.startDate.toISOString().split('T')[0],
         start_balance_cents: Math.round(data.startBalanceCents * 100),
         rate_pa: data.annualRate,
         io_years: data.ioYears,
         term_years: data.termYears,
-        offset_start_cents: Math.round(data.offsetStartCents * 100),
-        offset_contrib_monthly_cents: Math.round(data.offsetContribMonthlyCents * 100),
         allow_redraw: data.allowRedraw,
+        extra_monthly_cents: Math.round(data.extraMonthlyCents * 100),
+        lump_sums_json: toLoanTransactionJson(lumpSums),
+        redraws_json: toLoanTransactionJson(data.allowRedraw ? purposedRedraws : []),
+        prepayment_mode: data.prepaymentMode,
+        rate_changes_json: toRateChangeJson(data.tracksCashRate ? [] : rateChanges),
+        rate_margin_pa: data.tracksCashRate ? data.rateMarginPa : null,
+        fixed_rate_pa: data.fixedYears > 0 ? data.fixedRatePa : null,
+        fixed_years: data.fixedYears > 0 ? data.fixedYears : null,
+        fixed_portion_pct: data.fixedYears > 0 ? data.fixedPortionPct / 100 : null,
+        purpose: data.purpose,
       };
 
       let result;
@@ -122,6 +195,8 @@ const EditableLoanForm: React.FC<EditableLoanFormProps> = ({
 
       const savedLoan: LoanDetails = {
         id: result.data.id,
+        propertyId: result.data.property_id,
+        securityPropertyIds: result.data.security_property_ids,
         startDate: new Date(result.data.start_date),
         startBalanceCents: result.data.start_balance_cents,
         annualRate: result.data.rate_pa,
@@ -130,6 +205,16 @@ const EditableLoanForm: React.FC<EditableLoanFormProps> = ({
         offsetStartCents: result.data.offset_start_cents,
         offsetContribMonthlyCents: result.data.offset_contrib_monthly_cents,
         allowRedraw: result.data.allow_redraw,
+        extraMonthlyCents: result.data.extra_monthly_cents,
+        lumpSums: parseLoanTransactions(result.data.lump_sums_json),
+        redraws: parseLoanTransactions(result.data.redraws_json),
+        prepaymentMode: result.data.prepayment_mode as PrepaymentMode,
+        rateChanges: parseRateChanges(result.data.rate_changes_json),
+        rateMarginPa: result.data.rate_margin_pa ?? undefined,
+        fixedRatePa: result.data.fixed_rate_pa ?? undefined,
+        fixedYears: result.data.fixed_years ?? undefined,
+        fixedPortionPct: result.data.fixed_portion_pct ?? undefined,
+        purpose: result.data.purpose as LoanPurpose,
       };
 
       toast({
@@ -185,6 +270,27 @@ const EditableLoanForm: React.FC<EditableLoanFormProps> = ({
   const monthlyPaymentEstimate = watchedValues.startBalanceCents > 0 ? 
     (watchedValues.startBalanceCents * watchedValues.annualRate / 12) : 0;
 
+  const payingAhead = watchedValues.extraMonthlyCents > 0 || lumpSums.length > 0 || redraws.length > 0;
+  const schedule = payingAhead && watchedValues.startBalanceCents > 0 ? calculateLoanSchedule({
+    id: loan?.id || 'new',
+    startDate: watchedValues.startDate,
+    startBalanceCents: Math.round(watchedValues.startBalanceCents * 100),
+    annualRate: watchedValues.annualRate,
+    ioYears: watchedValues.ioYears || 0,
+    termYears: watchedValues.termYears || 30,
+    offsetStartCents: 0,
+    offsetContribMonthlyCents: 0,
+    allowRedraw: watchedValues.allowRedraw,
+    extraMonthlyCents: Math.round((watchedValues.extraMonthlyCents || 0) * 100),
+    lumpSums,
+    redraws: watchedValues.allowRedraw ? purposedRedraws : [],
+    prepaymentMode: watchedValues.prepaymentMode,
+    rateChanges: watchedValues.tracksCashRate ? [] : rateChanges,
+    fixedRatePa: watchedValues.fixedYears > 0 ? watchedValues.fixedRatePa : undefined,
+    fixedYears: watchedValues.fixedYears || 0,
+    fixedPortionPct: (watchedValues.fixedPortionPct || 100) / 100,
+  }) : undefined;
+
   return (
     <Card className="shadow-soft border-l-4 border-l-accent">
       <CardHeader>
@@ -196,7 +302,7 @@ const EditableLoanForm: React.FC<EditableLoanFormProps> = ({
                 {loan ? 'Edit Loan' : 'Add New Loan'}
               </CardTitle>
               <CardDescription>
-                {loan ? `Editing loan ${loan.id}` : 'Create a new loan for this property'}
+                {loan ? `Editing loan ${loan.id}` : 'Create a new loan secured by your properties'}
               </CardDescription>
             </div>
           </div>
@@ -216,6 +322,75 @@ const EditableLoanForm: React.FC<EditableLoanFormProps> = ({
         <form onSubmit={handleSubmit(onSubmit)} className="space-y-6">
           {/* Basic Loan Details */}
           <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label>Secured By *</Label>
+              <Select
+                value={watchedValues.propertyId}
+                onValueChange={(value) => setValue('propertyId', value)}
+              >
+                <SelectTrigger>
+                  <SelectValue placeholder="Select property" />
+                </SelectTrigger>
+                <SelectContent>
+                  {properties.map((property) => (
+                    <SelectItem key={property.id} value={property.id}>
+                      {property.name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              {errors.propertyId && (
+                <p className="text-sm text-destructive">{errors.propertyId.message}</p>
+              )}
+            </div>
+
+            <div className="space-y-2">
+              <Label>Also Secured By</Label>
+              <div className="space-y-1">
+                {properties.filter(p => p.id !== watchedValues.propertyId).map((property) => (
+                  <label key={property.id} className="flex items-center space-x-2">
+                    <input
+                      type="checkbox"
+                      checked={securityPropertyIds.includes(property.id)}
+                      onChange={(e) => setSecurityPropertyIds(e.target.checked
+                        ? [...securityPropertyIds, property.id]
+                        : securityPropertyIds.filter(id => id !== property.id))}
+                    />
+                    <span className="text-sm">{property.name}</span>
+                  </label>
+                ))}
+                {properties.length < 2 && (
+                  <p className="text-sm text-muted-foreground">No other properties to cross-collateralise</p>
+                )}
+              </div>
+            </div>
+
+            <div className="space-y-2">
+              <Label>Borrowed For</Label>
+              <Select
+                value={watchedValues.purpose}
+                onValueChange={(value) => setValue('purpose', value as LoanPurpose)}
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {LOAN_PURPOSES.map((purpose) => (
+                    <SelectItem key={purpose.value} value={purpose.value}>
+                      {purpose.label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <p className="text-sm text-muted-foreground">
+                {watchedValues.purpose === 'property'
+                  ? 'Interest is deductible while the property is rented out, including once a home becomes an investment'
+                  : watchedValues.purpose === 'investment'
+                    ? 'Interest is deductible whatever the property is used for'
+                    : 'Interest is not deductible'}
+              </p>
+            </div>
+
             <div className="space-y-2">
               <Label>Start Date *</Label>
               <Popover>
@@ -300,30 +475,94 @@ const EditableLoanForm: React.FC<EditableLoanFormProps> = ({
             </div>
           </div>
 
-          {/* Offset Account Details */}
+          {/* Rate Path */}
           <div className="space-y-3">
-            <Label className="text-base font-medium">Offset Account</Label>
+            <Label className="text-base font-medium">Rate Path</Label>
+            <div className="flex items-center space-x-2">
+              <Switch
+                id="tracksCashRate"
+                checked={watchedValues.tracksCashRate}
+                onCheckedChange={(checked) => setValue('tracksCashRate', checked)}
+              />
+              <Label htmlFor="tracksCashRate">Variable rate follows the scenario's cash rate</Label>
+            </div>
+
             <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              {watchedValues.tracksCashRate ? (
+                <div className="space-y-2">
+                  <Label htmlFor="rateMargin">Margin over Cash Rate</Label>
+                  <Input
+                    id="rateMargin"
+                    type="number"
+                    step="0.0001"
+                    {...register('rateMarginPa', { valueAsNumber: true })}
+                    placeholder="0.022"
+                  />
+                  {errors.rateMarginPa && (
+                    <p className="text-sm text-destructive">{errors.rateMarginPa.message}</p>
+                  )}
+                </div>
+              ) : (
+                <div className="space-y-2">
+                  <Label>Variable Rate Changes</Label>
+                  <DatedValueList
+                    addLabel="Add Rate Change"
+                    items={toRateItems(rateChanges)}
+                    onChange={(items) => setRateChanges(fromRateItems(items))}
+                    step="0.0001"
+                  />
+                </div>
+              )}
+            </div>
+
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
               <div className="space-y-2">
-                <Label htmlFor="offsetStart">Starting Balance ($)</Label>
+                <Label htmlFor="fixedYears">Fixed Period (Years)</Label>
                 <Input
-                  id="offsetStart"
+                  id="fixedYears"
                   type="number"
-                  {...register('offsetStartCents', { valueAsNumber: true })}
-                  placeholder="50000"
+                  {...register('fixedYears', { valueAsNumber: true })}
+                  placeholder="0"
                 />
+                {errors.fixedYears && (
+                  <p className="text-sm text-destructive">{errors.fixedYears.message}</p>
+                )}
               </div>
 
               <div className="space-y-2">
-                <Label htmlFor="offsetContrib">Monthly Contribution ($)</Label>
+                <Label htmlFor="fixedRate">Fixed Rate</Label>
                 <Input
-                  id="offsetContrib"
+                  id="fixedRate"
                   type="number"
-                  {...register('offsetContribMonthlyCents', { valueAsNumber: true })}
-                  placeholder="2000"
+                  step="0.0001"
+                  readOnly={!watchedValues.fixedYears}
+                  {...register('fixedRatePa', { valueAsNumber: true })}
+                  placeholder="0.055"
                 />
+                {errors.fixedRatePa && (
+                  <p className="text-sm text-destructive">{errors.fixedRatePa.message}</p>
+                )}
+              </div>
+
+              <div className="space-y-2">
+                <Label htmlFor="fixedPortion">Fixed Share (%)</Label>
+                <Input
+                  id="fixedPortion"
+                  type="number"
+                  readOnly={!watchedValues.fixedYears}
+                  {...register('fixedPortionPct', { valueAsNumber: true })}
+                  placeholder="100"
+                />
+                {errors.fixedPortionPct && (
+                  <p className="text-sm text-destructive">{errors.fixedPortionPct.message}</p>
+                )}
               </div>
             </div>
+            {watchedValues.fixedYears > 0 && (
+              <p className="text-sm text-muted-foreground">
+                The fixed share reverts to the variable rate after {watchedValues.fixedYears} years; offsets only reduce the variable share
+              </p>
+            )}
           </div>
 
           {/* Features */}
@@ -339,6 +578,98 @@ const EditableLoanForm: React.FC<EditableLoanFormProps> = ({
             </div>
           </div>
 
+          {/* Paying Ahead */}
+          <div className="space-y-3">
+            <Label className="text-base font-medium">Paying Ahead</Label>
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="extraMonthly">Extra Monthly Repayment ($)</Label>
+                <Input
+                  id="extraMonthly"
+                  type="number"
+                  {...register('extraMonthlyCents', { valueAsNumber: true })}
+                  placeholder="500"
+                />
+                {errors.extraMonthlyCents && (
+                  <p className="text-sm text-destructive">{errors.extraMonthlyCents.message}</p>
+                )}
+              </div>
+
+              <div className="space-y-2">
+                <Label>After Paying Ahead</Label>
+                <Select
+                  value={watchedValues.prepaymentMode}
+                  onValueChange={(value) => setValue('prepaymentMode', value as PrepaymentMode)}
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {PREPAYMENT_MODES.map((mode) => (
+                      <SelectItem key={mode.value} value={mode.value}>
+                        {mode.label}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+
+              <div className="space-y-2">
+                <Label>Lump Sums ($)</Label>
+                <DatedValueList
+                  addLabel="Add Lump Sum"
+                  items={toDollarItems(lumpSums)}
+                  onChange={(items) => setLumpSums(fromDollarItems(items))}
+                />
+              </div>
+
+              <div className="space-y-2">
+                <Label>Redraws ($)</Label>
+                <DatedValueList
+                  addLabel="Add Redraw"
+                  items={toDollarItems(redraws)}
+                  onChange={(items) => setRedraws(fromDollarItems(items))}
+                  disabled={!watchedValues.allowRedraw}
+                />
+                {!watchedValues.allowRedraw && redraws.length > 0 && (
+                  <p className="text-sm text-muted-foreground">Redraws are ignored while redraw is off</p>
+                )}
+              </div>
+
+              <div className="space-y-2">
+                <Label>Redraws Used For</Label>
+                <Select
+                  value={redrawPurpose}
+                  onValueChange={(value) => setRedrawPurpose(value as LoanPurpose)}
+                  disabled={!watchedValues.allowRedraw}
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {LOAN_PURPOSES.filter(purpose => purpose.value !== 'property').map((purpose) => (
+                      <SelectItem key={purpose.value} value={purpose.value}>
+                        {purpose.label}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                {redrawPurpose === 'private' && redraws.length > 0 && watchedValues.purpose !== 'private' && (
+                  <p className="text-sm text-destructive">
+                    Redrawing for private spending makes that part of the loan's interest non-deductible, even once the property is rented out
+                  </p>
+                )}
+              </div>
+            </div>
+
+            {schedule && (
+              <p className="text-sm text-muted-foreground">
+                {schedule.payoffDate ? `Paid off ${format(schedule.payoffDate, 'MMM yyyy')}` : 'Not paid off within the term'}
+                {' • '}{formatCurrency(schedule.interestSaved)} interest saved
+              </p>
+            )}
+          </div>
+
           {/* Estimated Monthly Payment */}
           <div className="bg-muted/30 p-4 rounded-lg">
             <Label className="text-sm font-medium">Estimated Monthly Payment</Label>
@@ -0,0 +1,312 @@
+import React, { useState } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Plus, Save, Trash2, Wallet, X } from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+import { supabase } from '@/integrations/supabase/client';
+import type { LoanDetails } from '@/domain/loanEngine';
+import type { OffsetAccount } from '@/domain/offsetEngine';
+import { formatCurrency } from '@/domain/constants';
+
+interface EditableOffsetAccountsFormProps {
+  accounts: OffsetAccount[];
+  loans: LoanDetails[];
+  scenarioId: string;
+  interestSaved: Record<string, number>; // Forecast interest saved per loan
+  onAccountsChange: (accounts: OffsetAccount[]) => void;
+}
+
+const EditableOffsetAccountsForm: React.FC<EditableOffsetAccountsFormProps> = ({
+  accounts,
+  loans,
+  scenarioId,
+  interestSaved,
+  onAccountsChange,
+}) => {
+  const [isAdding, setIsAdding] = useState(false);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const { toast } = useToast();
+
+  const [formData, setFormData] = useState({
+    name: '',
+    balanceCents: 0,
+    loanIds: [] as string[],
+  });
+
+  const resetForm = () => {
+    setFormData({
+      name: '',
+      balanceCents: 0,
+      loanIds: [],
+    });
+    setIsAdding(false);
+    setEditingId(null);
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (formData.loanIds.length === 0) {
+      toast({
+        title: 'No Loans Linked',
+        description: 'Link the offset account to at least one loan.',
+        variant: 'destructive',
+      });
+      return;
+    }
+
+    try {
+      const accountData = {
+        scenario_id: scenarioId,
+        name: formData.name,
+        balance_cents: Math.round(formData.balanceCents * 100),
+        loan_ids: formData.loanIds,
+      };
+
+      let result;
+      if (editingId) {
+        // Update existing account
+        result = await supabase
+          .from('offset_accounts')
+          .update(accountData)
+          .eq('id', editingId)
+          .select()
+          .single();
+      } else {
+        // Create new account
+        result = await supabase
+          .from('offset_accounts')
+          .insert(accountData)
+          .select()
+          .single();
+      }
+
+      if (result.error) throw result.error;
+
+      const savedAccount: OffsetAccount = {
+        id: result.data.id,
+        scenarioId: result.data.scenario_id,
+        name: result.data.name,
+        balanceCents: result.data.balance_cents,
+        loanIds: result.data.loan_ids,
+      };
+
+      const updatedAccounts = editingId
+        ? accounts.map(a => a.id === editingId ? savedAccount : a)
+        : [...accounts, savedAccount];
+
+      onAccountsChange(updatedAccounts);
+      resetForm();
+
+      toast({
+        title: editingId ? 'Offset Account Updated' : 'Offset Account Added',
+        description: `${formData.name} has been ${editingId ? 'updated' : 'added'} successfully.`,
+      });
+    } catch (error) {
+      console.error('Error saving offset account:', error);
+      toast({
+        title: 'Error',
+        description: 'Failed to save offset account. Please try again.',
+        variant: 'destructive',
+      });
+    }
+  };
+
+  const handleEdit = (account: OffsetAccount) => {
+    setFormData({
+      name: account.name,
+      balanceCents: account.balanceCents / 100,
+      loanIds: account.loanIds,
+    });
+    setEditingId(account.id);
+    setIsAdding(true);
+  };
+
+  const handleDelete = async (accountId: string) => {
+    try {
+      const { error } = await supabase
+        .from('offset_accounts')
+        .delete()
+        .eq('id', accountId);
+
+      if (error) throw error;
+
+      onAccountsChange(accounts.filter(a => a.id !== accountId));
+
+      toast({
+        title: 'Offset Account Deleted',
+        description: 'Its balance is no longer counted as household cash.',
+      });
+    } catch (error) {
+      console.error('Error deleting offset account:', error);
+      toast({
+        title: 'Error',
+        description: 'Failed to delete offset account. Please try again.',
+        variant: 'destructive',
+      });
+    }
+  };
+
+  const toggleLoan = (loanId: string, checked: boolean) => {
+    setFormData({
+      ...formData,
+      loanIds: checked ? [...formData.loanIds, loanId] : formData.loanIds.filter(id => id !== loanId),
+    });
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center justify-between">
+          <span className="flex items-center gap-2">
+            <Wallet className="w-5 h-5" />
+            Offset Accounts
+          </span>
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={() => setIsAdding(true)}
+            disabled={loans.length === 0}
+          >
+            <Plus className="w-4 h-4 mr-2" />
+            Add Offset Account
+          </Button>
+        </CardTitle>
+        <CardDescription>
+          Cash held against one loan or shared across split loans, topped up and drawn on by the forecast's cashflow
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        {accounts.length === 0 && !isAdding ? (
+          <div className="text-center py-8">
+            <Wallet className="w-12 h-12 text-muted-foreground mx-auto mb-4" />
+            <h3 className="text-lg font-medium mb-2">No offset accounts</h3>
+            <p className="text-muted-foreground">
+              {loans.length === 0 ? 'Add a loan before adding an offset account' : 'Add an offset account to hold cash against your loans'}
+            </p>
+          </div>
+        ) : (
+          <div className="space-y-4">
+            {accounts.map((account) => (
+              <Card key={account.id} className="border-l-4 border-l-accent">
+                <CardContent className="p-4">
+                  <div className="flex items-center justify-between">
+                    <div>
+                      <div className="flex items-center gap-2">
+                        <h3 className="font-medium">{account.name}</h3>
+                        {account.loanIds.length > 1 && <Badge variant="outline">Shared</Badge>}
+                      </div>
+                      <div className="mt-2 space-y-1 text-sm text-muted-foreground">
+                        <div>
+                          <span className="font-medium">Opening balance:</span> {formatCurrency(account.balanceCents)}
+                        </div>
+                        {account.loanIds.map((loanId) => (
+                          <div key={loanId}>
+                            <span className="font-medium">Loan {loanId}:</span>{' '}
+                            {formatCurrency(interestSaved[loanId] || 0)} interest saved
+                          </div>
+                        ))}
+                      </div>
+                    </div>
+                    <div className="flex gap-2">
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        onClick={() => handleEdit(account)}
+                      >
+                        Edit
+                      </Button>
+                      <Button
+                        variant="destructive"
+                        size="sm"
+                        onClick={() => handleDelete(account.id)}
+                      >
+                        <Trash2 className="w-4 h-4" />
+                      </Button>
+                    </div>
+                  </div>
+                </CardContent>
+              </Card>
+            ))}
+
+            {isAdding && (
+              <Card className="border-2 border-dashed border-accent">
+                <CardContent className="p-4">
+                  <form onSubmit={handleSubmit} className="space-y-4">
+                    <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                      <div className="space-y-2">
+                        <Label htmlFor="offsetName">Account Name *</Label>
+                        <Input
+                          id="offsetName"
+                          value={formData.name}
+                          onChange={(e) => setFormData({ ...formData, name: e.target.value })}
+                          placeholder="e.g., Everyday Offset"
+                          required
+                        />
+                      </div>
+
+                      <div className="space-y-2">
+                        <Label htmlFor="offsetBalance">Current Balance ($)</Label>
+                        <Input
+                          id="offsetBalance"
+                          type="number"
+                          min={0}
+                          value={formData.balanceCents}
+                          onChange={(e) => setFormData({ ...formData, balanceCents: Number(e.target.value) })}
+                          placeholder="50000"
+                        />
+                      </div>
+
+                      <div className="space-y-2 md:col-span-2">
+                        <Label>Offsets Loans</Label>
+                        <div className="space-y-1">
+                          {loans.map((loan) => (
+                            <label key={loan.id} className="flex items-center space-x-2">
+                              <input
+                                type="checkbox"
+                                checked={formData.loanIds.includes(loan.id)}
+                                onChange={(e) => toggleLoan(loan.id, e.target.checked)}
+                              />
+                              <span className="text-sm">
+                                Loan {loan.id} • {formatCurrency(loan.startBalanceCents)}
+                              </span>
+                            </label>
+                          ))}
+                        </div>
+                        {formData.loanIds.length > 1 && (
+                          <p className="text-sm text-muted-foreground">
+                            A shared balance offsets the highest-rate loan first
+                          </p>
+                        )}
+                      </div>
+                    </div>
+
+                    <div className="flex gap-2">
+                      <Button type="submit" className="flex-1">
+                        <Save className="w-4 h-4 mr-2" />
+                        {editingId ? 'Update Offset Account' : 'Add Offset Account'}
+                      </Button>
+                      <Button
+                        type="button"
+                        variant="outline"
+                        onClick={resetForm}
+                      >
+                        <X className="w-4 h-4 mr-2" />
+                        Cancel
+                      </Button>
+                    </div>
+                  </form>
+                </CardContent>
+              </Card>
+            )}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default EditableOffsetAccountsForm;
@@ -91,7 +91,7 @@ const EditablePeopleForm: React.FC<EditablePeopleFormProps> = ({
         name: result.data.name,
         dateOfBirth: result.data.date_of_birth ? new Date(result.data.date_of_birth) : undefined,
         salaryCurrentCents: result.data.salary_current_cents,
-        salaryGrowthPa: result.data.salary_growth_pa,
+        salaryGrowthPa: result.data.salary_growth_pa ?? 0.03,
         superCurrentCents: result.data.super_current_cents,
         isPrimary: result.data.is_primary,
       };
@@ -23,7 +23,6 @@ const profileSchema = z.object({
   dateOfBirth: z.date(),
   retirementAge: z.number().min(50).max(80, 'Retirement age must be between 50 and 80'),
   inflationCpiPa: z.number().min(0).max(1, 'Inflation rate must be between 0% and 100%'),
-  wageGrowthPa: z.number().min(0).max(1, 'Wage growth must be between 0% and 100%'),
   returnSuperPa: z.number().min(0).max(1, 'Super return must be between 0% and 100%'),
   returnPortfolioPa: z.number().min(0).max(1, 'Portfolio return must be between 0% and 100%'),
   taxMarginalRate: z.number().min(0).max(1, 'Tax rate must be between 0% and 100%'),
@@ -69,7 +68,6 @@ const EditableProfileForm: React.FC<EditableProfileFormProps> = ({
       dateOfBirth: new Date(profile.dateOfBirth),
       retirementAge: profile.retirementAge,
       inflationCpiPa: profile.inflationCpiPa,
-      wageGrowthPa: profile.wageGrowthPa,
       returnSuperPa: profile.returnSuperPa,
       returnPortfolioPa: profile.returnPortfolioPa,
       taxMarginalRate: profile.taxMarginalRate,
@@ -86,7 +84,6 @@ const EditableProfileForm: React.FC<EditableProfileFormProps> = ({
       dateOfBirth: new Date('1985-01-01'),
       retirementAge: 65,
       inflationCpiPa: 0.025,
-      wageGrowthPa: 0.03,
       returnSuperPa: 0.07,
       returnPortfolioPa: 0.08,
       taxMarginalRate: 0.37,
@@ -112,14 +109,13 @@ const EditableProfileForm: React.FC<EditableProfileFormProps> = ({
         date_of_birth: data.dateOfBirth.toISOString().split('T')[0],
         retirement_age: data.retirementAge,
         inflation_cpi_pa: data.inflationCpiPa,
-        wage_growth_pa: data.wageGrowthPa,
         return_super_pa: data.returnSuperPa,
         return_portfolio_pa: data.returnPortfolioPa,
         tax_marginal_rate: data.taxMarginalRate,
         medicare_levy_pct: data.medicareLevy,
         state_code: data.stateCode,
         salary_current_cents: (data.salaryCurrentCents || 0) * 100,
-        salary_growth_pa: data.salaryGrowthPa || 0.03,
+        salary_growth_pa: data.salaryGrowthPa ?? 0.03,
         savings_current_cents: (data.savingsCurrentCents || 0) * 100,
         super_current_cents: (data.superCurrentCents || 0) * 100,
         other_investments_cents: (data.otherInvestmentsCents || 0) * 100,
@@ -154,14 +150,13 @@ const EditableProfileForm: React.FC<EditableProfileFormProps> = ({
         dateOfBirth: new Date(result.data.date_of_birth),
         retirementAge: result.data.retirement_age,
         inflationCpiPa: result.data.inflation_cpi_pa,
-        wageGrowthPa: result.data.wage_growth_pa,
         returnSuperPa: result.data.return_super_pa,
         returnPortfolioPa: result.data.return_portfolio_pa,
         taxMarginalRate: result.data.tax_marginal_rate,
         medicareLevy: result.data.medicare_levy_pct,
         stateCode: result.data.state_code,
         salaryCurrentCents: result.data.salary_current_cents || 0,
-        salaryGrowthPa: result.data.salary_growth_pa || 0.03,
+        salaryGrowthPa: result.data.salary_growth_pa ?? 0.03,
         savingsCurrentCents: result.data.savings_current_cents || 0,
         superCurrentCents: result.data.super_current_cents || 0,
         otherInvestmentsCents: result.data.other_investments_cents || 0,
@@ -414,7 +409,7 @@ const EditableProfileForm: React.FC<EditableProfileFormProps> = ({
           {/* Economic Assumptions */}
           <div className="space-y-3">
             <Label className="text-base font-medium">Economic Assumptions</Label>
-            <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-4">
+            <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
               <div className="space-y-2">
                 <Label htmlFor="inflation">Inflation (CPI %)</Label>
                 <Input
@@ -429,20 +424,6 @@ const EditableProfileForm: React.FC<EditableProfileFormProps> = ({
                 )}
               </div>
 
-              <div className="space-y-2">
-                <Label htmlFor="wageGrowth">Wage Growth (%)</Label>
-                <Input
-                  id="wageGrowth"
-                  type="number"
-                  step="0.001"
-                  {...register('wageGrowthPa', { valueAsNumber: true })}
-                  placeholder="0.03"
-                />
-                {errors.wageGrowthPa && (
-                  <p className="text-sm text-destructive">{errors.wageGrowthPa.message}</p>
-                )}
-              </div>
-
               <div className="space-y-2">
                 <Label htmlFor="superReturn">Super Return (%)</Label>
                 <Input
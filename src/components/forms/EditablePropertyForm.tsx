@@ -11,12 +11,27 @@ import { Switch } from '@/components/ui/switch';
 import { Textarea } from '@/components/ui/textarea';
 import { Calendar } from '@/components/ui/calendar';
 import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger,
+} from '@/components/ui/alert-dialog';
 import { CalendarIcon, Home, DollarSign, TrendingUp, Save, X, Trash2 } from 'lucide-react';
 import { format } from 'date-fns';
 import { cn } from '@/lib/utils';
 import { useToast } from '@/hooks/use-toast';
 import { supabase } from '@/integrations/supabase/client';
 import type { Property } from '@/domain/forecastEngine';
+import { getSecurityPropertyIds, removeSecurity, type LoanDetails } from '@/domain/loanEngine';
+import { AU_STATES, formatCurrency } from '@/domain/constants';
+import { getPropertyStampDuty } from '@/domain/stampDutyEngine';
 
 const propertySchema = z.object({
   name: z.string().min(1, 'Property name is required'),
@@ -30,6 +45,8 @@ const propertySchema = z.object({
   ratesPaCents: z.number().min(0, 'Council rates must be positive or zero'),
   insurancePaCents: z.number().min(0, 'Insurance must be positive or zero'),
   landTaxPaCents: z.number().min(0, 'Land tax must be positive or zero'),
+  landValueCents: z.number().min(0, 'Land value must be positive or zero'),
+  ownedByTrust: z.boolean(),
   rentPwCents: z.number().min(0, 'Weekly rent must be positive or zero'),
   vacancyWeeksPa: z.number().min(0).max(52, 'Vacancy weeks must be between 0 and 52'),
   depreciationCapitalPaCents: z.number().min(0, 'Capital depreciation must be positive or zero'),
@@ -37,13 +54,19 @@ const propertySchema = z.object({
   becomesIpOn: z.date().optional(),
   becomesPporOn: z.date().optional(),
   soldOn: z.date().optional(),
+  stateCode: z.string().min(1, 'State is required'),
+  isFirstHome: z.boolean(),
+  isOffThePlan: z.boolean(),
+  isForeignPurchaser: z.boolean(),
 });
 
 type PropertyFormData = z.infer<typeof propertySchema>;
 
 interface EditablePropertyFormProps {
   property?: Property;
+  loans?: LoanDetails[]; // Scenario loans, some of which may be secured by this property
   userId: string;
+  defaultStateCode: string;
   onSave?: (property: Property) => void;
   onCancel?: () => void;
   onDelete?: (propertyId: string) => void;
@@ -51,7 +74,9 @@ interface EditablePropertyFormProps {
 
 const EditablePropertyForm: React.FC<EditablePropertyFormProps> = ({
   property,
+  loans = [],
   userId,
+  defaultStateCode,
   onSave,
   onCancel,
   onDelete,
@@ -80,6 +105,8 @@ const EditablePropertyForm: React.FC<EditablePropertyFormProps> = ({
       ratesPaCents: property.ratesPaCents / 100,
       insurancePaCents: property.insurancePaCents / 100,
       landTaxPaCents: property.landTaxPaCents / 100,
+      landValueCents: (property.landValueCents || 0) / 100,
+      ownedByTrust: property.ownedByTrust ?? false,
       rentPwCents: property.rentPwCents / 100,
       vacancyWeeksPa: property.vacancyWeeksPa,
       depreciationCapitalPaCents: property.depreciationCapitalPaCents / 100,
@@ -87,6 +114,10 @@ const EditablePropertyForm: React.FC<EditablePropertyFormProps> = ({
       becomesIpOn: property.becomesIpOn ? new Date(property.becomesIpOn) : undefined,
       becomesPporOn: property.becomesPporOn ? new Date(property.becomesPporOn) : undefined,
       soldOn: property.soldOn ? new Date(property.soldOn) : undefined,
+      stateCode: property.stateCode || defaultStateCode,
+      isFirstHome: property.isFirstHome ?? false,
+      isOffThePlan: property.isOffThePlan ?? false,
+      isForeignPurchaser: property.isForeignPurchaser ?? false,
     } : {
       name: '',
       purchasePriceCents: 0,
@@ -99,10 +130,16 @@ const EditablePropertyForm: React.FC<EditablePropertyFormProps> = ({
       ratesPaCents: 0,
       insurancePaCents: 0,
       landTaxPaCents: 0,
+      landValueCents: 0,
+      ownedByTrust: false,
       rentPwCents: 0,
       vacancyWeeksPa: 2,
       depreciationCapitalPaCents: 0,
       depreciationPlantPaCents: 0,
+      stateCode: defaultStateCode,
+      isFirstHome: false,
+      isOffThePlan: false,
+      isForeignPurchaser: false,
     },
   });
 
@@ -124,6 +161,8 @@ const EditablePropertyForm: React.FC<EditablePropertyFormProps> = ({
         rates_pa_cents: Math.round(data.ratesPaCents * 100),
         insurance_pa_cents: Math.round(data.insurancePaCents * 100),
         land_tax_pa_cents: Math.round(data.landTaxPaCents * 100),
+        land_value_cents: data.landValueCents > 0 ? Math.round(data.landValueCents * 100) : null,
+        owned_by_trust: data.ownedByTrust,
         rent_pw_cents: Math.round(data.rentPwCents * 100),
         vacancy_weeks_pa: data.vacancyWeeksPa,
         depreciation_capital_pa_cents: Math.round(data.depreciationCapitalPaCents * 100),
@@ -131,6 +170,10 @@ const EditablePropertyForm: React.FC<EditablePropertyFormProps> = ({
         becomes_ip_on: data.becomesIpOn ? data.becomesIpOn.toISOString().split('T')[0] : null,
         becomes_ppor_on: data.becomesPporOn ? data.becomesPporOn.toISOString().split('T')[0] : null,
         sold_on: data.soldOn ? data.soldOn.toISOString().split('T')[0] : null,
+        state_code: data.stateCode,
+        is_first_home: data.isFirstHome,
+        is_off_the_plan: data.isOffThePlan,
+        is_foreign_purchaser: data.isForeignPurchaser,
       };
 
       let result;
@@ -168,6 +211,8 @@ const EditablePropertyForm: React.FC<EditablePropertyFormProps> = ({
         ratesPaCents: result.data.rates_pa_cents,
         insurancePaCents: result.data.insurance_pa_cents,
         landTaxPaCents: result.data.land_tax_pa_cents,
+        landValueCents: result.data.land_value_cents ?? undefined,
+        ownedByTrust: result.data.owned_by_trust,
         rentPwCents: result.data.rent_pw_cents,
         vacancyWeeksPa: result.data.vacancy_weeks_pa,
         depreciationCapitalPaCents: result.data.depreciation_capital_pa_cents,
@@ -175,6 +220,10 @@ const EditablePropertyForm: React.FC<EditablePropertyFormProps> = ({
         becomesIpOn: result.data.becomes_ip_on ? new Date(result.data.becomes_ip_on) : undefined,
         becomesPporOn: result.data.becomes_ppor_on ? new Date(result.data.becomes_ppor_on) : undefined,
         soldOn: result.data.sold_on ? new Date(result.data.sold_on) : undefined,
+        stateCode: result.data.state_code || undefined,
+        isFirstHome: result.data.is_first_home,
+        isOffThePlan: result.data.is_off_the_plan,
+        isForeignPurchaser: result.data.is_foreign_purchaser,
       };
 
       toast({
@@ -195,11 +244,26 @@ const EditablePropertyForm: React.FC<EditablePropertyFormProps> = ({
     }
   };
 
+  // Deleting the property deletes loans it alone secures; cross-collateralised loans are released instead
+  const securedLoans = property ? loans.filter(l => getSecurityPropertyIds(l).includes(property.id)) : [];
+  const releasedLoans = property
+    ? securedLoans.map(l => removeSecurity(l, property.id)).filter((l): l is LoanDetails => l !== undefined)
+    : [];
+  const deletedLoanCount = securedLoans.length - releasedLoans.length;
+
   const handleDelete = async () => {
     if (!property?.id) return;
     
     setIsDeleting(true);
     try {
+      for (const released of releasedLoans) {
+        const { error } = await supabase
+          .from('loans')
+          .update({ property_id: released.propertyId, security_property_ids: released.securityPropertyIds })
+          .eq('id', released.id);
+        if (error) throw error;
+      }
+
       const result = await supabase
         .from('properties')
         .delete()
@@ -229,6 +293,18 @@ const EditablePropertyForm: React.FC<EditablePropertyFormProps> = ({
 
   const annualRent = watchedValues.rentPwCents * (52 - watchedValues.vacancyWeeksPa);
   const grossYield = watchedValues.valueNowCents > 0 ? (annualRent / watchedValues.valueNowCents) * 100 : 0;
+  const stampDuty = getPropertyStampDuty({
+    purchasePriceCents: Math.round((watchedValues.purchasePriceCents || 0) * 100),
+    purchaseDate: watchedValues.purchaseDate,
+    soldOn: watchedValues.soldOn,
+    becomesIpOn: watchedValues.becomesIpOn,
+    becomesPporOn: watchedValues.becomesPporOn,
+    rentPwCents: watchedValues.rentPwCents || 0,
+    stateCode: watchedValues.stateCode,
+    isFirstHome: watchedValues.isFirstHome,
+    isOffThePlan: watchedValues.isOffThePlan,
+    isForeignPurchaser: watchedValues.isForeignPurchaser,
+  }, defaultStateCode);
 
   return (
     <Card className="shadow-soft border-l-4 border-l-primary">
@@ -371,6 +447,65 @@ const EditablePropertyForm: React.FC<EditablePropertyFormProps> = ({
             </div>
           </div>
 
+          {/* Purchase and Stamp Duty */}
+          <div className="space-y-3">
+            <Label className="text-base font-medium">Purchase and Stamp Duty</Label>
+            <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="propertyState">State</Label>
+                <Select value={watchedValues.stateCode} onValueChange={(value) => setValue('stateCode', value)}>
+                  <SelectTrigger id="propertyState">
+                    <SelectValue placeholder="Select state" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {AU_STATES.map((state) => (
+                      <SelectItem key={state.code} value={state.code}>
+                        {state.code} - {state.name}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+
+              <div className="flex items-center space-x-2">
+                <Switch
+                  id="isFirstHome"
+                  checked={watchedValues.isFirstHome}
+                  onCheckedChange={(checked) => setValue('isFirstHome', checked)}
+                />
+                <Label htmlFor="isFirstHome">First Home Buyer</Label>
+              </div>
+
+              <div className="flex items-center space-x-2">
+                <Switch
+                  id="isOffThePlan"
+                  checked={watchedValues.isOffThePlan}
+                  onCheckedChange={(checked) => setValue('isOffThePlan', checked)}
+                />
+                <Label htmlFor="isOffThePlan">Off the Plan / New Build</Label>
+              </div>
+
+              <div className="flex items-center space-x-2">
+                <Switch
+                  id="isForeignPurchaser"
+                  checked={watchedValues.isForeignPurchaser}
+                  onCheckedChange={(checked) => setValue('isForeignPurchaser', checked)}
+                />
+                <Label htmlFor="isForeignPurchaser">Foreign Purchaser</Label>
+              </div>
+            </div>
+
+            <div className="bg-muted/30 p-4 rounded-lg">
+              <Label className="text-sm font-medium">Stamp Duty</Label>
+              <div className="text-2xl font-bold text-primary">{formatCurrency(stampDuty.total)}</div>
+              <p className="text-sm text-muted-foreground">
+                {formatCurrency(stampDuty.baseDuty)} duty
+                {stampDuty.concession > 0 ? `, less ${formatCurrency(stampDuty.concession)} concession` : ''}
+                {stampDuty.foreignSurcharge > 0 ? `, plus ${formatCurrency(stampDuty.foreignSurcharge)} foreign purchaser surcharge` : ''}
+              </p>
+            </div>
+          </div>
+
           {/* Operating Costs */}
           <div className="space-y-3">
             <Label className="text-base font-medium">Annual Operating Costs</Label>
@@ -417,6 +552,47 @@ const EditablePropertyForm: React.FC<EditablePropertyFormProps> = ({
             </div>
           </div>
 
+          {/* Land Tax */}
+          <div className="space-y-3">
+            <Label className="text-base font-medium">Land Tax</Label>
+            <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="landValue">Land Value ($)</Label>
+                <Input
+                  id="landValue"
+                  type="number"
+                  step="1000"
+                  {...register('landValueCents', { valueAsNumber: true })}
+                  placeholder="600000"
+                />
+                <p className="text-xs text-muted-foreground">
+                  Land tax is calculated each year from this value across all your holdings in the state
+                </p>
+              </div>
+
+              <div className="space-y-2">
+                <Label htmlFor="landTax">Land Tax ($/year)</Label>
+                <Input
+                  id="landTax"
+                  type="number"
+                  readOnly={watchedValues.landValueCents > 0}
+                  {...register('landTaxPaCents', { valueAsNumber: true })}
+                  placeholder="0"
+                />
+                <p className="text-xs text-muted-foreground">Used only when no land value is entered</p>
+              </div>
+
+              <div className="flex items-center space-x-2">
+                <Switch
+                  id="ownedByTrust"
+                  checked={watchedValues.ownedByTrust}
+                  onCheckedChange={(checked) => setValue('ownedByTrust', checked)}
+                />
+                <Label htmlFor="ownedByTrust">Held in Trust</Label>
+              </div>
+            </div>
+          </div>
+
           {/* Action Buttons */}
           <div className="flex flex-col sm:flex-row gap-3 pt-4 border-t">
             <Button
@@ -441,15 +617,36 @@ const EditablePropertyForm: React.FC<EditablePropertyFormProps> = ({
             )}
             
             {property && onDelete && (
-              <Button
-                type="button"
-                variant="destructive"
-                onClick={handleDelete}
-                disabled={isDeleting}
-              >
-                <Trash2 className="w-4 h-4 mr-2" />
-                {isDeleting ? 'Deleting...' : 'Delete'}
-              </Button>
+              <AlertDialog>
+                <AlertDialogTrigger asChild>
+                  <Button
+                    type="button"
+                    variant="destructive"
+                    disabled={isDeleting}
+                  >
+                    <Trash2 className="w-4 h-4 mr-2" />
+                    {isDeleting ? 'Deleting...' : 'Delete'}
+                  </Button>
+                </AlertDialogTrigger>
+                <AlertDialogContent>
+                  <AlertDialogHeader>
+                    <AlertDialogTitle>Delete {property.name}?</AlertDialogTitle>
+                    <AlertDialogDescription>
+                      {deletedLoanCount > 0
+                        ? `${deletedLoanCount} loan${deletedLoanCount === 1 ? '' : 's'} secured only by this property will be deleted too. `
+                        : ''}
+                      {releasedLoans.length > 0
+                        ? `${releasedLoans.length} cross-collateralised loan${releasedLoans.length === 1 ? '' : 's'} will stay secured by ${releasedLoans.length === 1 ? 'its' : 'their'} other properties. `
+                        : ''}
+                      This cannot be undone.
+                    </AlertDialogDescription>
+                  </AlertDialogHeader>
+                  <AlertDialogFooter>
+                    <AlertDialogCancel>Cancel</AlertDialogCancel>
+                    <AlertDialogAction onClick={handleDelete}>Delete</AlertDialogAction>
+                  </AlertDialogFooter>
+                </AlertDialogContent>
+              </AlertDialog>
             )}
           </div>
         </form>
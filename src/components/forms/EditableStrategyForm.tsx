@@ -0,0 +1,483 @@
+import React, { useState } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { ArrowDown, ArrowUp, Banknote, Gauge, Layers, LifeBuoy, Plus, Save, Trash2 } from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+import { supabase } from '@/integrations/supabase/client';
+import type { Person } from '@/domain/forecastEngine';
+import type { LoanDetails } from '@/domain/loanEngine';
+import type { OffsetAccount } from '@/domain/offsetEngine';
+import {
+  DEFAULT_DEFICIT_FUNDING,
+  getDefaultSurplusAllocation,
+  type AllocationStep,
+  type DeficitSource,
+} from '@/domain/allocationEngine';
+import { DEFAULT_SALE_PROCEEDS_RULE, type SaleProceedsRule } from '@/domain/saleEngine';
+import { DEFAULT_LVR_THRESHOLDS } from '@/domain/lvrEngine';
+
+interface EditableStrategyFormProps {
+  scenarioId: string;
+  steps?: AllocationStep[];
+  loans: LoanDetails[];
+  offsetAccounts: OffsetAccount[];
+  people: Person[];
+  onStepsChange: (steps: AllocationStep[]) => void;
+  deficitSources?: DeficitSource[];
+  onDeficitSourcesChange: (sources: DeficitSource[]) => void;
+  saleProceeds?: SaleProceedsRule;
+  onSaleProceedsChange: (rule: SaleProceedsRule) => void;
+  lvrThresholds?: number[];
+  onLvrThresholdsChange: (thresholds: number[]) => void;
+}
+
+const STEP_TYPES = [
+  { value: 'cash_buffer', label: 'Top up cash buffer', amountLabel: 'Target balance ($)' },
+  { value: 'offset', label: 'Fill offset account', amountLabel: 'Target balance ($)' },
+  { value: 'extra_repayment', label: 'Extra loan repayments', amountLabel: 'Max per month ($)' },
+  { value: 'salary_sacrifice', label: 'Salary sacrifice to super', amountLabel: 'Max per month ($)' },
+  { value: 'portfolio', label: 'Invest in portfolio', amountLabel: 'Max per month ($)' },
+] as const;
+
+const DEFICIT_SOURCES = [
+  { value: 'cash_buffer', label: 'Draw down cash buffer' },
+  { value: 'offset', label: 'Withdraw from offset accounts' },
+  { value: 'redraw', label: 'Redraw extra repayments' },
+  { value: 'portfolio', label: 'Sell portfolio holdings (after CGT)' },
+] as const;
+
+const SALE_DESTINATIONS = [
+  { value: 'cash', label: 'Cash buffer' },
+  { value: 'offset', label: 'Offset account' },
+  { value: 'portfolio', label: 'Invest in portfolio' },
+] as const;
+
+const EditableStrategyForm: React.FC<EditableStrategyFormProps> = ({
+  scenarioId,
+  steps,
+  loans,
+  offsetAccounts,
+  people,
+  onStepsChange,
+  deficitSources,
+  onDeficitSourcesChange,
+  saleProceeds,
+  onSaleProceedsChange,
+  lvrThresholds,
+  onLvrThresholdsChange,
+}) => {
+  const [draftSteps, setDraftSteps] = useState<AllocationStep[]>(
+    steps?.length ? steps : getDefaultSurplusAllocation(offsetAccounts)
+  );
+  const [newStepKind, setNewStepKind] = useState<AllocationStep['kind']>('portfolio');
+  const [draftSources, setDraftSources] = useState<DeficitSource[]>(
+    deficitSources?.length ? deficitSources : DEFAULT_DEFICIT_FUNDING
+  );
+  const [draftSaleRule, setDraftSaleRule] = useState<SaleProceedsRule>(saleProceeds || DEFAULT_SALE_PROCEEDS_RULE);
+  const [draftThresholds, setDraftThresholds] = useState<number[]>(lvrThresholds || DEFAULT_LVR_THRESHOLDS);
+  const [isSaving, setIsSaving] = useState(false);
+  const { toast } = useToast();
+
+  const getStepTypeInfo = (kind: AllocationStep['kind']) => {
+    return STEP_TYPES.find(t => t.value === kind) || STEP_TYPES[0];
+  };
+
+  const createStep = (kind: AllocationStep['kind']): AllocationStep => {
+    switch (kind) {
+      case 'offset':
+        return { kind, offsetId: offsetAccounts[0]?.id || '' };
+      case 'extra_repayment':
+        return { kind, loanId: loans[0]?.id || '' };
+      default:
+        return { kind };
+    }
+  };
+
+  const updateStep = (index: number, step: AllocationStep) => {
+    setDraftSteps(draftSteps.map((s, i) => i === index ? step : s));
+  };
+
+  const moveItem = <T,>(items: T[], index: number, direction: -1 | 1): T[] => {
+    const target = index + direction;
+    if (target < 0 || target >= items.length) return items;
+
+    const reordered = [...items];
+    [reordered[index], reordered[target]] = [reordered[target], reordered[index]];
+    return reordered;
+  };
+
+  const unusedSources = DEFICIT_SOURCES.filter(source => !draftSources.includes(source.value));
+
+  const getStepAmount = (step: AllocationStep): number | undefined => {
+    return step.kind === 'cash_buffer' || step.kind === 'offset' ? step.targetCents : step.maxMonthlyCents;
+  };
+
+  const setStepAmount = (index: number, step: AllocationStep, dollars: string) => {
+    const cents = dollars === '' ? undefined : Math.round(Number(dollars) * 100);
+    if (step.kind === 'cash_buffer' || step.kind === 'offset') {
+      updateStep(index, { ...step, targetCents: cents });
+    } else {
+      updateStep(index, { ...step, maxMonthlyCents: cents });
+    }
+  };
+
+  const handleSave = async () => {
+    setIsSaving(true);
+    try {
+      const { error } = await supabase
+        .from('scenarios')
+        .update({
+          surplus_allocation_json: draftSteps,
+          deficit_funding_json: draftSources,
+          sale_proceeds_json: draftSaleRule,
+          lvr_thresholds_json: draftThresholds,
+        })
+        .eq('id', scenarioId);
+
+      if (error) throw error;
+
+      onStepsChange(draftSteps);
+      onDeficitSourcesChange(draftSources);
+      onSaleProceedsChange(draftSaleRule);
+      onLvrThresholdsChange(draftThresholds);
+
+      toast({
+        title: 'Strategy Updated',
+        description: 'Surplus allocation, deficit funding, sale proceeds and LVR warnings have been saved successfully.',
+      });
+    } catch (error) {
+      console.error('Error saving strategy:', error);
+      toast({
+        title: 'Error',
+        description: 'Failed to save strategy. Please try again.',
+        variant: 'destructive',
+      });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <Layers className="w-5 h-5" />
+            Surplus Allocation
+          </CardTitle>
+          <CardDescription>
+            Each month's surplus fills these steps in order; anything left over stays in cash
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          {draftSteps.map((step, index) => {
+            const typeInfo = getStepTypeInfo(step.kind);
+            const amount = getStepAmount(step);
+
+            return (
+              <Card key={index} className="border-l-4 border-l-primary">
+                <CardContent className="p-4">
+                  <div className="flex items-center justify-between mb-3">
+                    <div className="flex items-center gap-2">
+                      <Badge variant="secondary">{index + 1}</Badge>
+                      <h3 className="font-medium">{typeInfo.label}</h3>
+                    </div>
+                    <div className="flex gap-2">
+                      <Button variant="outline" size="sm" onClick={() => setDraftSteps(moveItem(draftSteps, index, -1))} disabled={index === 0}>
+                        <ArrowUp className="w-4 h-4" />
+                      </Button>
+                      <Button variant="outline" size="sm" onClick={() => setDraftSteps(moveItem(draftSteps, index, 1))} disabled={index === draftSteps.length - 1}>
+                        <ArrowDown className="w-4 h-4" />
+                      </Button>
+                      <Button
+                        variant="destructive"
+                        size="sm"
+                        onClick={() => setDraftSteps(draftSteps.filter((_, i) => i !== index))}
+                      >
+                        <Trash2 className="w-4 h-4" />
+                      </Button>
+                    </div>
+                  </div>
+
+                  <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                    {step.kind === 'offset' && (
+                      <div className="space-y-2">
+                        <Label>Offset Account</Label>
+                        <Select
+                          value={step.offsetId}
+                          onValueChange={(value) => updateStep(index, { ...step, offsetId: value })}
+                        >
+                          <SelectTrigger>
+                            <SelectValue placeholder="Select offset account" />
+                          </SelectTrigger>
+                          <SelectContent>
+                            {offsetAccounts.map((account) => (
+                              <SelectItem key={account.id} value={account.id}>
+                                {account.name}
+                              </SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                      </div>
+                    )}
+
+                    {step.kind === 'extra_repayment' && (
+                      <div className="space-y-2">
+                        <Label>Loan</Label>
+                        <Select
+                          value={step.loanId}
+                          onValueChange={(value) => updateStep(index, { ...step, loanId: value })}
+                        >
+                          <SelectTrigger>
+                            <SelectValue placeholder="Select loan" />
+                          </SelectTrigger>
+                          <SelectContent>
+                            {loans.map((loan) => (
+                              <SelectItem key={loan.id} value={loan.id}>
+                                Loan {loan.id}
+                              </SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                      </div>
+                    )}
+
+                    {step.kind === 'salary_sacrifice' && (
+                      <div className="space-y-2">
+                        <Label>Person</Label>
+                        <Select
+                          value={step.personId || 'all'}
+                          onValueChange={(value) => updateStep(index, { ...step, personId: value === 'all' ? undefined : value })}
+                        >
+                          <SelectTrigger>
+                            <SelectValue placeholder="Select person" />
+                          </SelectTrigger>
+                          <SelectContent>
+                            <SelectItem value="all">Everyone in turn</SelectItem>
+                            {people.map((person) => (
+                              <SelectItem key={person.id} value={person.id}>
+                                {person.name}
+                              </SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                      </div>
+                    )}
+
+                    <div className="space-y-2">
+                      <Label htmlFor={`amount-${index}`}>{typeInfo.amountLabel}</Label>
+                      <Input
+                        id={`amount-${index}`}
+                        type="number"
+                        value={amount !== undefined ? amount / 100 : ''}
+                        onChange={(e) => setStepAmount(index, step, e.target.value)}
+                        placeholder="No limit"
+                      />
+                    </div>
+                  </div>
+                </CardContent>
+              </Card>
+            );
+          })}
+
+          <div className="flex flex-col sm:flex-row gap-3">
+            <Select value={newStepKind} onValueChange={(value) => setNewStepKind(value as AllocationStep['kind'])}>
+              <SelectTrigger className="sm:w-64">
+                <SelectValue placeholder="Select step" />
+              </SelectTrigger>
+              <SelectContent>
+                {STEP_TYPES.map((type) => (
+                  <SelectItem
+                    key={type.value}
+                    value={type.value}
+                    disabled={
+                      (type.value === 'offset' && offsetAccounts.length === 0) ||
+                      (type.value === 'extra_repayment' && loans.length === 0)
+                    }
+                  >
+                    {type.label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Button variant="outline" onClick={() => setDraftSteps([...draftSteps, createStep(newStepKind)])}>
+              <Plus className="w-4 h-4 mr-2" />
+              Add Step
+            </Button>
+          </div>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <LifeBuoy className="w-5 h-5" />
+            Deficit Funding
+          </CardTitle>
+          <CardDescription>
+            Months with negative cashflow draw on these sources in order; once all are exhausted the plan is insolvent
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          {draftSources.map((source, index) => (
+            <div key={source} className="flex items-center justify-between p-3 border rounded-lg">
+              <div className="flex items-center gap-2">
+                <Badge variant="secondary">{index + 1}</Badge>
+                <span className="font-medium">{DEFICIT_SOURCES.find(s => s.value === source)?.label}</span>
+              </div>
+              <div className="flex gap-2">
+                <Button variant="outline" size="sm" onClick={() => setDraftSources(moveItem(draftSources, index, -1))} disabled={index === 0}>
+                  <ArrowUp className="w-4 h-4" />
+                </Button>
+                <Button variant="outline" size="sm" onClick={() => setDraftSources(moveItem(draftSources, index, 1))} disabled={index === draftSources.length - 1}>
+                  <ArrowDown className="w-4 h-4" />
+                </Button>
+                <Button
+                  variant="destructive"
+                  size="sm"
+                  onClick={() => setDraftSources(draftSources.filter((_, i) => i !== index))}
+                >
+                  <Trash2 className="w-4 h-4" />
+                </Button>
+              </div>
+            </div>
+          ))}
+
+          {unusedSources.length > 0 && (
+            <div className="flex flex-wrap gap-2">
+              {unusedSources.map((source) => (
+                <Button
+                  key={source.value}
+                  variant="outline"
+                  size="sm"
+                  onClick={() => setDraftSources([...draftSources, source.value])}
+                >
+                  <Plus className="w-4 h-4 mr-2" />
+                  {source.label}
+                </Button>
+              ))}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <Gauge className="w-5 h-5" />
+            LVR Warnings
+          </CardTitle>
+          <CardDescription>
+            Flag the months a property's loans rise above these shares of its value
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          {draftThresholds.map((threshold, index) => (
+            <div key={index} className="flex items-end gap-2">
+              <div className="space-y-2 flex-1">
+                <Label htmlFor={`lvr-${index}`}>Warn above LVR (%)</Label>
+                <Input
+                  id={`lvr-${index}`}
+                  type="number"
+                  min={0}
+                  value={Math.round(threshold * 1000) / 10}
+                  onChange={(e) => setDraftThresholds(
+                    draftThresholds.map((t, i) => i === index ? Number(e.target.value) / 100 : t)
+                  )}
+                />
+              </div>
+              <Button
+                variant="destructive"
+                size="sm"
+                onClick={() => setDraftThresholds(draftThresholds.filter((_, i) => i !== index))}
+              >
+                <Trash2 className="w-4 h-4" />
+              </Button>
+            </div>
+          ))}
+
+          <Button variant="outline" onClick={() => setDraftThresholds([...draftThresholds, 0.95])}>
+            <Plus className="w-4 h-4 mr-2" />
+            Add Threshold
+          </Button>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <Banknote className="w-5 h-5" />
+            Sale Proceeds
+          </CardTitle>
+          <CardDescription>
+            Where the net proceeds of a property sale go after selling costs, loan payout and CGT
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label>Destination</Label>
+              <Select
+                value={draftSaleRule.destination}
+                onValueChange={(value) => setDraftSaleRule({ destination: value as SaleProceedsRule['destination'] })}
+              >
+                <SelectTrigger>
+                  <SelectValue placeholder="Select destination" />
+                </SelectTrigger>
+                <SelectContent>
+                  {SALE_DESTINATIONS.map((destination) => (
+                    <SelectItem
+                      key={destination.value}
+                      value={destination.value}
+                      disabled={destination.value === 'offset' && offsetAccounts.length === 0}
+                    >
+                      {destination.label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+
+            {draftSaleRule.destination === 'offset' && (
+              <div className="space-y-2">
+                <Label>Offset Account</Label>
+                <Select
+                  value={draftSaleRule.offsetId || 'largest'}
+                  onValueChange={(value) => setDraftSaleRule({
+                    destination: 'offset',
+                    offsetId: value === 'largest' ? undefined : value,
+                  })}
+                >
+                  <SelectTrigger>
+                    <SelectValue placeholder="Select offset account" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="largest">Account offsetting the most debt</SelectItem>
+                    {offsetAccounts.map((account) => (
+                      <SelectItem key={account.id} value={account.id}>
+                        {account.name}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            )}
+          </div>
+
+          <div className="flex gap-2 pt-4 border-t">
+            <Button onClick={handleSave} disabled={isSaving} className="flex-1">
+              <Save className="w-4 h-4 mr-2" />
+              {isSaving ? 'Saving...' : 'Save Strategy'}
+            </Button>
+          </div>
+        </CardContent>
+      </Card>
+    </div>
+  );
+};
+
+export default EditableStrategyForm;
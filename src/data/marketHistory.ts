@@ -0,0 +1,19 @@
+/**
+ * Bundled Australian market history used for backtesting
+ * Indicative calendar-year figures: capital city house price growth, ASX 200 total return
+ * (All Ordinaries accumulation before 1992), headline CPI and the banks' standard variable
+ * home loan rate. Update the CSV files to extend or correct the series
+ */
+
+import housePricesCsv from './market-history/house-prices.csv?raw';
+import sharesCsv from './market-history/asx200-total-return.csv?raw';
+import inflationCsv from './market-history/cpi.csv?raw';
+import variableRateCsv from './market-history/standard-variable-rate.csv?raw';
+import { buildMarketHistory, parseHistoricalSeries } from '@/domain/backtestEngine';
+
+export const AUSTRALIAN_MARKET_HISTORY = buildMarketHistory({
+  housePrices: parseHistoricalSeries(housePricesCsv),
+  shares: parseHistoricalSeries(sharesCsv),
+  inflation: parseHistoricalSeries(inflationCsv),
+  variableRate: parseHistoricalSeries(variableRateCsv),
+});
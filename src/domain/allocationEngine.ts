@@ -0,0 +1,272 @@
+/**
+ * Allocation Engine - Routes monthly cashflow surplus through a configurable waterfall
+ */
+
+import { calculateCGT, CGT_CONSTANTS } from './constants';
+import { applyExtraRepayment, applyRedraw, LoanDetails, LoanMonth, LoanState } from './loanEngine';
+import { getOffsetCapacity, OffsetAccount } from './offsetEngine';
+
+export type AllocationStep =
+  | { kind: 'cash_buffer'; targetCents?: number }
+  | { kind: 'offset'; offsetId: string; targetCents?: number }
+  | { kind: 'extra_repayment'; loanId: string; maxMonthlyCents?: number }
+  | { kind: 'salary_sacrifice'; personId?: string; maxMonthlyCents?: number }
+  | { kind: 'portfolio'; maxMonthlyCents?: number };
+
+export type DeficitSource = 'cash_buffer' | 'offset' | 'redraw' | 'portfolio';
+
+export interface SurplusAllocation {
+  kind: AllocationStep['kind'];
+  loanId?: string;
+  offsetId?: string;
+  personId?: string;
+  amount: number; // After-tax dollars taken from surplus
+}
+
+export interface DeficitDrawdown {
+  source: DeficitSource;
+  loanId?: string;
+  offsetId?: string;
+  amount: number; // Cash raised towards the shortfall
+  cgt?: number; // Capital gains tax paid on portfolio sales
+}
+
+export interface DeficitResult {
+  drawdowns: DeficitDrawdown[];
+  shortfall: number; // Deficit no source could fund
+}
+
+export interface HouseholdBalances {
+  cashBuffer: number;
+  portfolioBalance: number;
+  portfolioCostBase: number;
+  offsetBalances: Record<string, number>; // Cash held in each offset account
+}
+
+export interface ActiveLoan {
+  loan: LoanDetails;
+  state: LoanState;
+  loanMonth: LoanMonth;
+}
+
+export interface SuperRoom {
+  personId: string;
+  roomCents: number; // Concessional cap left after this month's SG
+  afterTaxCostRate: number; // After-tax cost of each dollar sacrificed (1 - marginal rate)
+}
+
+export interface AllocationResult {
+  allocations: SurplusAllocation[];
+  salarySacrifice: Record<string, number>; // Gross concessional contribution per person
+}
+
+// Surplus accumulates in the cash buffer unless a scenario configures otherwise
+export const DEFAULT_SURPLUS_ALLOCATION: AllocationStep[] = [
+  { kind: 'cash_buffer' },
+];
+
+/**
+ * Get the waterfall for a scenario that does not configure its own
+ * Surplus fills each offset account up to the debt it offsets, then stays in the cash buffer
+ * @param offsets - The scenario's offset accounts
+ * @returns Waterfall steps in priority order
+ */
+export function getDefaultSurplusAllocation(offsets: OffsetAccount[]): AllocationStep[] {
+  return [
+    ...offsets.map((account): AllocationStep => ({ kind: 'offset', offsetId: account.id })),
+    ...DEFAULT_SURPLUS_ALLOCATION,
+  ];
+}
+
+export const DEFAULT_DEFICIT_FUNDING: DeficitSource[] = [
+  'cash_buffer',
+  'offset',
+  'redraw',
+  'portfolio',
+];
+
+/**
+ * Allocate a month's surplus through the waterfall in order
+ * Surplus left after the last step stays in the cash buffer
+ * @param surplusCents - Positive net cashflow for the month
+ * @param steps - Waterfall steps in priority order
+ * @param balances - Household balances (mutated)
+ * @param loans - Active loans by id, after this month's scheduled repayment (mutated)
+ * @param offsets - Offset accounts; each is filled no further than the debt it offsets
+ * @param superRoom - Remaining concessional room per person
+ * @returns Where the surplus went and the resulting salary sacrifice per person
+ */
+export function allocateSurplus(
+  surplusCents: number,
+  steps: AllocationStep[],
+  balances: HouseholdBalances,
+  loans: Record<string, ActiveLoan>,
+  offsets: OffsetAccount[],
+  superRoom: SuperRoom[]
+): AllocationResult {
+  const allocations: SurplusAllocation[] = [];
+  const salarySacrifice: Record<string, number> = {};
+  let remaining = Math.max(0, surplusCents);
+
+  for (const step of steps) {
+    if (remaining <= 0) break;
+
+    switch (step.kind) {
+      case 'cash_buffer': {
+        const room = step.targetCents !== undefined
+          ? Math.max(0, step.targetCents - balances.cashBuffer)
+          : remaining;
+        const amount = Math.min(remaining, room);
+        balances.cashBuffer += amount;
+        remaining -= amount;
+        allocations.push({ kind: step.kind, amount });
+        break;
+      }
+
+      case 'offset': {
+        const account = offsets.find(a => a.id === step.offsetId);
+        if (!account) break;
+
+        const held = balances.offsetBalances[account.id] || 0;
+        const capacity = getOffsetCapacity(account, Object.values(loans));
+        const target = step.targetCents !== undefined ? Math.min(step.targetCents, capacity) : capacity;
+        const amount = Math.min(remaining, Math.max(0, target - held));
+        balances.offsetBalances[account.id] = held + amount;
+        remaining -= amount;
+        allocations.push({ kind: step.kind, offsetId: account.id, amount });
+        break;
+      }
+
+      case 'extra_repayment': {
+        const loan = loans[step.loanId];
+        if (!loan) break;
+
+        const limit = Math.min(remaining, step.maxMonthlyCents ?? remaining);
+        const amount = applyExtraRepayment(loan.state, loan.loanMonth, limit);
+        remaining -= amount;
+        allocations.push({ kind: step.kind, loanId: step.loanId, amount });
+        break;
+      }
+
+      case 'salary_sacrifice': {
+        const people = step.personId
+          ? superRoom.filter(room => room.personId === step.personId)
+          : superRoom;
+        let limit = Math.min(remaining, step.maxMonthlyCents ?? remaining);
+
+        for (const room of people) {
+          const amount = Math.min(limit, room.roomCents * room.afterTaxCostRate);
+          if (amount <= 0) continue;
+
+          // Sacrificing pre-tax salary costs only the after-tax equivalent
+          salarySacrifice[room.personId] = (salarySacrifice[room.personId] || 0) +
+            amount / room.afterTaxCostRate;
+          limit -= amount;
+          remaining -= amount;
+          allocations.push({ kind: step.kind, personId: room.personId, amount });
+        }
+        break;
+      }
+
+      case 'portfolio': {
+        const amount = Math.min(remaining, step.maxMonthlyCents ?? remaining);
+        balances.portfolioBalance += amount;
+        balances.portfolioCostBase += amount;
+        remaining -= amount;
+        allocations.push({ kind: step.kind, amount });
+        break;
+      }
+    }
+  }
+
+  // Anything the waterfall could not place stays in cash
+  balances.cashBuffer += remaining;
+
+  return { allocations, salarySacrifice };
+}
+
+/**
+ * Fund a month's deficit from each source in order
+ * Portfolio sales are grossed up so the cash raised covers the CGT they trigger
+ * @param deficitCents - Negative net cashflow for the month, as a positive amount
+ * @param sources - Funding sources in priority order
+ * @param balances - Household balances (mutated)
+ * @param loans - Active loans by id, after this month's scheduled repayment (mutated)
+ * @param marginalTaxRate - Marginal rate applied to discounted capital gains
+ * @returns Drawdowns by source and any shortfall left unfunded
+ */
+export function fundDeficit(
+  deficitCents: number,
+  sources: DeficitSource[],
+  balances: HouseholdBalances,
+  loans: Record<string, ActiveLoan>,
+  marginalTaxRate: number
+): DeficitResult {
+  const drawdowns: DeficitDrawdown[] = [];
+  let remaining = Math.max(0, deficitCents);
+
+  for (const source of sources) {
+    if (remaining <= 0) break;
+
+    switch (source) {
+      case 'cash_buffer': {
+        const amount = Math.min(remaining, Math.max(0, balances.cashBuffer));
+        if (amount <= 0) break;
+
+        balances.cashBuffer -= amount;
+        remaining -= amount;
+        drawdowns.push({ source, amount });
+        break;
+      }
+
+      case 'offset': {
+        for (const [offsetId, held] of Object.entries(balances.offsetBalances)) {
+          const amount = Math.min(remaining, held);
+          if (amount <= 0) continue;
+
+          balances.offsetBalances[offsetId] = held - amount;
+          remaining -= amount;
+          drawdowns.push({ source, offsetId, amount });
+        }
+        break;
+      }
+
+      case 'redraw': {
+        // Redrawing to cover a shortfall funds household spending, so it is private borrowing
+        for (const [loanId, activeLoan] of Object.entries(loans)) {
+          const amount = applyRedraw(activeLoan.loan, activeLoan.state, activeLoan.loanMonth, remaining);
+          if (amount <= 0) continue;
+
+          remaining -= amount;
+          drawdowns.push({ source, loanId, amount });
+        }
+        break;
+      }
+
+      case 'portfolio': {
+        if (balances.portfolioBalance <= 0) break;
+
+        // Share of every dollar sold that is taxable gain after the discount
+        const gainRatio = Math.max(0, 1 - balances.portfolioCostBase / balances.portfolioBalance);
+        const taxPerDollar = gainRatio * (1 - CGT_CONSTANTS.DISCOUNT_RATE) * marginalTaxRate;
+        const saleAmount = Math.min(balances.portfolioBalance, remaining / (1 - taxPerDollar));
+        const costBaseSold = balances.portfolioCostBase * (saleAmount / balances.portfolioBalance);
+        const cgt = calculateCGT(
+          costBaseSold,
+          saleAmount,
+          CGT_CONSTANTS.MINIMUM_HOLDING_MONTHS,
+          marginalTaxRate
+        );
+        const amount = Math.min(remaining, saleAmount - cgt);
+
+        balances.portfolioBalance -= saleAmount;
+        balances.portfolioCostBase -= costBaseSold;
+        remaining -= amount;
+        drawdowns.push({ source, amount, cgt });
+        break;
+      }
+    }
+  }
+
+  return { drawdowns, shortfall: remaining };
+}
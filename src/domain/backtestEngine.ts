@@ -0,0 +1,156 @@
+/**
+ * Backtest Engine - Replays a scenario against rolling windows of historical market years
+ * Each run starts the scenario's markets in a different historical year, taking that year's
+ * and the following years' property growth, share returns, inflation and rate moves in place
+ * of the fixed assumptions. Loans keep their spread over today's standard variable rate (the
+ * latest year of history), so rates are charged at the historical level from the first year
+ * All monetary values are in cents
+ */
+
+import { runForecast, type Scenario } from './forecastEngine';
+import { createMarketPath, type MarketYear } from './marketEngine';
+import { getMarketAssumptions, type MarketFactor } from './monteCarloEngine';
+
+export interface HistoricalYear {
+  year: number;
+  housePriceGrowth: number; // House price index change over the year
+  sharesReturn: number; // Share market total return, with dividends reinvested
+  inflation: number; // CPI change over the year
+  variableRate: number; // Standard variable home loan rate during the year
+}
+
+export interface MarketHistorySeries {
+  housePrices: Record<number, number>;
+  shares: Record<number, number>;
+  inflation: Record<number, number>;
+  variableRate: Record<number, number>;
+}
+
+export interface BacktestRun {
+  startYear: number;
+  netWorth: number; // At the end of the forecast
+  netWorthPresentValue: number; // At the end of the forecast, in start-date dollars
+  minCashBuffer: number;
+  firstShortfallDate?: Date; // First month a shortfall could not be funded
+}
+
+export interface BacktestResult {
+  windowYears: number; // Historical years replayed in each run
+  runs: BacktestRun[]; // In start year order
+  best?: BacktestRun;
+  median?: BacktestRun;
+  worst?: BacktestRun;
+  shortfallStartYears: number[];
+}
+
+/**
+ * Parse a year,percent CSV series
+ * The header and any row without a numeric year and value are skipped
+ * @param csv - CSV text with the year in the first column and a percentage in the second
+ * @returns Value per year as a fraction
+ */
+export function parseHistoricalSeries(csv: string): Record<number, number> {
+  const series: Record<number, number> = {};
+
+  for (const line of csv.split(/\r?\n/)) {
+    const [year, value] = line.split(',').map(cell => cell.trim());
+    if (!year || !value || isNaN(Number(year)) || isNaN(Number(value))) continue;
+    series[Number(year)] = Number(value) / 100;
+  }
+
+  return series;
+}
+
+/**
+ * Combine the historical series into market years
+ * Only years every series covers are kept
+ * @param series - House price, share, inflation and variable rate series
+ * @returns Historical years in ascending order
+ */
+export function buildMarketHistory(series: MarketHistorySeries): HistoricalYear[] {
+  return Object.keys(series.housePrices)
+    .map(Number)
+    .filter(year =>
+      series.shares[year] !== undefined &&
+      series.inflation[year] !== undefined &&
+      series.variableRate[year] !== undefined
+    )
+    .sort((a, b) => a - b)
+    .map(year => ({
+      year,
+      housePriceGrowth: series.housePrices[year],
+      sharesReturn: series.shares[year],
+      inflation: series.inflation[year],
+      variableRate: series.variableRate[year],
+    }));
+}
+
+/**
+ * Turn a window of historical years into shocks off the scenario's assumptions
+ * Super follows the share market's return over the super assumption. The first year moves
+ * rates from today's standard variable rate to the window's, and later years follow history
+ * @param window - Consecutive historical years
+ * @param assumptions - Scenario's own rate for each market factor
+ * @param currentRate - Today's standard variable rate, which the scenario's loan rates reflect
+ * @returns Market year for each historical year
+ */
+function getHistoricalMarketYears(
+  window: HistoricalYear[],
+  assumptions: Record<MarketFactor, number>,
+  currentRate: number
+): MarketYear[] {
+  return window.map((year, index) => ({
+    propertyGrowth: year.housePriceGrowth - assumptions.property,
+    sharesReturn: year.sharesReturn - assumptions.shares,
+    superReturn: year.sharesReturn - assumptions.super,
+    inflation: year.inflation - assumptions.inflation,
+    rateChange: year.variableRate - (index > 0 ? window[index - 1].variableRate : currentRate),
+  }));
+}
+
+/**
+ * Replay a scenario against every rolling window of history
+ * Windows run for the forecast horizon, or the whole history when it is shorter; the scenario's
+ * own assumptions hold for any forecast years after the window. Windows with a missing year
+ * are skipped. Stress test settings already applied to the scenario carry through every run
+ * @param scenario - Scenario to replay
+ * @param history - Historical market years
+ * @returns Each run's outcome, the best, median and worst by real end net worth and the start years with a shortfall
+ */
+export function runBacktest(scenario: Scenario, history: HistoricalYear[]): BacktestResult {
+  const windowYears = Math.min(scenario.horizonYears, history.length);
+  const assumptions = getMarketAssumptions(scenario);
+  const currentRate = history[history.length - 1]?.variableRate ?? 0;
+  const runs: BacktestRun[] = [];
+
+  for (let start = 0; windowYears > 0 && start + windowYears <= history.length; start++) {
+    const window = history.slice(start, start + windowYears);
+    if (window[windowYears - 1].year - window[0].year !== windowYears - 1) continue;
+
+    const forecast = runForecast({
+      ...scenario,
+      marketPath: createMarketPath(scenario.startDate, getHistoricalMarketYears(window, assumptions, currentRate)),
+    });
+    if (forecast.length === 0) continue;
+
+    const last = forecast[forecast.length - 1];
+    runs.push({
+      startYear: window[0].year,
+      netWorth: last.netWorth,
+      netWorthPresentValue: last.netWorthPresentValue,
+      minCashBuffer: Math.min(...forecast.map(month => month.cashBuffer)),
+      firstShortfallDate: forecast.find(month => month.isInsolvent)?.date,
+    });
+  }
+
+  const ranked = [...runs].sort((a, b) => b.netWorthPresentValue - a.netWorthPresentValue);
+
+  return {
+    windowYears,
+    runs,
+    best: ranked[0],
+    median: ranked[Math.floor((ranked.length - 1) / 2)],
+    worst: ranked[ranked.length - 1],
+    shortfallStartYears: runs.filter(run => run.firstShortfallDate).map(run => run.startYear),
+  };
+}
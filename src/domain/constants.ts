@@ -3,15 +3,6 @@
  * All monetary values are in cents to avoid floating point rounding issues
  */
 
-// Australian Tax Brackets for 2024-25 (in cents)
-export const AU_TAX_BRACKETS = [
-  { min: 0, max: 1800000, rate: 0 }, // 0 - $18,200
-  { min: 1800000, max: 4500000, rate: 0.19 }, // $18,201 - $45,000
-  { min: 4500000, max: 12000000, rate: 0.325 }, // $45,001 - $120,000
-  { min: 12000000, max: 18000000, rate: 0.37 }, // $120,001 - $180,000
-  { min: 18000000, max: Infinity, rate: 0.45 }, // $180,001+
-];
-
 // Australian State Codes
 export const AU_STATES = [
   { code: 'NSW', name: 'New South Wales' },
@@ -52,36 +43,11 @@ export const PPOR_RULES = {
   OVERLAP_RULE_MONTHS: 6, // Can have 6 month overlap between properties
 };
 
-/**
- * Calculate after-tax income using Australian tax brackets
- * @param grossIncomeCents - Gross annual income in cents
- * @param medicareLevy - Medicare levy rate (default 2%)
- * @returns After-tax income in cents
- */
-export function calculateAfterTaxIncome(
-  grossIncomeCents: number,
-  medicareLevy: number = 0.02
-): number {
-  let taxPayable = 0;
-  let remainingIncome = grossIncomeCents;
-
-  for (const bracket of AU_TAX_BRACKETS) {
-    if (remainingIncome <= 0) break;
-    
-    const taxableInThisBracket = Math.min(
-      remainingIncome,
-      bracket.max - bracket.min
-    );
-    
-    taxPayable += taxableInThisBracket * bracket.rate;
-    remainingIncome -= taxableInThisBracket;
-  }
-
-  // Add Medicare Levy (2% of gross income)
-  const medicareLevyTax = grossIncomeCents * medicareLevy;
-  
-  return Math.round(grossIncomeCents - taxPayable - medicareLevyTax);
-}
+// Property Sale Costs
+export const SALE_CONSTANTS = {
+  AGENT_COMMISSION_PCT: 0.02, // 2% of sale price
+  FIXED_SELLING_COSTS_CENTS: 700000, // $7,000 marketing, legal and conveyancing
+};
 
 /**
  * Calculate monthly loan payment (P&I)
@@ -139,23 +105,6 @@ export function calculatePresentValue(
   return Math.round(presentValue);
 }
 
-/**
- * Calculate NSW stamp duty (example implementation)
- * @param purchasePriceCents - Property purchase price in cents
- * @returns Stamp duty in cents
- */
-export function calculateNSWStampDuty(purchasePriceCents: number): number {
-  const price = purchasePriceCents / 100; // Convert to dollars
-  
-  if (price <= 14000) return 0;
-  if (price <= 32000) return Math.round((price - 14000) * 0.0125 * 100);
-  if (price <= 85000) return Math.round((225 + (price - 32000) * 0.015) * 100);
-  if (price <= 319000) return Math.round((1020 + (price - 85000) * 0.035) * 100);
-  if (price <= 1064000) return Math.round((9210 + (price - 319000) * 0.045) * 100);
-  
-  return Math.round((42757.5 + (price - 1064000) * 0.055) * 100);
-}
-
 /**
  * Calculate capital gains tax
  * @param purchasePriceCents - Original purchase price in cents
@@ -181,6 +130,15 @@ export function calculateCGT(
   return Math.round(taxableGain * marginalTaxRate);
 }
 
+/**
+ * Get the Australian financial year a date falls in
+ * @param date - Date to classify
+ * @returns Calendar year the financial year ends in (e.g. 2026 for 2025-26)
+ */
+export function getFinancialYear(date: Date): number {
+  return date.getMonth() >= 6 ? date.getFullYear() + 1 : date.getFullYear();
+}
+
 /**
  * Convert cents to display dollars
  * @param cents - Amount in cents
@@ -0,0 +1,309 @@
+/**
+ * Event Engine - Applies dated plan events (purchases, sales, refinances, moves) during a forecast
+ */
+
+import {
+  compareRefinance,
+  getSecurityPropertyIds,
+  getVariableRate,
+  LoanDetails,
+  LoanPurpose,
+  LoanState,
+  monthsBetween,
+  RefinanceComparison,
+  refinanceLoan,
+} from './loanEngine';
+import { calculateLmiPremium } from './lvrEngine';
+import { applyMarketRates, getRateShift, type MarketPath } from './marketEngine';
+import { getPropertyValue } from './propertyEngine';
+import { getPropertyStampDuty } from './stampDutyEngine';
+import type { Property } from './forecastEngine';
+
+export type PlanEventKind =
+  | 'buy'
+  | 'sell'
+  | 'refinance'
+  | 'move_in'
+  | 'move_out'
+  | 'new_car'
+  | 'crash_pad_on'
+  | 'crash_pad_off'
+  | 'super_topup';
+
+// Event-specific settings stored in plan_events.meta_json
+export interface PlanEventMeta {
+  propertyId?: string; // sell, move_in, move_out
+  loanId?: string; // refinance
+  personId?: string; // super_topup
+  // buy
+  name?: string;
+  loanAmountCents?: number;
+  rentPwCents?: number;
+  valueGrowthPa?: number;
+  costsPaCents?: number;
+  landValueCents?: number;
+  isInvestment?: boolean;
+  stateCode?: string;
+  isFirstHome?: boolean;
+  isOffThePlan?: boolean;
+  isForeignPurchaser?: boolean;
+  // buy and refinance
+  annualRate?: number;
+  termYears?: number;
+  ioYears?: number;
+  // refinance
+  cashOutCents?: number;
+  cashOutPurpose?: LoanPurpose; // Private when omitted
+  dischargeFeeCents?: number;
+  establishmentFeeCents?: number;
+  breakFeeCents?: number; // Estimated from the fixed rate when omitted
+  capitaliseCosts?: boolean;
+}
+
+export interface PlanEvent {
+  id: string;
+  scenarioId: string;
+  date: Date;
+  kind: PlanEventKind;
+  amountCents?: number;
+  meta: PlanEventMeta;
+}
+
+// Properties and loans as they stand at a point in the forecast (mutated by events)
+export interface PlanState {
+  startDate: Date;
+  market?: MarketPath; // Simulated market conditions moving property values
+  properties: Property[];
+  loans: LoanDetails[];
+  loanStates: LoanState[];
+  crashPadRentPwCents: number;
+  salePrices: Record<string, number>; // Agreed sale price per property, when not sold at market value
+  stateCode: string; // State for purchases that do not name one
+}
+
+export interface EventMonth {
+  applied: PlanEvent[];
+  cashflow: number; // Cash received (positive) or paid (negative) by this month's events
+  superTopups: Record<string, number>; // Non-concessional contribution per person
+  lmiPremiums: Record<string, number>; // LMI added to each loan drawn or refinanced above 80% LVR
+  refinances: RefinanceComparison[]; // Before/after comparison of each refinance
+}
+
+// Assumptions for a purchase when the event does not specify them
+export const DEFAULT_PURCHASE = {
+  LVR: 0.8,
+  INTEREST_RATE: 0.065,
+  TERM_YEARS: 30,
+  VALUE_GROWTH_PA: 0.05,
+  VACANCY_WEEKS_PA: 2,
+  MAINTENANCE_PCT_OF_VALUE: 0.01,
+};
+
+/**
+ * Get the events that fall in a forecast month
+ * Events dated before the forecast start are already reflected in the scenario and are skipped
+ * @param events - All plan events for the scenario
+ * @param startDate - Forecast start date
+ * @param month - Forecast month (1-based)
+ * @returns Events in date order
+ */
+export function getEventsForMonth(events: PlanEvent[], startDate: Date, month: number): PlanEvent[] {
+  return events
+    .filter(event => monthsBetween(startDate, event.date) === month - 1)
+    .sort((a, b) => a.date.getTime() - b.date.getTime());
+}
+
+/**
+ * Buy a property, drawing a new loan against it
+ * Loans above 80% of the price have the LMI premium added to them
+ * @param state - Plan state (mutated)
+ * @param event - Buy event; amountCents is the purchase price
+ * @param result - Month's event results, which record any LMI (mutated)
+ * @returns Deposit and stamp duty paid from cash
+ */
+function applyPurchase(state: PlanState, event: PlanEvent, result: EventMonth): number {
+  const price = event.amountCents || 0;
+  const { meta } = event;
+  const loanAmount = meta.loanAmountCents ?? Math.round(price * DEFAULT_PURCHASE.LVR);
+  const isInvestment = meta.isInvestment ?? true;
+
+  const property: Property = {
+    id: event.id,
+    name: meta.name || 'New property',
+    purchasePriceCents: price,
+    purchaseDate: event.date,
+    valueNowCents: price,
+    valueGrowthPa: meta.valueGrowthPa ?? DEFAULT_PURCHASE.VALUE_GROWTH_PA,
+    costsFixedPaCents: meta.costsPaCents || 0,
+    maintenancePctOfValue: DEFAULT_PURCHASE.MAINTENANCE_PCT_OF_VALUE,
+    strataPaCents: 0,
+    ratesPaCents: 0,
+    insurancePaCents: 0,
+    landTaxPaCents: 0,
+    landValueCents: meta.landValueCents,
+    rentPwCents: isInvestment ? meta.rentPwCents || 0 : 0,
+    vacancyWeeksPa: DEFAULT_PURCHASE.VACANCY_WEEKS_PA,
+    depreciationCapitalPaCents: 0,
+    depreciationPlantPaCents: 0,
+    becomesIpOn: isInvestment ? event.date : undefined,
+    becomesPporOn: isInvestment ? undefined : event.date,
+    stateCode: meta.stateCode,
+    isFirstHome: meta.isFirstHome,
+    isOffThePlan: meta.isOffThePlan,
+    isForeignPurchaser: meta.isForeignPurchaser,
+  };
+  state.properties.push(property);
+
+  if (loanAmount > 0) {
+    const lmiPremium = calculateLmiPremium(loanAmount, price);
+    const loan: LoanDetails = {
+      id: `${event.id}-loan`,
+      propertyId: event.id,
+      startDate: event.date,
+      startBalanceCents: loanAmount + lmiPremium,
+      annualRate: meta.annualRate ?? DEFAULT_PURCHASE.INTEREST_RATE,
+      ioYears: meta.ioYears || 0,
+      termYears: meta.termYears || DEFAULT_PURCHASE.TERM_YEARS,
+      offsetStartCents: 0,
+      offsetContribMonthlyCents: 0,
+      allowRedraw: true,
+    };
+    state.loans.push(applyMarketRates(loan, state.market));
+    state.loanStates.push({ month: 1, balance: loan.startBalanceCents, offsetBalance: 0, redrawAvailable: 0 });
+    if (lmiPremium > 0) {
+      result.lmiPremiums[loan.id] = lmiPremium;
+    }
+  }
+
+  return -(price - loanAmount + getPropertyStampDuty(property, state.stateCode).total);
+}
+
+/**
+ * Refinance a loan from its current balance on new terms
+ * Switching costs are paid in cash unless the event capitalises them; a new loan above 80%
+ * of its security's current value has the LMI premium added to it. A rate set on the event
+ * moves with any simulated change in rates by then
+ * @param state - Plan state (mutated)
+ * @param event - Refinance event; amountCents is any other switching cost
+ * @param result - Month's event results, which record any LMI and the before/after comparison (mutated)
+ * @returns Cash-out received less costs paid in cash
+ */
+function applyRefinance(state: PlanState, event: PlanEvent, result: EventMonth): number {
+  const index = state.loans.findIndex(loan => loan.id === event.meta.loanId);
+  if (index === -1) return 0;
+
+  const loan = state.loans[index];
+  const loanState = state.loanStates[index];
+  if (loanState.balance <= 0) return 0;
+
+  const { meta } = event;
+  const securities = state.properties.filter(p => getSecurityPropertyIds(loan).includes(p.id));
+  const refinanced = refinanceLoan(
+    loan,
+    loanState,
+    event.date,
+    {
+      annualRate: meta.annualRate !== undefined
+        ? meta.annualRate + getRateShift(state.market, event.date)
+        : getVariableRate(loan, event.date),
+      ioYears: meta.ioYears,
+      termYears: meta.termYears,
+      cashOutCents: meta.cashOutCents,
+      cashOutPurpose: meta.cashOutPurpose,
+      dischargeFeeCents: meta.dischargeFeeCents,
+      establishmentFeeCents: meta.establishmentFeeCents,
+      breakFeeCents: meta.breakFeeCents,
+      otherCostsCents: event.amountCents,
+      capitaliseCosts: meta.capitaliseCosts,
+    },
+    securities.length > 0
+      ? securities.reduce((sum, p) => sum + getPropertyValue(p, event.date, state.startDate, state.market), 0)
+      : undefined
+  );
+
+  result.refinances.push(compareRefinance(loan, loanState, refinanced, event.date));
+  state.loans[index] = refinanced.loan;
+  state.loanStates[index] = refinanced.state;
+  if (refinanced.costs.lmi > 0) {
+    result.lmiPremiums[loan.id] = refinanced.costs.lmi;
+  }
+
+  return refinanced.cashflow;
+}
+
+/**
+ * Apply a month's plan events to the forecast's properties and loans
+ * @param state - Plan state (mutated)
+ * @param events - Events falling in the month, in date order
+ * @param defaultPersonId - Person receiving super top-ups without a personId
+ * @returns Cash movements and super top-ups caused by the events
+ */
+export function applyPlanEvents(
+  state: PlanState,
+  events: PlanEvent[],
+  defaultPersonId: string
+): EventMonth {
+  const result: EventMonth = { applied: [], cashflow: 0, superTopups: {}, lmiPremiums: {}, refinances: [] };
+
+  for (const event of events) {
+    const amount = event.amountCents || 0;
+
+    switch (event.kind) {
+      case 'buy':
+        result.cashflow += applyPurchase(state, event, result);
+        break;
+
+      case 'sell': {
+        // Settlement happens when the forecast reaches the property's soldOn month
+        const property = state.properties.find(p => p.id === event.meta.propertyId);
+        if (!property) continue;
+        if (property.soldOn && monthsBetween(property.soldOn, event.date) >= 0) continue;
+
+        property.soldOn = event.date;
+        if (event.amountCents !== undefined) {
+          state.salePrices[property.id] = event.amountCents;
+        }
+        break;
+      }
+
+      case 'refinance':
+        result.cashflow += applyRefinance(state, event, result);
+        break;
+
+      case 'move_in':
+      case 'move_out': {
+        const property = state.properties.find(p => p.id === event.meta.propertyId);
+        if (!property) continue;
+
+        // Each move adds to the property's history, so earlier use is kept; moving out
+        // without rent set leaves the home vacant
+        const status = event.kind === 'move_in' ? 'ppor' : property.rentPwCents > 0 ? 'investment' : 'vacant';
+        property.useChanges = [...(property.useChanges || []), { date: event.date, status }];
+        break;
+      }
+
+      case 'new_car':
+        result.cashflow -= amount;
+        break;
+
+      case 'crash_pad_on':
+        state.crashPadRentPwCents = amount;
+        break;
+
+      case 'crash_pad_off':
+        state.crashPadRentPwCents = 0;
+        break;
+
+      case 'super_topup': {
+        const personId = event.meta.personId || defaultPersonId;
+        result.superTopups[personId] = (result.superTopups[personId] || 0) + amount;
+        result.cashflow -= amount;
+        break;
+      }
+    }
+
+    result.applied.push(event);
+  }
+
+  return result;
+}
@@ -0,0 +1,170 @@
+import { describe, expect, it } from 'vitest';
+import { generateSummary, getHouseholdEarners, runForecast, type Property, type Scenario } from './forecastEngine';
+import type { LoanDetails } from './loanEngine';
+
+const rental: Property = {
+  id: 'rental',
+  name: 'Rental',
+  purchasePriceCents: 60000000,
+  purchaseDate: new Date('2020-01-01'),
+  valueNowCents: 80000000,
+  valueGrowthPa: 0.05,
+  costsFixedPaCents: 0,
+  maintenancePctOfValue: 0,
+  strataPaCents: 0,
+  ratesPaCents: 200000,
+  insurancePaCents: 100000,
+  landTaxPaCents: 0,
+  rentPwCents: 60000,
+  vacancyWeeksPa: 0,
+  depreciationCapitalPaCents: 0,
+  depreciationPlantPaCents: 0,
+};
+
+const rentalLoan: LoanDetails = {
+  id: 'rental-loan',
+  propertyId: 'rental',
+  startDate: new Date('2020-01-01'),
+  startBalanceCents: 50000000,
+  annualRate: 0.06,
+  ioYears: 10,
+  termYears: 30,
+  offsetStartCents: 0,
+  offsetContribMonthlyCents: 0,
+  allowRedraw: false,
+};
+
+const scenario: Scenario = {
+  id: 'scenario',
+  userId: 'user',
+  name: 'Test',
+  startDate: new Date('2026-01-01'),
+  horizonYears: 3,
+  profile: {
+    id: 'profile',
+    name: 'Owner',
+    dateOfBirth: new Date('1985-06-15'),
+    retirementAge: 65,
+    inflationCpiPa: 0.025,
+    returnSuperPa: 0.07,
+    returnPortfolioPa: 0.08,
+    taxMarginalRate: 0.37,
+    medicareLevy: 0.02,
+    stateCode: 'NSW',
+    salaryCurrentCents: 12000000,
+    salaryGrowthPa: 0.03,
+    savingsCurrentCents: 2000000,
+    superCurrentCents: 10000000,
+    otherInvestmentsCents: 0,
+    livingExpensesPaCents: 6000000,
+  },
+  properties: [],
+  loans: [],
+  people: [],
+  assets: [],
+  stressRateBumpPct: 0,
+  stressGrowthHaircutPct: 0,
+  stressVacancyWeeks: 0,
+  stressBorrowCapDownPct: 0,
+};
+
+describe('getHouseholdEarners', () => {
+  it('falls back to the profile owner when the scenario has no people', () => {
+    const [earner] = getHouseholdEarners(scenario);
+
+    expect(earner.id).toBe('profile');
+    expect(earner.salaryCurrentCents).toBe(12000000);
+    expect(earner.salaryGrowthPa).toBe(0.03);
+  });
+});
+
+describe('runForecast', () => {
+  it('projects one month per month of the horizon from the start date', () => {
+    const forecast = runForecast(scenario);
+
+    expect(forecast).toHaveLength(36);
+    expect(forecast[0].date).toEqual(new Date('2026-01-01'));
+    expect(forecast[35].date.getMonth()).toBe(11);
+  });
+
+  it("grows each earner's salary at their own rate", () => {
+    const forecast = runForecast(scenario);
+
+    expect(forecast[0].grossSalary).toBeCloseTo(1000000);
+    expect(forecast[12].grossSalary).toBeCloseTo(1030000);
+  });
+
+  it('carries no debt for a household without loans', () => {
+    const forecast = runForecast(scenario);
+
+    expect(forecast.every(month => month.totalDebt === 0)).toBe(true);
+    expect(forecast[0].netWorth).toBe(forecast[0].totalAssets);
+  });
+
+  it('collects rent and reports debt for a rented property', () => {
+    const [first] = runForecast({ ...scenario, properties: [rental], loans: [rentalLoan] });
+
+    expect(first.propertyStatuses.rental).toBe('investment');
+    expect(first.rentalIncome).toBeCloseTo(60000 * 52 / 12);
+    expect(first.totalDebt).toBe(50000000);
+    expect(first.propertyValues).toBeCloseTo(80000000);
+  });
+
+  it('refunds tax on a rental loss when the financial year closes in June', () => {
+    const forecast = runForecast({ ...scenario, properties: [rental], loans: [rentalLoan] });
+    const june = forecast[5];
+
+    expect(june.taxAssessments).toHaveLength(1);
+    expect(june.taxAssessments[0].netRentalIncome).toBeLessThan(0);
+    expect(june.taxRefund).toBeGreaterThan(0);
+    expect(forecast.slice(0, 5).every(month => month.taxAssessments.length === 0)).toBe(true);
+  });
+
+  it('assesses the open financial year in the final month', () => {
+    const forecast = runForecast({ ...scenario, properties: [rental], loans: [rentalLoan] });
+    const [assessment] = forecast[35].taxAssessments;
+
+    expect(assessment.financialYear).toBe(2029);
+    expect(assessment.netRentalIncome).toBeLessThan(0);
+    expect(forecast[35].taxRefund).toBe(assessment.refund);
+  });
+
+  it('assesses land tax each January and on a purchase in the month it settles', () => {
+    const forecast = runForecast({
+      ...scenario,
+      properties: [{ ...rental, landValueCents: 80000000 }],
+      planEvents: [{
+        id: 'purchase',
+        scenarioId: 'scenario',
+        date: new Date('2027-03-15'),
+        kind: 'buy',
+        amountCents: 90000000,
+        meta: { name: 'Second rental', rentPwCents: 70000, landValueCents: 50000000, isInvestment: true },
+      }],
+    });
+
+    // January 2026, January 2027, March 2027 and January 2028
+    const assessedMonths = forecast
+      .map((month, index) => (month.landTaxAssessments.length > 0 ? index : -1))
+      .filter(index => index >= 0);
+    expect(assessedMonths).toEqual([0, 12, 14, 24]);
+
+    // The purchase pays its share of the owner's aggregated land tax from settlement
+    const [purchase] = forecast[14].landTaxAssessments;
+    expect(purchase.propertyId).not.toBe('rental');
+    expect(purchase.landTax).toBeGreaterThan(0);
+    expect(forecast[14].propertyExpenses).toBeGreaterThan(forecast[13].propertyExpenses);
+  });
+});
+
+describe('generateSummary', () => {
+  it('falls back to the final month for milestones past the horizon', () => {
+    const forecast = runForecast({ ...scenario, horizonYears: 15 });
+    const summary = generateSummary(forecast, 65, scenario.profile.dateOfBirth);
+
+    expect(summary.now).toBe(forecast[0]);
+    expect(summary.year10).toBe(forecast[119]);
+    expect(summary.year20).toBe(forecast[179]);
+    expect(summary.year30).toBe(forecast[179]);
+  });
+});
@@ -2,8 +2,80 @@
  * Forecast Engine - Handles 30-year property and financial forecasting
  */
 
-import { calculateAfterTaxIncome, calculatePresentValue, formatCurrency } from './constants';
-import { calculateLoanSchedule, LoanDetails } from './loanEngine';
+import { calculatePresentValue, formatCurrency, getFinancialYear } from './constants';
+import {
+  applyCashRatePath,
+  applyPlannedPrepayments,
+  createLoanState,
+  getBlendedRate,
+  getPurposeBalances,
+  getSecurityPropertyIds,
+  LoanDetails,
+  LoanPosition,
+  monthsBetween,
+  RateChange,
+  RefinanceComparison,
+  removeSecurity,
+  splitAcrossSecurity,
+  splitDeductibleInterest,
+  stepLoanMonth,
+} from './loanEngine';
+import {
+  accrueTaxMonth,
+  assessTaxYear,
+  calculatePersonIncome,
+  createTaxYearAccount,
+  getOwnershipShare,
+  getTaxpayer,
+  PersonIncome,
+  TaxYearAssessment,
+} from './taxEngine';
+import { getMarginalTaxRate } from './taxRules';
+import {
+  applySuperMonth,
+  calculateSuperGuarantee,
+  createSuperAccount,
+  getAvailableConcessionalCap,
+  SuperMonth,
+  syncFinancialYear,
+} from './superEngine';
+import {
+  ActiveLoan,
+  allocateSurplus,
+  AllocationStep,
+  DEFAULT_DEFICIT_FUNDING,
+  DeficitDrawdown,
+  DeficitSource,
+  fundDeficit,
+  getDefaultSurplusAllocation,
+  HouseholdBalances,
+  SuperRoom,
+  SurplusAllocation,
+} from './allocationEngine';
+import {
+  applyPlanEvents,
+  DEFAULT_PURCHASE,
+  getEventsForMonth,
+  PlanEvent,
+  PlanState,
+} from './eventEngine';
+import {
+  DEFAULT_SALE_PROCEEDS_RULE,
+  routeSaleProceeds,
+  SaleProceedsRule,
+  SaleStatement,
+  settlePropertySale,
+} from './saleEngine';
+import { getPropertyStatus, getPropertyValue, isPropertyHeld, PropertyStatus, type PropertyUseChange } from './propertyEngine';
+import { assessLandTax, LandTaxAssessment } from './landTaxEngine';
+import { getPropertyLvrs } from './lvrEngine';
+import { applyOffsets, getOffsetAccounts, OffsetAccount } from './offsetEngine';
+import {
+  applyMarketRates,
+  getInflationIndex,
+  getMarketYear,
+  type MarketPath,
+} from './marketEngine';
 
 export interface UserProfile {
   id: string;
@@ -11,7 +83,6 @@ export interface UserProfile {
   dateOfBirth: Date;
   retirementAge: number;
   inflationCpiPa: number;
-  wageGrowthPa: number;
   returnSuperPa: number;
   returnPortfolioPa: number;
   taxMarginalRate: number;
@@ -59,14 +130,24 @@ export interface Property {
   strataPaCents: number;
   ratesPaCents: number;
   insurancePaCents: number;
-  landTaxPaCents: number;
+  landTaxPaCents: number; // Used when no land value is recorded
+  landValueCents?: number; // Land value for calculated land tax
+  ownedByTrust?: boolean;
   rentPwCents: number;
   vacancyWeeksPa: number;
   depreciationCapitalPaCents: number;
   depreciationPlantPaCents: number;
   becomesIpOn?: Date;
   becomesPporOn?: Date;
+  useChanges?: PropertyUseChange[]; // Moves in and out added by plan events
   soldOn?: Date;
+  // Purchase details for stamp duty; the profile's state applies when stateCode is omitted
+  stateCode?: string;
+  isFirstHome?: boolean;
+  isOffThePlan?: boolean;
+  isForeignPurchaser?: boolean;
+  // Person id to ownership share (0-1); split equally between earners when omitted
+  ownership?: Record<string, number>;
 }
 
 export interface ForecastMonth {
@@ -74,28 +155,51 @@ export interface ForecastMonth {
   date: Date;
   
   // Income
-  salaryAfterTax: number;
+  grossSalary: number;
+  incomeTax: number; // Household income tax and Medicare levy withheld from salary
+  salaryAfterTax: number; // Gross salary less household income tax
   rentalIncome: number;
   totalIncome: number;
   
   // Expenses
   livingExpenses: number;
+  crashPadRent: number; // Rent paid while living away from an owned home
   propertyExpenses: number;
-  loanPayments: number;
+  loanPayments: number; // Scheduled repayments plus each loan's own extra repayments, less its redraws
+  assetContributions: number;
   totalExpenses: number;
   
   // Net Position
+  eventCashflow: number; // One-off cash from plan events, included in netCashflow
+  saleShortfall: number; // Costs, debt and CGT not covered by a sale price, included in netCashflow
+  taxRefund: number; // Refund (positive) or tax owing (negative) assessed this month, included in netCashflow
   netCashflow: number;
   cashBuffer: number;
+  surplusAllocations: SurplusAllocation[];
+  deficitDrawdowns: DeficitDrawdown[];
+  shortfall: number; // Deficit left unfunded once every source is exhausted
+  cumulativeShortfall: number;
+  isInsolvent: boolean;
   
   // Assets
   propertyValues: number;
   superBalance: number;
+  superAccessible: number; // Super past preservation age
   portfolioBalance: number;
+  offsetBalance: number; // Cash held in offset accounts
+  offsetInterestSaved: Record<string, number>; // Interest each loan's offset avoided this month
+  assetBalances: Record<string, number>;
   totalAssets: number;
   
   // Liabilities
   totalDebt: number;
+  loanPositions: LoanPosition[]; // Loans with a balance owing
+  propertyDebts: Record<string, number>; // Debt secured against each held property, split by value when cross-collateralised
+  propertyLvrs: Record<string, number>; // Secured debt over value for each held property
+  propertyInterest: Record<string, number>; // Interest charged this month on each property's share of its loans
+  deductibleInterest: Record<string, number>; // Interest each loan charged this month that is tax deductible
+  lmiPremiums: Record<string, number>; // LMI added to loans drawn or refinanced this month
+  refinances: RefinanceComparison[]; // Loans refinanced this month, before and after
   
   // Net Worth
   netWorth: number;
@@ -103,6 +207,17 @@ export interface ForecastMonth {
   
   // 4% Rule
   passiveIncomeCapacity: number;
+  
+  // Plan events applied this month and resulting property statuses
+  planEvents: PlanEvent[];
+  propertyStatuses: Record<string, PropertyStatus>;
+  saleStatements: SaleStatement[];
+  landTaxAssessments: LandTaxAssessment[]; // Assessed each January, in the first month and when a property is first held
+  
+  // Per-person breakdown
+  personIncomes: PersonIncome[];
+  taxAssessments: TaxYearAssessment[]; // Financial years that closed this month, or the open year in the final month
+  superBalances: SuperMonth[];
 }
 
 export interface ForecastSummary {
@@ -129,6 +244,43 @@ export interface Scenario {
   stressGrowthHaircutPct: number;
   stressVacancyWeeks: number;
   stressBorrowCapDownPct: number;
+  lvrWarningThresholds?: number[]; // LVRs to warn at; DEFAULT_LVR_THRESHOLDS when omitted
+  cashRatePath?: RateChange[]; // Dated RBA cash rates for loans priced as a margin over cash
+  offsetAccounts?: OffsetAccount[];
+  marketPath?: MarketPath; // Simulated market conditions; the fixed assumptions hold when omitted
+  surplusAllocation?: AllocationStep[];
+  deficitFunding?: DeficitSource[];
+  planEvents?: PlanEvent[];
+  saleProceeds?: SaleProceedsRule;
+}
+
+export interface InsolvencySummary {
+  firstInsolventDate?: Date;
+  insolventMonths: number;
+  cumulativeShortfall: number;
+}
+
+/**
+ * Get the household's income earners
+ * Falls back to the profile owner when the scenario has no people
+ * @param scenario - The scenario to read earners from
+ * @returns People earning a salary in the household
+ */
+export function getHouseholdEarners(scenario: Scenario): Person[] {
+  if (scenario.people.length > 0) {
+    return scenario.people;
+  }
+
+  return [{
+    id: scenario.profile.id,
+    scenarioId: scenario.id,
+    name: scenario.profile.name,
+    dateOfBirth: scenario.profile.dateOfBirth,
+    salaryCurrentCents: scenario.profile.salaryCurrentCents,
+    salaryGrowthPa: scenario.profile.salaryGrowthPa,
+    superCurrentCents: scenario.profile.superCurrentCents,
+    isPrimary: true,
+  }];
 }
 
 /**
@@ -139,100 +291,428 @@ export interface Scenario {
 export function runForecast(scenario: Scenario): ForecastMonth[] {
   const forecast: ForecastMonth[] = [];
   const totalMonths = scenario.horizonYears * 12;
+  const earners = getHouseholdEarners(scenario);
+  const offsetAccounts = getOffsetAccounts(scenario.offsetAccounts || [], scenario.loans);
+  const allocationSteps = scenario.surplusAllocation?.length
+    ? scenario.surplusAllocation
+    : getDefaultSurplusAllocation(offsetAccounts);
+  const saleProceedsRule = scenario.saleProceeds || DEFAULT_SALE_PROCEEDS_RULE;
+  const deficitSources = scenario.deficitFunding?.length
+    ? scenario.deficitFunding
+    : DEFAULT_DEFICIT_FUNDING;
+  
+  // Initialize starting balances from the scenario
+  const balances: HouseholdBalances = {
+    cashBuffer: scenario.profile.savingsCurrentCents,
+    portfolioBalance: scenario.profile.otherInvestmentsCents,
+    portfolioCostBase: scenario.profile.otherInvestmentsCents,
+    offsetBalances: Object.fromEntries(offsetAccounts.map(account => [account.id, account.balanceCents])),
+  };
+  let cumulativeShortfall = 0;
+  const superAccounts = earners.map(person => createSuperAccount(person, scenario.startDate));
+  const taxYears = earners.map(person => createTaxYearAccount(person.id, scenario.startDate));
+  
+  // Track each asset individually so it grows at its own rate
+  const assetBalances: Record<string, number> = {};
+  for (const asset of scenario.assets) {
+    assetBalances[asset.id] = asset.currentValueCents;
+  }
   
-  // Initialize starting balances
-  let cashBuffer = 1000000; // $10,000 starting cash buffer
-  let superBalance = 50000000; // $500,000 starting super
-  let portfolioBalance = 0;
+  // Bring existing loans up to the forecast start so they can be stepped month by month,
+  // offset by the opening balances of their offset accounts
+  // Plan events change properties and loans, so the forecast works on copies
+  // Loans priced as a margin over cash follow the scenario's cash rate path
+  // Offsets are held in offset accounts, so loans carry no offset of their own
+  const market = scenario.marketPath;
+  const loans = scenario.loans.map(loan => ({
+    ...applyMarketRates(applyCashRatePath(loan, scenario.cashRatePath || []), market),
+    offsetStartCents: 0,
+    offsetContribMonthlyCents: 0,
+  }));
+  const loanStates = loans.map(createLoanState);
+  if (loans.length > 0) {
+    const earliestStart = Math.min(...loans.map(loan => loan.startDate.getTime()));
+    const catchUp = new Date(earliestStart);
+    catchUp.setDate(1);
+    for (; monthsBetween(catchUp, scenario.startDate) > 0; catchUp.setMonth(catchUp.getMonth() + 1)) {
+      const running = loans.map((loan, index) => ({ loan, state: loanStates[index] }));
+      applyOffsets(offsetAccounts, balances.offsetBalances, running, catchUp);
+      for (const { loan, state } of running) {
+        if (monthsBetween(loan.startDate, catchUp) < 0 || state.balance <= 0) continue;
+        applyPlannedPrepayments(loan, state, stepLoanMonth(loan, state));
+      }
+    }
+  }
+  const plan: PlanState = {
+    startDate: scenario.startDate,
+    market,
+    properties: scenario.properties.map(property => ({ ...property })),
+    loans,
+    loanStates,
+    crashPadRentPwCents: 0,
+    salePrices: {},
+    stateCode: scenario.profile.stateCode,
+  };
+  const planEvents = scenario.planEvents || [];
   
-  // Calculate annual salary (for demo, using fixed amount)
-  const annualSalaryCents = 12000000; // $120,000
-  const monthlySalaryAfterTax = calculateAfterTaxIncome(
-    annualSalaryCents,
-    scenario.profile.medicareLevy
-  ) / 12;
+  // Loans on properties sold before the forecast starts were repaid at settlement,
+  // unless other properties still secure them
+  for (const property of plan.properties) {
+    if (property.soldOn && monthsBetween(property.soldOn, scenario.startDate) > 0) {
+      plan.loans.forEach((loan, index) => {
+        if (!getSecurityPropertyIds(loan).includes(property.id)) return;
+        
+        const released = removeSecurity(loan, property.id);
+        if (released) {
+          plan.loans[index] = released;
+        } else {
+          plan.loanStates[index].balance = 0;
+        }
+      });
+    }
+  }
+  
+  // Land tax for the calendar year per property, from land value where one is recorded
+  const annualLandTax: Record<string, number> = {};
+  const landTaxAssessedIds = new Set<string>();
   
-  // Calculate monthly living expenses (estimated)
-  const monthlyLivingExpenses = 500000; // $5,000 per month
+  // Calculate monthly living expenses in today's dollars
+  const monthlyLivingExpenses = scenario.profile.livingExpensesPaCents / 12;
   
   for (let month = 1; month <= totalMonths; month++) {
     const currentDate = new Date(scenario.startDate);
     currentDate.setMonth(currentDate.getMonth() + month - 1);
     
     const yearsFromStart = (month - 1) / 12;
+    const shocks = getMarketYear(market, currentDate);
+    const financialYear = getFinancialYear(currentDate);
     
-    // Calculate income with wage growth
-    const adjustedSalary = monthlySalaryAfterTax * 
-      Math.pow(1 + scenario.profile.wageGrowthPa, yearsFromStart);
+    // Apply this month's purchases, sales, refinances and moves before projecting it
+    const eventMonth = applyPlanEvents(
+      plan,
+      getEventsForMonth(planEvents, scenario.startDate, month),
+      earners[0].id
+    );
     
-    // Calculate rental income
-    let totalRentalIncome = 0;
-    for (const property of scenario.properties) {
-      const weeksPerYear = 52 - property.vacancyWeeksPa;
-      const annualRent = property.rentPwCents * weeksPerYear;
-      totalRentalIncome += annualRent / 12;
+    // Assess land tax on holdings at the start of each calendar year, and on a property
+    // in the month it first becomes held until the next January
+    let landTaxAssessments: LandTaxAssessment[] = [];
+    const isNewYear = month === 1 || currentDate.getMonth() === 0;
+    const newlyHeldIds = plan.properties
+      .filter(property => isPropertyHeld(property, currentDate) && !landTaxAssessedIds.has(property.id))
+      .map(property => property.id);
+    if (isNewYear || newlyHeldIds.length > 0) {
+      landTaxAssessments = assessLandTax(
+        plan.properties,
+        earners,
+        currentDate,
+        scenario.startDate,
+        scenario.profile.stateCode,
+        market
+      ).filter(assessment => isNewYear || newlyHeldIds.includes(assessment.propertyId));
+      for (const assessment of landTaxAssessments) {
+        annualLandTax[assessment.propertyId] = assessment.landTax;
+      }
+      newlyHeldIds.forEach(id => landTaxAssessedIds.add(id));
     }
     
-    const totalIncome = adjustedSalary + totalRentalIncome;
-    
-    // Calculate property expenses
+    // Resolve each property's status, then rent (investments only) and holding costs (while owned)
+    const propertyStatuses: Record<string, PropertyStatus> = {};
+    const propertyRent: Record<string, number> = {};
+    const propertyCosts: Record<string, number> = {};
+    let totalRentalIncome = 0;
     let totalPropertyExpenses = 0;
-    for (const property of scenario.properties) {
+    for (const property of plan.properties) {
+      propertyStatuses[property.id] = getPropertyStatus(property, currentDate);
+      propertyRent[property.id] = 0;
+      propertyCosts[property.id] = 0;
+      if (!isPropertyHeld(property, currentDate)) continue;
+      
+      const weeksPerYear = 52 - property.vacancyWeeksPa;
+      const annualRent = property.rentPwCents * weeksPerYear;
+      
       const annualExpenses = property.costsFixedPaCents + 
         property.strataPaCents +
         property.ratesPaCents +
         property.insurancePaCents +
-        property.landTaxPaCents;
+        (annualLandTax[property.id] ?? property.landTaxPaCents);
       
-      const maintenanceExpenses = property.valueNowCents * 
-        Math.pow(1 + property.valueGrowthPa, yearsFromStart) *
+      const maintenanceExpenses = getPropertyValue(property, currentDate, scenario.startDate, market) *
         property.maintenancePctOfValue;
-        
-      totalPropertyExpenses += (annualExpenses + maintenanceExpenses) / 12;
+      
+      propertyRent[property.id] = propertyStatuses[property.id] === 'investment' ? annualRent / 12 : 0;
+      propertyCosts[property.id] = (annualExpenses + maintenanceExpenses) / 12;
+      totalRentalIncome += propertyRent[property.id];
+      totalPropertyExpenses += propertyCosts[property.id];
     }
     
-    // Calculate loan payments (simplified)
+    // Calculate total property values
+    let totalPropertyValues = 0;
+    const propertyValues: Record<string, number> = {};
+    for (const property of plan.properties) {
+      if (!isPropertyHeld(property, currentDate)) continue;
+      propertyValues[property.id] = getPropertyValue(property, currentDate, scenario.startDate, market);
+      totalPropertyValues += propertyValues[property.id];
+    }
+    
+    // Step each active loan through this calendar month, offset by its accounts' balances
+    // Loans whose only security is sold this month are repaid at settlement instead
+    // Interest on cross-collateralised loans is split across their properties by value
+    // Only the part borrowed for investment, or for a property now rented out, is deductible
+    applyOffsets(
+      offsetAccounts,
+      balances.offsetBalances,
+      plan.loans.map((loan, index) => ({ loan, state: plan.loanStates[index] })),
+      currentDate
+    );
+    const activeLoans: Record<string, ActiveLoan> = {};
+    const propertyInterest: Record<string, number> = {};
+    const propertyDeductibleInterest: Record<string, number> = {};
+    const deductibleInterest: Record<string, number> = {};
+    const rentedPropertyIds = Object.keys(propertyStatuses).filter(id => propertyStatuses[id] === 'investment');
+    const offsetInterestSaved: Record<string, number> = {};
     let totalLoanPayments = 0;
-    for (const loan of scenario.loans) {
-      const schedule = calculateLoanSchedule(loan, Math.min(month, loan.termYears * 12));
-      if (schedule.months[month - 1]) {
-        totalLoanPayments += schedule.months[month - 1].totalPayment;
+    plan.loans.forEach((loan, index) => {
+      const state = plan.loanStates[index];
+      if (monthsBetween(loan.startDate, currentDate) < 0 || state.balance <= 0) return;
+      const securities = getSecurityPropertyIds(loan);
+      if (securities.length > 0 && securities.every(id => propertyStatuses[id] === 'sold')) return;
+      
+      const loanMonth = stepLoanMonth(loan, state);
+      activeLoans[loan.id] = { loan, state, loanMonth };
+      if (loanMonth.offsetInterestSaved > 0) {
+        offsetInterestSaved[loan.id] = loanMonth.offsetInterestSaved;
+      }
+      for (const [propertyId, interest] of Object.entries(
+        splitAcrossSecurity(loan, loanMonth.interestCharged, propertyValues)
+      )) {
+        propertyInterest[propertyId] = (propertyInterest[propertyId] || 0) + interest;
+      }
+      for (const [propertyId, interest] of Object.entries(
+        splitDeductibleInterest(loan, state, loanMonth.interestCharged, propertyValues, rentedPropertyIds)
+      )) {
+        propertyDeductibleInterest[propertyId] = (propertyDeductibleInterest[propertyId] || 0) + interest;
+        deductibleInterest[loan.id] = (deductibleInterest[loan.id] || 0) + interest;
+      }
+      
+      // Redraws this month change how next month's interest splits
+      totalLoanPayments += loanMonth.totalPayment + applyPlannedPrepayments(loan, state, loanMonth);
+    });
+    
+    // Tax each earner on their own salary, rent share and deductions
+    // Holding costs and depreciation are only deductible while rented out; interest by its loan's use
+    const personIncomes: PersonIncome[] = [];
+    for (const person of earners) {
+      const salary = person.salaryCurrentCents *
+        Math.pow(1 + person.salaryGrowthPa, yearsFromStart) / 12;
+      
+      let rentalIncome = 0;
+      let deductions = 0;
+      let interest = 0;
+      let depreciation = 0;
+      for (const property of plan.properties) {
+        const share = getOwnershipShare(property, person.id, earners);
+        interest += (propertyDeductibleInterest[property.id] || 0) * share;
+        if (propertyStatuses[property.id] !== 'investment') continue;
+        
+        rentalIncome += propertyRent[property.id] * share;
+        deductions += propertyCosts[property.id] * share;
+        depreciation += (property.depreciationCapitalPaCents + property.depreciationPlantPaCents) / 12 * share;
+      }
+      
+      personIncomes.push(calculatePersonIncome(
+        person,
+        { salary, rentalIncome, deductions, interest, depreciation },
+        getTaxpayer(person, earners, financialYear, scenario.profile.medicareLevy),
+        currentDate
+      ));
+    }
+    
+    // Assess each person's tax as the financial year closes in June, and the open year
+    // in the final month so its refund or tax owing lands within the forecast
+    const taxAssessments: TaxYearAssessment[] = [];
+    taxYears.forEach((account, index) => {
+      accrueTaxMonth(account, personIncomes[index]);
+      if (currentDate.getMonth() !== 5 && month !== totalMonths) return;
+      
+      taxAssessments.push(assessTaxYear(
+        account,
+        getTaxpayer(earners[index], earners, account.financialYear, scenario.profile.medicareLevy)
+      ));
+      const nextYear = new Date(currentDate.getFullYear(), currentDate.getMonth() + 1, 1);
+      taxYears[index] = createTaxYearAccount(account.personId, nextYear);
+    });
+    const taxRefund = taxAssessments.reduce((sum, assessment) => sum + assessment.refund, 0);
+    
+    // Settle sales falling in this month and pay the proceeds where the scenario directs
+    const saleStatements: SaleStatement[] = [];
+    let saleShortfall = 0;
+    for (const property of plan.properties) {
+      if (!property.soldOn || monthsBetween(property.soldOn, currentDate) !== 0) continue;
+      
+      const sellers = earners.map((person, index) => ({
+        personId: person.id,
+        share: getOwnershipShare(property, person.id, earners),
+        annualTaxableIncome: personIncomes[index].taxableIncome * 12,
+      }));
+      const statement = settlePropertySale(
+        plan,
+        property,
+        currentDate,
+        sellers,
+        scenario.profile.medicareLevy
+      );
+      
+      if (statement.netProceeds > 0) {
+        routeSaleProceeds(statement, saleProceedsRule, balances, plan, offsetAccounts, currentDate);
+      } else {
+        saleShortfall += statement.netProceeds;
+      }
+      saleStatements.push(statement);
+    }
+    
+    const grossSalary = personIncomes.reduce((sum, p) => sum + p.salary, 0);
+    const incomeTax = personIncomes.reduce((sum, p) => sum + p.incomeTax + p.medicareLevy, 0);
+    const adjustedSalary = grossSalary - incomeTax;
+    const totalIncome = adjustedSalary + totalRentalIncome;
+    
+    // Grow each asset and pay its regular contribution out of cashflow
+    let totalAssetContributions = 0;
+    let cashAssets = 0;
+    let superAssets = 0;
+    let investmentAssets = 0;
+    for (const asset of scenario.assets) {
+      const shock = asset.assetType === 'cash' ? 0
+        : asset.assetType === 'super' ? shocks.superReturn
+        : shocks.sharesReturn;
+      assetBalances[asset.id] = assetBalances[asset.id] * (1 + (asset.growthRatePa + shock) / 12) +
+        asset.contributionMonthlyCents;
+      totalAssetContributions += asset.contributionMonthlyCents;
+      
+      if (asset.assetType === 'cash') {
+        cashAssets += assetBalances[asset.id];
+      } else if (asset.assetType === 'super') {
+        superAssets += assetBalances[asset.id];
+      } else {
+        investmentAssets += assetBalances[asset.id];
       }
     }
     
     // Adjust living expenses for inflation
-    const adjustedLivingExpenses = monthlyLivingExpenses * 
-      Math.pow(1 + scenario.profile.inflationCpiPa, yearsFromStart);
+    const priceIndex = Math.pow(1 + scenario.profile.inflationCpiPa, yearsFromStart) *
+      getInflationIndex(market, currentDate);
+    const adjustedLivingExpenses = monthlyLivingExpenses * priceIndex;
     
-    const totalExpenses = adjustedLivingExpenses + totalPropertyExpenses + totalLoanPayments;
-    const netCashflow = totalIncome - totalExpenses;
+    const crashPadRent = plan.crashPadRentPwCents * 52 / 12;
     
-    // Update cash buffer
-    cashBuffer += netCashflow;
+    const totalExpenses = adjustedLivingExpenses + crashPadRent + totalPropertyExpenses +
+      totalLoanPayments + totalAssetContributions;
+    const netCashflow = totalIncome - totalExpenses + eventMonth.cashflow + saleShortfall + taxRefund;
     
-    // Update super balance
-    superBalance *= (1 + scenario.profile.returnSuperPa / 12);
+    // Grow the portfolio before this month's new investment
+    balances.portfolioBalance *= (1 + (scenario.profile.returnPortfolioPa + shocks.sharesReturn) / 12);
     
-    // Calculate total property values
-    let totalPropertyValues = 0;
-    for (const property of scenario.properties) {
-      totalPropertyValues += property.valueNowCents * 
-        Math.pow(1 + property.valueGrowthPa, yearsFromStart);
+    // Route surplus through the allocation waterfall; fund shortfalls in the scenario's order
+    let surplusAllocations: SurplusAllocation[] = [];
+    let deficitDrawdowns: DeficitDrawdown[] = [];
+    let shortfall = 0;
+    let salarySacrifice: Record<string, number> = {};
+    if (netCashflow > 0) {
+      const superRoom: SuperRoom[] = earners.map((person, index) => {
+        syncFinancialYear(superAccounts[index], currentDate);
+        const income = personIncomes[index];
+        const sgContribution = calculateSuperGuarantee(income.salary, currentDate);
+        const marginalRate = getMarginalTaxRate(income.taxableIncome * 12, financialYear) +
+          scenario.profile.medicareLevy;
+        
+        return {
+          personId: person.id,
+          roomCents: Math.max(0, getAvailableConcessionalCap(superAccounts[index]) - sgContribution),
+          afterTaxCostRate: 1 - marginalRate,
+        };
+      });
+      
+      const result = allocateSurplus(netCashflow, allocationSteps, balances, activeLoans, offsetAccounts, superRoom);
+      surplusAllocations = result.allocations;
+      salarySacrifice = result.salarySacrifice;
+    } else if (netCashflow < 0) {
+      // Portfolio gains are taxed at the highest earner's marginal rate
+      const marginalRate = Math.max(...personIncomes.map(income =>
+        getMarginalTaxRate(income.taxableIncome * 12, financialYear)
+      )) + scenario.profile.medicareLevy;
+      
+      const result = fundDeficit(-netCashflow, deficitSources, balances, activeLoans, marginalRate);
+      deficitDrawdowns = result.drawdowns;
+      shortfall = result.shortfall;
+      cumulativeShortfall += shortfall;
     }
     
-    // Calculate total debt
-    let totalDebt = 0;
-    for (const loan of scenario.loans) {
-      const schedule = calculateLoanSchedule(loan, Math.min(month, loan.termYears * 12));
-      if (schedule.months[month - 1]) {
-        totalDebt += schedule.months[month - 1].endingBalance;
+    // Update each person's super with SG contributions, earnings, taxes and fees
+    const superBalances: SuperMonth[] = earners.map((person, index) => applySuperMonth(
+      superAccounts[index],
+      person,
+      {
+        salary: personIncomes[index].salary,
+        salarySacrifice: salarySacrifice[person.id] || 0,
+        nonConcessional: eventMonth.superTopups[person.id] || 0,
+      },
+      currentDate,
+      scenario.profile.returnSuperPa + shocks.superReturn
+    ));
+    
+    // Top-ups refused by the non-concessional cap are returned to cash
+    superBalances.forEach(s => {
+      balances.cashBuffer += Math.max(0, (eventMonth.superTopups[s.personId] || 0) - s.nonConcessional);
+    });
+    const superBalance = superBalances.reduce((sum, s) => sum + s.balance, 0);
+    const superAccessible = superBalances
+      .filter(s => s.isAccessible)
+      .reduce((sum, s) => sum + s.balance, 0);
+    
+    // Offset savings return to cash once every loan they offset is repaid
+    let offsetBalance = 0;
+    for (const account of offsetAccounts) {
+      const linked = plan.loanStates.filter((_, index) => account.loanIds.includes(plan.loans[index].id));
+      if (linked.length > 0 && linked.every(state => state.balance <= 0) && balances.offsetBalances[account.id]) {
+        balances.cashBuffer += balances.offsetBalances[account.id];
+        balances.offsetBalances[account.id] = 0;
       }
+      offsetBalance += balances.offsetBalances[account.id] || 0;
     }
     
-    const totalAssets = totalPropertyValues + superBalance + portfolioBalance + cashBuffer;
-    const netWorth = totalAssets - totalDebt;
+    // Calculate total debt of loans still running
+    let totalDebt = 0;
+    const loanPositions: LoanPosition[] = [];
+    const propertyDebts: Record<string, number> = {};
+    plan.loans.forEach((loan, index) => {
+      if (monthsBetween(loan.startDate, currentDate) < 0) return;
+      
+      totalDebt += plan.loanStates[index].balance;
+      
+      if (plan.loanStates[index].balance > 0) {
+        for (const [propertyId, debt] of Object.entries(
+          splitAcrossSecurity(loan, plan.loanStates[index].balance, propertyValues)
+        )) {
+          propertyDebts[propertyId] = (propertyDebts[propertyId] || 0) + debt;
+        }
+        loanPositions.push({
+          loanId: loan.id,
+          propertyId: loan.propertyId,
+          balance: plan.loanStates[index].balance,
+          annualRate: getBlendedRate(loan, plan.loanStates[index], currentDate),
+          remainingMonths: Math.max(0, loan.termYears * 12 - plan.loanStates[index].month + 1),
+          purposeBalances: { ...getPurposeBalances(loan, plan.loanStates[index]) },
+        });
+      }
+    });
+    
+    const totalCash = balances.cashBuffer + cashAssets;
+    const totalSuper = superBalance + superAssets;
+    const totalPortfolio = balances.portfolioBalance + investmentAssets;
+    const totalAssets = totalPropertyValues + totalSuper + totalPortfolio + totalCash + offsetBalance;
+    const netWorth = totalAssets - totalDebt - cumulativeShortfall;
     const netWorthPresentValue = calculatePresentValue(
-      netWorth,
+      netWorth / getInflationIndex(market, currentDate),
       scenario.profile.inflationCpiPa,
       yearsFromStart
     );
@@ -243,29 +723,108 @@ export function runForecast(scenario: Scenario): ForecastMonth[] {
     forecast.push({
       month,
       date: currentDate,
+      grossSalary,
+      incomeTax,
       salaryAfterTax: adjustedSalary,
       rentalIncome: totalRentalIncome,
       totalIncome,
       livingExpenses: adjustedLivingExpenses,
+      crashPadRent,
       propertyExpenses: totalPropertyExpenses,
       loanPayments: totalLoanPayments,
+      assetContributions: totalAssetContributions,
       totalExpenses,
+      eventCashflow: eventMonth.cashflow,
+      saleShortfall,
+      taxRefund,
       netCashflow,
-      cashBuffer,
+      cashBuffer: totalCash,
+      surplusAllocations,
+      deficitDrawdowns,
+      shortfall,
+      cumulativeShortfall,
+      isInsolvent: shortfall > 0,
       propertyValues: totalPropertyValues,
-      superBalance,
-      portfolioBalance,
+      superBalance: totalSuper,
+      superAccessible,
+      portfolioBalance: totalPortfolio,
+      offsetBalance,
+      assetBalances: { ...assetBalances },
       totalAssets,
       totalDebt,
+      loanPositions,
+      propertyDebts,
+      propertyLvrs: getPropertyLvrs(propertyValues, propertyDebts),
+      propertyInterest,
+      deductibleInterest,
+      lmiPremiums: eventMonth.lmiPremiums,
+      refinances: eventMonth.refinances,
+      offsetInterestSaved,
       netWorth,
       netWorthPresentValue,
       passiveIncomeCapacity,
+      planEvents: eventMonth.applied,
+      propertyStatuses,
+      saleStatements,
+      landTaxAssessments,
+      personIncomes,
+      taxAssessments,
+      superBalances,
     });
   }
   
   return forecast;
 }
 
+/**
+ * Summarise months where the deficit funding order ran out of sources
+ * @param forecast - Complete monthly forecast
+ * @returns First insolvent month, number of insolvent months and total unfunded shortfall
+ */
+export function getInsolvencySummary(forecast: ForecastMonth[]): InsolvencySummary {
+  const insolventMonths = forecast.filter(month => month.isInsolvent);
+  
+  return {
+    firstInsolventDate: insolventMonths[0]?.date,
+    insolventMonths: insolventMonths.length,
+    cumulativeShortfall: forecast[forecast.length - 1]?.cumulativeShortfall || 0,
+  };
+}
+
+/**
+ * Project what the owners walk away with if a property is sold on a given date
+ * Runs the forecast up to the sale so debt, tax position and prior events are all reflected
+ * @param scenario - The scenario to project
+ * @param propertyId - Property to sell
+ * @param saleDate - Settlement date
+ * @returns Sale statement, or undefined if the property is not held on that date
+ */
+export function projectSale(
+  scenario: Scenario,
+  propertyId: string,
+  saleDate: Date
+): SaleStatement | undefined {
+  const monthsToSale = monthsBetween(scenario.startDate, saleDate);
+  if (monthsToSale < 0) return undefined;
+  
+  const forecast = runForecast({
+    ...scenario,
+    horizonYears: Math.ceil((monthsToSale + 1) / 12),
+    planEvents: [
+      ...(scenario.planEvents || []),
+      {
+        id: `projected-sale-${propertyId}`,
+        scenarioId: scenario.id,
+        date: saleDate,
+        kind: 'sell',
+        meta: { propertyId },
+      },
+    ],
+  });
+  
+  return forecast[monthsToSale]?.saleStatements.find(statement => statement.propertyId === propertyId);
+}
+
 /**
  * Generate forecast summary at key milestones
  * @param forecast - Complete monthly forecast
@@ -305,15 +864,46 @@ export function generateSummary(
 export function applyStressTest(scenario: Scenario): Scenario {
   return {
     ...scenario,
+    // Fixed rates are locked in; variable rates and the cash rate path take the bump
     loans: scenario.loans.map(loan => ({
       ...loan,
       annualRate: loan.annualRate + (scenario.stressRateBumpPct / 100),
+      rateChanges: loan.rateChanges?.map(change => ({
+        ...change,
+        annualRate: change.annualRate + (scenario.stressRateBumpPct / 100),
+      })),
+    })),
+    cashRatePath: scenario.cashRatePath?.map(change => ({
+      ...change,
+      annualRate: change.annualRate + (scenario.stressRateBumpPct / 100),
     })),
     properties: scenario.properties.map(property => ({
       ...property,
       valueGrowthPa: property.valueGrowthPa - (scenario.stressGrowthHaircutPct / 100),
       vacancyWeeksPa: Math.max(property.vacancyWeeksPa, scenario.stressVacancyWeeks),
     })),
+    planEvents: scenario.planEvents?.map(event => {
+      if (event.kind === 'buy') {
+        return {
+          ...event,
+          meta: {
+            ...event.meta,
+            annualRate: (event.meta.annualRate ?? DEFAULT_PURCHASE.INTEREST_RATE) + (scenario.stressRateBumpPct / 100),
+            valueGrowthPa: (event.meta.valueGrowthPa ?? DEFAULT_PURCHASE.VALUE_GROWTH_PA) - (scenario.stressGrowthHaircutPct / 100),
+          },
+        };
+      }
+      
+      // Refinances without a new rate keep the loan's already stressed rate
+      if (event.kind === 'refinance' && event.meta.annualRate !== undefined) {
+        return {
+          ...event,
+          meta: { ...event.meta, annualRate: event.meta.annualRate + (scenario.stressRateBumpPct / 100) },
+        };
+      }
+      
+      return event;
+    }),
   };
 }
 
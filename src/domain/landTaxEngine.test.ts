@@ -0,0 +1,123 @@
+import { describe, expect, it } from 'vitest';
+import { assessLandTax, calculateLandTax, getLandValue } from './landTaxEngine';
+import type { Person, Property } from './forecastEngine';
+
+const startDate = new Date('2026-01-01');
+
+const owner: Person = {
+  id: 'owner',
+  scenarioId: 'scenario',
+  name: 'Owner',
+  salaryCurrentCents: 10000000,
+  salaryGrowthPa: 0.03,
+  superCurrentCents: 0,
+  isPrimary: true,
+};
+
+const rental = (id: string, landValueCents: number, overrides: Partial<Property> = {}): Property => ({
+  id,
+  name: id,
+  purchasePriceCents: 100000000,
+  purchaseDate: new Date('2020-01-01'),
+  valueNowCents: 100000000,
+  valueGrowthPa: 0,
+  costsFixedPaCents: 0,
+  maintenancePctOfValue: 0,
+  strataPaCents: 0,
+  ratesPaCents: 0,
+  insurancePaCents: 0,
+  landTaxPaCents: 0,
+  landValueCents,
+  rentPwCents: 60000,
+  vacancyWeeksPa: 0,
+  depreciationCapitalPaCents: 0,
+  depreciationPlantPaCents: 0,
+  stateCode: 'NSW',
+  ...overrides,
+});
+
+describe('calculateLandTax', () => {
+  it('charges nothing below the NSW threshold', () => {
+    expect(calculateLandTax(100000000, 'NSW', false)).toBe(0);
+  });
+
+  it('charges $100 plus 1.6% above the NSW threshold', () => {
+    expect(calculateLandTax(150000000, 'NSW', false)).toBe(690000);
+  });
+
+  it('gives NSW trusts no tax-free threshold', () => {
+    expect(calculateLandTax(50000000, 'NSW', true)).toBe(800000);
+  });
+
+  it('adds the Victorian trust surcharge to the general rates', () => {
+    // $1,350 plus 0.3% over $300,000, and 0.375% of the value over $25,000
+    expect(calculateLandTax(50000000, 'VIC', true)).toBe(373125);
+  });
+
+  it('charges nothing in the Northern Territory', () => {
+    expect(calculateLandTax(500000000, 'NT', false)).toBe(0);
+  });
+});
+
+describe('getLandValue', () => {
+  it('indexes land at the property growth rate from the forecast start', () => {
+    const property = rental('a', 50000000, { valueGrowthPa: 0.05 });
+
+    expect(getLandValue(property, new Date('2028-01-01'), startDate)).toBeCloseTo(55125000);
+  });
+
+  it('values land bought after the start from the purchase date', () => {
+    const property = rental('a', 50000000, { valueGrowthPa: 0.05, purchaseDate: new Date('2027-01-01') });
+
+    expect(getLandValue(property, new Date('2028-01-01'), startDate)).toBeCloseTo(52500000);
+  });
+});
+
+describe('assessLandTax', () => {
+  it("adds an owner's land in a state together and shares the tax by land value", () => {
+    const assessments = assessLandTax(
+      [rental('a', 80000000), rental('b', 70000000)],
+      [owner],
+      startDate,
+      startDate,
+      'NSW'
+    );
+
+    // Each is under the threshold alone; together $1.5m owes $6,900
+    expect(assessments.map(a => a.landTax)).toEqual([368000, 322000]);
+  });
+
+  it('exempts the home and leaves it out of the aggregate', () => {
+    const home = rental('home', 80000000, { rentPwCents: 0 });
+    const assessments = assessLandTax([home, rental('b', 70000000)], [owner], startDate, startDate, 'NSW');
+
+    expect(assessments[0].isExempt).toBe(true);
+    expect(assessments.map(a => a.landTax)).toEqual([0, 0]);
+  });
+
+  it('splits land between owners by their shares', () => {
+    const partner: Person = { ...owner, id: 'partner', name: 'Partner', isPrimary: false };
+    const [assessment] = assessLandTax(
+      [rental('a', 300000000)],
+      [owner, partner],
+      startDate,
+      startDate,
+      'NSW'
+    );
+
+    // Each owner holds $1.5m, owing $6,900
+    expect(assessment.landTax).toBe(1380000);
+  });
+
+  it('skips properties without a land value or not yet held', () => {
+    const assessments = assessLandTax(
+      [rental('a', 0), rental('b', 70000000, { purchaseDate: new Date('2027-01-01') })],
+      [owner],
+      startDate,
+      startDate,
+      'NSW'
+    );
+
+    expect(assessments).toEqual([]);
+  });
+});
@@ -0,0 +1,267 @@
+/**
+ * Land Tax Engine - Annual land tax on each owner's holdings in each state
+ * Schedules are in dollars as published by each revenue office; results are in cents
+ */
+
+import { monthsBetween } from './loanEngine';
+import { getPropertyIndex, type MarketPath } from './marketEngine';
+import { getPropertyStatus, isPropertyHeld } from './propertyEngine';
+import { getOwnershipShare } from './taxEngine';
+import type { Person, Property } from './forecastEngine';
+
+export interface LandTaxBracket {
+  min: number; // Taxable land value the bracket starts at ($)
+  base: number; // Tax on the value up to min ($)
+  rate: number; // Rate on the value above min
+}
+
+interface StateLandTaxRules {
+  brackets: LandTaxBracket[]; // Individual owners; tax-free threshold is the first bracket's min
+  aggregated: boolean; // Whether an owner's holdings in the state are added together
+  // Trusts pay their own brackets where the state has them, otherwise the general brackets,
+  // plus any surcharge on land value above the surcharge threshold
+  trust?: {
+    brackets?: LandTaxBracket[];
+    surchargeRate?: number;
+    surchargeThreshold?: number;
+  };
+}
+
+export interface LandTaxAssessment {
+  propertyId: string;
+  year: number; // Calendar year the tax is levied for
+  stateCode: string;
+  landValue: number;
+  isExempt: boolean; // Owners' home on the assessment date
+  landTax: number;
+}
+
+// One owner's taxable land in one state
+interface OwnerHolding {
+  stateCode: string;
+  isTrust: boolean;
+  total: number;
+  parts: { assessment: LandTaxAssessment; value: number }[];
+}
+
+// Owner id for properties held in trust; all trust holdings are assessed together
+export const TRUST_OWNER_ID = 'trust';
+
+// Land tax rules by state, 2025 land tax year
+export const LAND_TAX_RULES: Record<string, StateLandTaxRules> = {
+  NSW: {
+    brackets: [
+      { min: 1075000, base: 100, rate: 0.016 },
+      { min: 6571000, base: 88036, rate: 0.02 }, // Premium threshold
+    ],
+    aggregated: true,
+    // Special trusts get no tax-free threshold
+    trust: {
+      brackets: [
+        { min: 0, base: 0, rate: 0.016 },
+        { min: 6571000, base: 105136, rate: 0.02 },
+      ],
+    },
+  },
+  VIC: {
+    brackets: [
+      { min: 50000, base: 500, rate: 0 },
+      { min: 100000, base: 975, rate: 0 },
+      { min: 300000, base: 1350, rate: 0.003 },
+      { min: 600000, base: 2250, rate: 0.006 },
+      { min: 1000000, base: 4650, rate: 0.009 },
+      { min: 1800000, base: 11850, rate: 0.0165 },
+      { min: 3000000, base: 31650, rate: 0.0265 },
+    ],
+    aggregated: true,
+    trust: { surchargeRate: 0.00375, surchargeThreshold: 25000 },
+  },
+  QLD: {
+    brackets: [
+      { min: 600000, base: 500, rate: 0.01 },
+      { min: 1000000, base: 4500, rate: 0.0165 },
+      { min: 3000000, base: 37500, rate: 0.0125 },
+      { min: 5000000, base: 62500, rate: 0.0175 },
+      { min: 10000000, base: 150000, rate: 0.0225 },
+    ],
+    aggregated: true,
+    // Company and trustee rates
+    trust: {
+      brackets: [
+        { min: 350000, base: 1450, rate: 0.017 },
+        { min: 2100000, base: 31200, rate: 0.015 },
+        { min: 5000000, base: 74700, rate: 0.02 },
+        { min: 10000000, base: 174700, rate: 0.025 },
+      ],
+    },
+  },
+  WA: {
+    brackets: [
+      { min: 300000, base: 300, rate: 0 },
+      { min: 420000, base: 300, rate: 0.0025 },
+      { min: 1000000, base: 1750, rate: 0.009 },
+      { min: 1800000, base: 8950, rate: 0.018 },
+      { min: 5000000, base: 66550, rate: 0.02 },
+      { min: 11000000, base: 186550, rate: 0.0267 },
+    ],
+    aggregated: true,
+  },
+  SA: {
+    brackets: [
+      { min: 833000, base: 0, rate: 0.01 },
+      { min: 1350000, base: 5170, rate: 0.024 },
+    ],
+    aggregated: true,
+    trust: { surchargeRate: 0.005, surchargeThreshold: 25000 },
+  },
+  TAS: {
+    brackets: [
+      { min: 125000, base: 50, rate: 0.0045 },
+      { min: 500000, base: 1737.5, rate: 0.015 },
+    ],
+    aggregated: true,
+  },
+  ACT: {
+    // Levied on each rented property separately: a fixed charge plus rates on the land value
+    brackets: [
+      { min: 0, base: 1650, rate: 0.0054 },
+      { min: 150000, base: 2460, rate: 0.0064 },
+      { min: 275000, base: 3260, rate: 0.0112 },
+      { min: 2000000, base: 22580, rate: 0.0114 },
+    ],
+    aggregated: false,
+  },
+  NT: {
+    // No land tax
+    brackets: [],
+    aggregated: true,
+  },
+};
+
+// Unknown state codes are assessed on the NSW rules
+const DEFAULT_STATE_CODE = 'NSW';
+
+/**
+ * Calculate tax from a bracketed schedule
+ * @param value - Taxable land value in dollars
+ * @param brackets - Brackets in ascending order of min
+ * @returns Tax in dollars
+ */
+function taxFromBrackets(value: number, brackets: LandTaxBracket[]): number {
+  const bracket = [...brackets].reverse().find(b => value > b.min);
+  return bracket ? bracket.base + (value - bracket.min) * bracket.rate : 0;
+}
+
+/**
+ * Calculate land tax on an owner's total land value in a state
+ * @param landValueCents - Taxable land value in cents (the owner's aggregate where the state aggregates)
+ * @param stateCode - State the land is in
+ * @param isTrust - Whether the owner is a trust
+ * @returns Land tax for the year in cents
+ */
+export function calculateLandTax(landValueCents: number, stateCode: string, isTrust: boolean): number {
+  const rules = LAND_TAX_RULES[stateCode] || LAND_TAX_RULES[DEFAULT_STATE_CODE];
+  const value = landValueCents / 100;
+
+  let tax = taxFromBrackets(value, isTrust && rules.trust?.brackets ? rules.trust.brackets : rules.brackets);
+  if (isTrust && rules.trust?.surchargeRate) {
+    tax += Math.max(0, value - (rules.trust.surchargeThreshold || 0)) * rules.trust.surchargeRate;
+  }
+
+  return Math.round(tax * 100);
+}
+
+/**
+ * Get a property's land value in a calendar month
+ * Land is indexed at the property's growth rate; properties bought after the forecast
+ * starts have their land value recorded as at purchase
+ * @param property - Property with a land value
+ * @param date - Month being projected
+ * @param startDate - Forecast start date, when landValueCents applies
+ * @param market - Simulated market path, which moves land with property values
+ * @returns Land value in cents
+ */
+export function getLandValue(property: Property, date: Date, startDate: Date, market?: MarketPath): number {
+  const valuedOn = monthsBetween(startDate, property.purchaseDate) > 0 ? property.purchaseDate : startDate;
+  const years = Math.max(0, monthsBetween(valuedOn, date) / 12);
+  return (property.landValueCents || 0) * Math.pow(1 + property.valueGrowthPa, years) *
+    getPropertyIndex(market, valuedOn, date);
+}
+
+/**
+ * Assess a calendar year's land tax across every property the household holds
+ * Each owner's share of taxable land is added up per state, taxed against that state's
+ * thresholds, and the tax is shared back across the properties that made it up
+ * @param properties - All properties in the plan
+ * @param earners - Household earners, who own properties not held in trust
+ * @param date - Assessment date, whose holdings and use count for the year
+ * @param startDate - Forecast start date
+ * @param defaultStateCode - State for properties that do not record one
+ * @param market - Simulated market path moving land values
+ * @returns One assessment per held property with a land value
+ */
+export function assessLandTax(
+  properties: Property[],
+  earners: Person[],
+  date: Date,
+  startDate: Date,
+  defaultStateCode: string,
+  market?: MarketPath
+): LandTaxAssessment[] {
+  const assessments: LandTaxAssessment[] = [];
+  const holdings: Record<string, OwnerHolding> = {};
+
+  for (const property of properties) {
+    if (!property.landValueCents || !isPropertyHeld(property, date)) continue;
+
+    const stateCode = LAND_TAX_RULES[property.stateCode || defaultStateCode]
+      ? property.stateCode || defaultStateCode
+      : DEFAULT_STATE_CODE;
+    const assessment: LandTaxAssessment = {
+      propertyId: property.id,
+      year: date.getFullYear(),
+      stateCode,
+      landValue: Math.round(getLandValue(property, date, startDate, market)),
+      isExempt: getPropertyStatus(property, date) === 'ppor',
+      landTax: 0,
+    };
+    assessments.push(assessment);
+    if (assessment.isExempt) continue;
+
+    const owners = property.ownedByTrust
+      ? [{ ownerId: TRUST_OWNER_ID, share: 1 }]
+      : earners.map(person => ({ ownerId: person.id, share: getOwnershipShare(property, person.id, earners) }));
+
+    for (const owner of owners) {
+      if (owner.share <= 0) continue;
+
+      const value = assessment.landValue * owner.share;
+      const isTrust = owner.ownerId === TRUST_OWNER_ID;
+
+      // States that do not aggregate tax each property on its own
+      if (!LAND_TAX_RULES[stateCode].aggregated) {
+        assessment.landTax += calculateLandTax(assessment.landValue, stateCode, isTrust) * owner.share;
+        continue;
+      }
+
+      const key = `${owner.ownerId}:${stateCode}`;
+      holdings[key] = holdings[key] || { stateCode, isTrust, total: 0, parts: [] };
+      holdings[key].total += value;
+      holdings[key].parts.push({ assessment, value });
+    }
+  }
+
+  // Share each owner's tax across their properties by land value
+  for (const holding of Object.values(holdings)) {
+    const tax = calculateLandTax(holding.total, holding.stateCode, holding.isTrust);
+    for (const part of holding.parts) {
+      part.assessment.landTax += holding.total > 0 ? tax * part.value / holding.total : 0;
+    }
+  }
+
+  for (const assessment of assessments) {
+    assessment.landTax = Math.round(assessment.landTax);
+  }
+
+  return assessments;
+}
@@ -0,0 +1,157 @@
+import { describe, expect, it } from 'vitest';
+import {
+  calculateLoanSchedule,
+  createLoanState,
+  getMonthlyPayment,
+  getScheduleMonthAt,
+  getSecurityPropertyIds,
+  getVariableRate,
+  monthsBetween,
+  removeSecurity,
+  splitAcrossSecurity,
+  stepLoanMonth,
+  type LoanDetails,
+} from './loanEngine';
+
+const loan: LoanDetails = {
+  id: 'loan',
+  propertyId: 'home',
+  startDate: new Date('2026-01-01'),
+  startBalanceCents: 50000000,
+  annualRate: 0.06,
+  ioYears: 0,
+  termYears: 30,
+  offsetStartCents: 0,
+  offsetContribMonthlyCents: 0,
+  allowRedraw: true,
+};
+
+describe('monthsBetween', () => {
+  it('counts calendar months, negative when the end is earlier', () => {
+    expect(monthsBetween(new Date('2026-01-15'), new Date('2027-03-01'))).toBe(14);
+    expect(monthsBetween(new Date('2027-03-01'), new Date('2026-01-15'))).toBe(-14);
+  });
+});
+
+describe('calculateLoanSchedule', () => {
+  it('repays a principal and interest loan over its term', () => {
+    const schedule = calculateLoanSchedule(loan);
+
+    expect(schedule.months[0].totalPayment).toBe(299775);
+    expect(schedule.months[0].interestCharged).toBe(250000);
+    expect(schedule.months).toHaveLength(360);
+    expect(schedule.months[359].endingBalance).toBeLessThanOrEqual(0);
+    expect(schedule.payoffDate).toEqual(schedule.months[359].date);
+  });
+
+  it('charges interest only during the interest-only period, then repays over the rest of the term', () => {
+    const schedule = calculateLoanSchedule({ ...loan, ioYears: 2 });
+
+    expect(schedule.months[23].isInterestOnly).toBe(true);
+    expect(schedule.months[23].totalPayment).toBe(250000);
+    expect(schedule.months[23].endingBalance).toBe(50000000);
+    // Principal and interest over the 28 years left
+    expect(schedule.months[24].totalPayment).toBe(307562);
+    expect(schedule.months).toHaveLength(360);
+  });
+
+  it('charges interest on the balance less the offset', () => {
+    const [first] = calculateLoanSchedule({ ...loan, offsetStartCents: 10000000 }).months;
+
+    expect(first.interestCharged).toBe(200000);
+    expect(first.offsetInterestSaved).toBe(50000);
+  });
+
+  it('finishes early and records the interest saved by extra repayments', () => {
+    const schedule = calculateLoanSchedule({ ...loan, extraMonthlyCents: 100000, prepaymentMode: 'keep_payment' });
+
+    expect(schedule.months.length).toBeLessThan(360);
+    expect(schedule.months[0].extraPayment).toBe(100000);
+    expect(schedule.totalExtraPayments).toBe(schedule.months.reduce((sum, month) => sum + month.extraPayment, 0));
+    expect(schedule.interestSaved).toBeGreaterThan(0);
+  });
+
+  it('charges the fixed rate on the fixed portion until the fixed period ends', () => {
+    const schedule = calculateLoanSchedule({ ...loan, fixedRatePa: 0.05, fixedYears: 2, fixedPortionPct: 0.5 });
+
+    expect(schedule.months[0].interestCharged).toBe(104167 + 125000);
+    expect(schedule.months[0].annualRate).toBeCloseTo(0.055);
+    expect(schedule.months[24].annualRate).toBe(0.06);
+  });
+
+  it('resets the repayment when the variable rate changes', () => {
+    const schedule = calculateLoanSchedule({
+      ...loan,
+      rateChanges: [{ date: new Date('2027-01-01'), annualRate: 0.07 }],
+    });
+
+    expect(schedule.months[11].annualRate).toBe(0.06);
+    expect(schedule.months[12].annualRate).toBe(0.07);
+    expect(schedule.months[12].totalPayment).toBeGreaterThan(schedule.months[11].totalPayment);
+  });
+});
+
+describe('getScheduleMonthAt', () => {
+  it('finds the schedule month falling in a calendar month', () => {
+    const schedule = calculateLoanSchedule(loan, 24);
+
+    expect(getScheduleMonthAt(schedule, new Date('2027-01-15'))?.month).toBe(13);
+    expect(getScheduleMonthAt(schedule, new Date('2025-12-01'))).toBeUndefined();
+    expect(getScheduleMonthAt(schedule, new Date('2029-01-01'))).toBeUndefined();
+  });
+});
+
+describe('getMonthlyPayment', () => {
+  it('spreads the balance less the offset over the remaining term', () => {
+    expect(getMonthlyPayment(loan, 1, 50000000, 0)).toBe(299775);
+    expect(getMonthlyPayment({ ...loan, ioYears: 2 }, 25, 50000000, 0)).toBe(307562);
+    expect(getMonthlyPayment({ ...loan, ioYears: 2 }, 24, 50000000, 10000000)).toBe(200000);
+  });
+});
+
+describe('getVariableRate', () => {
+  it('uses the latest rate change on or before the month', () => {
+    const changing = {
+      ...loan,
+      rateChanges: [
+        { date: new Date('2026-06-01'), annualRate: 0.065 },
+        { date: new Date('2027-06-01'), annualRate: 0.055 },
+      ],
+    };
+
+    expect(getVariableRate(changing, new Date('2026-05-01'))).toBe(0.06);
+    expect(getVariableRate(changing, new Date('2026-06-01'))).toBe(0.065);
+    expect(getVariableRate(changing, new Date('2028-01-01'))).toBe(0.055);
+  });
+});
+
+describe('security', () => {
+  const crossed = { ...loan, securityPropertyIds: ['rental', 'home'] };
+
+  it('lists the main security first without repeats', () => {
+    expect(getSecurityPropertyIds(crossed)).toEqual(['home', 'rental']);
+  });
+
+  it('splits an amount across the securities by value', () => {
+    expect(splitAcrossSecurity(crossed, 90000, { home: 200000000, rental: 100000000 })).toEqual({
+      home: 60000,
+      rental: 30000,
+    });
+  });
+
+  it('promotes the next security when the main one is released', () => {
+    expect(removeSecurity(crossed, 'home')).toMatchObject({ propertyId: 'rental', securityPropertyIds: [] });
+    expect(removeSecurity(loan, 'home')).toBeUndefined();
+  });
+});
+
+describe('stepLoanMonth', () => {
+  it('advances the loan state one month', () => {
+    const state = createLoanState(loan);
+    const month = stepLoanMonth(loan, state);
+
+    expect(month.month).toBe(1);
+    expect(state.month).toBe(2);
+    expect(state.balance).toBe(50000000 - 49775);
+  });
+});
@@ -7,9 +7,33 @@ import {
   calculateInterestOnlyPayment,
   LOAN_CONSTANTS 
 } from './constants';
+import { calculateLmiPremium } from './lvrEngine';
+
+// How scheduled repayments respond to paying ahead
+// keep_payment holds the repayment so the loan finishes early; recalculate_payment
+// re-spreads the lower balance over the rest of the term
+export type PrepaymentMode = 'keep_payment' | 'recalculate_payment';
+
+// What borrowed money was used for, which decides whether its interest is deductible
+// property follows the property it bought: private while it is the home and
+// deductible once it is rented out
+export type LoanPurpose = 'property' | 'investment' | 'private';
+
+export interface LoanTransaction {
+  date: Date;
+  amountCents: number;
+  purpose?: LoanPurpose; // Use of a redraw; private when omitted
+}
+
+export interface RateChange {
+  date: Date;
+  annualRate: number;
+}
 
 export interface LoanDetails {
   id: string;
+  propertyId?: string; // Main property securing the loan
+  securityPropertyIds?: string[]; // Further properties the loan is cross-collateralised against
   startDate: Date;
   startBalanceCents: number;
   annualRate: number;
@@ -18,6 +42,16 @@ export interface LoanDetails {
   offsetStartCents: number;
   offsetContribMonthlyCents: number;
   allowRedraw: boolean;
+  extraMonthlyCents?: number; // Recurring extra repayment
+  lumpSums?: LoanTransaction[]; // One-off extra repayments
+  redraws?: LoanTransaction[]; // Withdrawals of earlier extra repayments
+  prepaymentMode?: PrepaymentMode; // recalculate_payment when omitted
+  rateChanges?: RateChange[]; // Dated changes to the variable rate; annualRate applies until the first
+  rateMarginPa?: number; // Variable rate as a margin over the scenario's cash rate path
+  fixedRatePa?: number; // Rate during the fixed period
+  fixedYears?: number; // Fixed period from the loan start, reverting to the variable rate
+  fixedPortionPct?: number; // Share of the starting balance fixed (0-1); the whole loan when omitted
+  purpose?: LoanPurpose; // Use of the original borrowing; property when omitted
 }
 
 export interface LoanMonth {
@@ -27,107 +61,586 @@ export interface LoanMonth {
   offsetBalance: number;
   effectiveBalance: number;
   interestCharged: number;
+  offsetInterestSaved: number; // Interest the offset balance avoided this month
   principalPayment: number;
+  extraPayment: number; // Unscheduled principal repayments, not included in totalPayment
+  redrawAmount: number; // Extra repayments drawn back out of the loan
   totalPayment: number;
   endingBalance: number;
   isInterestOnly: boolean;
+  annualRate: number; // Blended rate charged this month
 }
 
 export interface LoanSchedule {
   loanId: string;
   months: LoanMonth[];
   totalInterest: number;
-  totalPayments: number;
+  totalPayments: number; // Scheduled repayments, excluding extra repayments
+  totalExtraPayments: number; // Extra repayments less redraws
+  payoffDate?: Date; // Month the balance reaches zero, if within the schedule
+  interestSaved: number; // Interest avoided by extra repayments, lump sums and redraws
+}
+
+export interface LoanState {
+  month: number; // Next loan month to be charged (1-based)
+  balance: number;
+  offsetBalance: number;
+  redrawAvailable: number; // Extra repayments that can be drawn back
+  scheduledPayment?: number; // Principal and interest repayment held under keep_payment
+  fixedBalance?: number; // Part of the balance on the fixed rate
+  variableRate?: number; // Variable rate charged last month
+  purposeBalances?: Partial<Record<LoanPurpose, number>>; // Balance split by use, as at its last change
+}
+
+export interface RefinanceTerms {
+  annualRate: number;
+  ioYears?: number;
+  termYears?: number; // Remaining term of the old loan when omitted
+  cashOutCents?: number; // Equity drawn as cash
+  cashOutPurpose?: LoanPurpose; // Use of the cash out; private when omitted
+  dischargeFeeCents?: number; // Charged by the old lender
+  establishmentFeeCents?: number; // Charged by the new lender
+  breakFeeCents?: number; // Fixed-rate break cost; estimated when omitted
+  otherCostsCents?: number; // Legal, valuation and other switching costs
+  capitaliseCosts?: boolean; // Add the costs to the new loan instead of paying them in cash
+}
+
+export interface RefinanceCosts {
+  dischargeFee: number;
+  establishmentFee: number;
+  breakFee: number;
+  otherCosts: number;
+  lmi: number; // Always added to the new loan
+  total: number;
+}
+
+export interface RefinanceResult {
+  loan: LoanDetails;
+  state: LoanState;
+  costs: RefinanceCosts;
+  cashOut: number;
+  capitalised: number; // Costs and LMI added to the new loan
+  cashflow: number; // Cash out less costs paid in cash
+}
+
+export interface RefinanceComparison {
+  loanId: string;
+  date: Date;
+  balance: number; // Balance refinanced, before cash out and costs
+  oldRate: number;
+  newRate: number;
+  oldPayment: number; // First month's scheduled repayment
+  newPayment: number;
+  oldInterest: number; // Over the comparison
+  newInterest: number;
+  costs: RefinanceCosts;
+  cashOut: number;
+  months: number; // Length of the comparison
+  netSaving: number; // Saving at the end of the comparison, after costs
+  breakEvenMonth?: number; // Months after refinancing until the saving covers the costs
+}
+
+// A running loan as at a forecast month
+export interface LoanPosition {
+  loanId: string;
+  propertyId?: string;
+  balance: number;
+  annualRate: number;
+  remainingMonths: number; // Months left in the loan term
+  purposeBalances: Partial<Record<LoanPurpose, number>>; // Balance split by what it was borrowed for
+}
+
+/**
+ * Count whole calendar months between two dates
+ * @param from - Earlier date
+ * @param to - Later date
+ * @returns Calendar months from `from` to `to` (negative if `to` is earlier)
+ */
+export function monthsBetween(from: Date, to: Date): number {
+  return (to.getFullYear() - from.getFullYear()) * LOAN_CONSTANTS.MONTHS_PER_YEAR +
+    (to.getMonth() - from.getMonth());
+}
+
+/**
+ * List the properties a loan is secured against
+ * @param loan - Loan details
+ * @returns Main security first, then any cross-collateralised properties
+ */
+export function getSecurityPropertyIds(loan: LoanDetails): string[] {
+  const ids = loan.propertyId ? [loan.propertyId] : [];
+  for (const id of loan.securityPropertyIds || []) {
+    if (!ids.includes(id)) ids.push(id);
+  }
+  return ids;
+}
+
+/**
+ * Release one property from a loan's security
+ * The next security becomes the main property when the main one is released
+ * @param loan - Loan details
+ * @param propertyId - Property to release
+ * @returns Loan secured by its remaining properties, or undefined when none remain
+ */
+export function removeSecurity(loan: LoanDetails, propertyId: string): LoanDetails | undefined {
+  const securities = getSecurityPropertyIds(loan);
+  if (!securities.includes(propertyId)) return loan;
+
+  const remaining = securities.filter(id => id !== propertyId);
+  if (remaining.length === 0) return undefined;
+
+  return { ...loan, propertyId: remaining[0], securityPropertyIds: remaining.slice(1) };
+}
+
+/**
+ * Split an amount on a loan across the properties securing it
+ * Cross-collateralised loans are split by each property's share of their combined value
+ * @param loan - Loan details
+ * @param amountCents - Balance, interest or other amount to split
+ * @param propertyValues - Value of each held property in cents
+ * @returns Amount per property; empty when none of the loan's security is held
+ */
+export function splitAcrossSecurity(
+  loan: LoanDetails,
+  amountCents: number,
+  propertyValues: Record<string, number>
+): Record<string, number> {
+  const held = getSecurityPropertyIds(loan).filter(id => propertyValues[id] !== undefined);
+  const totalValue = held.reduce((sum, id) => sum + Math.max(0, propertyValues[id]), 0);
+  const split: Record<string, number> = {};
+
+  for (const id of held) {
+    split[id] = totalValue > 0
+      ? amountCents * Math.max(0, propertyValues[id]) / totalValue
+      : amountCents / held.length;
+  }
+  return split;
+}
+
+/**
+ * Read dated loan transactions stored as JSON
+ * @param value - Array of { date, amountCents } with ISO date strings, or null
+ * @returns Transactions with parsed dates
+ */
+export function parseLoanTransactions(value: unknown): LoanTransaction[] {
+  if (!Array.isArray(value)) return [];
+
+  return value.map((t: { date: string; amountCents: number; purpose?: LoanPurpose }) => ({
+    date: new Date(t.date),
+    amountCents: t.amountCents,
+    purpose: t.purpose,
+  }));
 }
 
 /**
- * Calculate loan schedule with offset account
+ * Convert dated loan transactions to JSON for storage
+ * @param transactions - Transactions to store
+ * @returns Array of { date, amountCents, purpose } with ISO date strings
+ */
+export function toLoanTransactionJson(
+  transactions: LoanTransaction[]
+): { date: string; amountCents: number; purpose?: LoanPurpose }[] {
+  return transactions.map(t => ({
+    date: t.date.toISOString().split('T')[0],
+    amountCents: t.amountCents,
+    purpose: t.purpose,
+  }));
+}
+
+/**
+ * Read dated rate changes stored as JSON
+ * @param value - Array of { date, annualRate } with ISO date strings, or null
+ * @returns Rate changes with parsed dates, in date order
+ */
+export function parseRateChanges(value: unknown): RateChange[] {
+  if (!Array.isArray(value)) return [];
+
+  return value
+    .map((c: { date: string; annualRate: number }) => ({ date: new Date(c.date), annualRate: c.annualRate }))
+    .sort((a, b) => a.date.getTime() - b.date.getTime());
+}
+
+/**
+ * Convert dated rate changes to JSON for storage
+ * @param changes - Rate changes to store
+ * @returns Array of { date, annualRate } with ISO date strings
+ */
+export function toRateChangeJson(changes: RateChange[]): { date: string; annualRate: number }[] {
+  return changes.map(c => ({ date: c.date.toISOString().split('T')[0], annualRate: c.annualRate }));
+}
+
+/**
+ * Create the opening state of a loan
+ * @param loan - Loan details
+ * @returns Loan state before its first month
+ */
+export function createLoanState(loan: LoanDetails): LoanState {
+  const isFixed = loan.fixedRatePa !== undefined && (loan.fixedYears || 0) > 0;
+
+  return {
+    month: 1,
+    balance: loan.startBalanceCents,
+    offsetBalance: loan.offsetStartCents,
+    redrawAvailable: 0,
+    fixedBalance: isFixed ? Math.round(loan.startBalanceCents * (loan.fixedPortionPct ?? 1)) : 0,
+  };
+}
+
+/**
+ * Split a loan's balance by what the borrowing was used for
+ * Repayments reduce every part in proportion, as do costs and LMI added to the loan,
+ * so the parts are rescaled to the balance before they are read
+ * @param loan - Loan details
+ * @param state - Current loan state (mutated: purposeBalances)
+ * @returns Balance owing for each purpose in cents
+ */
+export function getPurposeBalances(loan: LoanDetails, state: LoanState): Partial<Record<LoanPurpose, number>> {
+  const balance = Math.max(0, state.balance);
+  const parts = state.purposeBalances || {};
+  const total = Object.values(parts).reduce((sum, amount) => sum + amount, 0);
+
+  const balances: Partial<Record<LoanPurpose, number>> = {};
+  if (total > 0) {
+    for (const [purpose, amount] of Object.entries(parts) as [LoanPurpose, number][]) {
+      balances[purpose] = amount * balance / total;
+    }
+  } else {
+    balances[loan.purpose || 'property'] = balance;
+  }
+
+  state.purposeBalances = balances;
+  return balances;
+}
+
+/**
+ * Split the deductible part of a loan's interest across the properties securing it
+ * Interest on investment borrowing is deductible whatever the security is used for; interest
+ * on borrowing that bought the property only while that property is rented out. Private
+ * borrowing, such as a redraw spent on the household, is never deductible
+ * @param loan - Loan details
+ * @param state - Loan state the interest was charged on
+ * @param interestCents - Interest charged
+ * @param propertyValues - Value of each held property in cents, to split cross-collateralised loans
+ * @param rentedPropertyIds - Properties rented out this month
+ * @returns Deductible interest per property; empty when none of the loan's security is held
+ */
+export function splitDeductibleInterest(
+  loan: LoanDetails,
+  state: LoanState,
+  interestCents: number,
+  propertyValues: Record<string, number>,
+  rentedPropertyIds: string[]
+): Record<string, number> {
+  const parts = getPurposeBalances(loan, state);
+  const total = Object.values(parts).reduce((sum, amount) => sum + amount, 0);
+  const deductible: Record<string, number> = {};
+  if (total <= 0) return deductible;
+
+  const investmentShare = (parts.investment || 0) / total;
+  const propertyShare = (parts.property || 0) / total;
+  for (const [propertyId, interest] of Object.entries(splitAcrossSecurity(loan, interestCents, propertyValues))) {
+    const share = investmentShare + (rentedPropertyIds.includes(propertyId) ? propertyShare : 0);
+    deductible[propertyId] = interest * share;
+  }
+  return deductible;
+}
+
+/**
+ * Get a loan's variable rate in a month
+ * @param loan - Loan details
+ * @param date - Month being charged
+ * @returns The latest rate change on or before the date, otherwise the loan's starting rate
+ */
+export function getVariableRate(loan: LoanDetails, date: Date): number {
+  let rate = loan.annualRate;
+  for (const change of loan.rateChanges || []) {
+    if (monthsBetween(change.date, date) >= 0) rate = change.annualRate;
+  }
+  return rate;
+}
+
+/**
+ * Get the rate a loan is charged on its whole balance, blending fixed and variable portions
+ * @param loan - Loan details
+ * @param state - Current loan state
+ * @param date - Month being charged
+ * @returns Balance-weighted annual rate
+ */
+export function getBlendedRate(loan: LoanDetails, state: LoanState, date: Date): number {
+  const variableRate = getVariableRate(loan, date);
+  const fixedBalance = Math.min(state.fixedBalance || 0, state.balance);
+  if (state.balance <= 0 || fixedBalance <= 0) return variableRate;
+
+  return (fixedBalance * (loan.fixedRatePa || 0) + (state.balance - fixedBalance) * variableRate) / state.balance;
+}
+
+/**
+ * Set a loan's variable rate from the scenario's cash rate path
+ * Loans without a margin keep their own rate and rate changes
+ * @param loan - Loan details
+ * @param cashRatePath - Dated cash rates
+ * @returns Loan whose rate changes follow the cash rate plus its margin
+ */
+export function applyCashRatePath(loan: LoanDetails, cashRatePath: RateChange[]): LoanDetails {
+  if (loan.rateMarginPa === undefined || cashRatePath.length === 0) return loan;
+
+  return {
+    ...loan,
+    rateChanges: cashRatePath.map(change => ({
+      date: change.date,
+      annualRate: change.annualRate + loan.rateMarginPa,
+    })),
+  };
+}
+
+/**
+ * Advance a loan by one month of interest and scheduled repayments
+ * @param loan - Loan details
+ * @param state - Current loan state (mutated)
+ * @returns The month's schedule entry
+ */
+export function stepLoanMonth(loan: LoanDetails, state: LoanState): LoanMonth {
+  const ioMonths = loan.ioYears * LOAN_CONSTANTS.MONTHS_PER_YEAR;
+  const termMonths = loan.termYears * LOAN_CONSTANTS.MONTHS_PER_YEAR;
+  const fixedMonths = (loan.fixedYears || 0) * LOAN_CONSTANTS.MONTHS_PER_YEAR;
+  const month = state.month;
+
+  const currentDate = new Date(loan.startDate);
+  currentDate.setMonth(currentDate.getMonth() + month - 1);
+
+  // The fixed portion reverts to the variable rate once the fixed period ends
+  if (month > fixedMonths) {
+    state.fixedBalance = 0;
+  }
+  const fixedBalance = Math.min(state.fixedBalance || 0, state.balance);
+  const variableBalance = state.balance - fixedBalance;
+  const fixedRate = loan.fixedRatePa || 0;
+  const variableRate = getVariableRate(loan, currentDate);
+
+  // Lenders reset the repayment whenever the rate changes
+  if (state.variableRate !== undefined && state.variableRate !== variableRate) {
+    state.scheduledPayment = undefined;
+  }
+  if (month === fixedMonths + 1 && fixedMonths > 0) {
+    state.scheduledPayment = undefined;
+  }
+  state.variableRate = variableRate;
+
+  // Update offset balance with monthly contributions
+  state.offsetBalance += loan.offsetContribMonthlyCents;
+  
+  // Ensure offset doesn't exceed loan balance unless redraw allowed
+  if (!loan.allowRedraw && state.offsetBalance > state.balance) {
+    state.offsetBalance = state.balance;
+  }
+
+  // Offsets only reduce the variable portion
+  const effectiveVariable = Math.max(0, variableBalance - state.offsetBalance);
+  const effectiveBalance = effectiveVariable + fixedBalance;
+
+  const fixedInterest = Math.round(fixedBalance * fixedRate / LOAN_CONSTANTS.MONTHS_PER_YEAR);
+  const offsetInterestSaved = Math.round((variableBalance - effectiveVariable) * variableRate / LOAN_CONSTANTS.MONTHS_PER_YEAR);
+  const interestCharged = Math.round(effectiveVariable * variableRate / LOAN_CONSTANTS.MONTHS_PER_YEAR) + fixedInterest;
+
+  let principalPayment = 0;
+  let fixedPrincipal = 0;
+  let totalPayment = interestCharged;
+
+  const isInterestOnly = month <= ioMonths;
+
+  if (!isInterestOnly && state.balance > 0) {
+    // Calculate P&I payment on each portion over the loan's remaining term
+    const remainingYears = Math.max(1, termMonths - month + 1) / LOAN_CONSTANTS.MONTHS_PER_YEAR;
+    const fixedPayment = fixedBalance > 0 ? calculateMonthlyPayment(fixedBalance, fixedRate, remainingYears) : 0;
+    let piPayment = fixedPayment + calculateMonthlyPayment(variableBalance, variableRate, remainingYears);
+
+    // Keep the repayment set at the last rate change unless a redraw means it no longer repays the loan in time
+    if (loan.prepaymentMode === 'keep_payment') {
+      state.scheduledPayment = Math.max(state.scheduledPayment ?? 0, piPayment);
+      piPayment = state.scheduledPayment;
+    }
+
+    principalPayment = piPayment - interestCharged;
+    totalPayment = piPayment;
+    fixedPrincipal = Math.min(fixedBalance, Math.max(0, fixedPayment - fixedInterest));
+    
+    // Ensure we don't overpay
+    if (principalPayment > state.balance) {
+      principalPayment = state.balance;
+      totalPayment = principalPayment + interestCharged;
+    }
+  }
+
+  const startingBalance = state.balance;
+  state.balance -= principalPayment;
+  state.fixedBalance = Math.min(state.balance, fixedBalance - fixedPrincipal);
+  state.month++;
+
+  return {
+    month,
+    date: currentDate,
+    startingBalance,
+    offsetBalance: state.offsetBalance,
+    effectiveBalance,
+    interestCharged,
+    offsetInterestSaved,
+    principalPayment,
+    extraPayment: 0,
+    redrawAmount: 0,
+    totalPayment,
+    endingBalance: state.balance,
+    isInterestOnly,
+    annualRate: getBlendedRate(loan, { ...state, balance: startingBalance, fixedBalance }, currentDate),
+  };
+}
+
+/**
+ * Pay down a loan's principal outside its scheduled repayments
+ * @param state - Current loan state (mutated)
+ * @param loanMonth - The month's schedule entry to record the payment on (mutated)
+ * @param amountCents - Amount available to repay
+ * @returns Amount actually applied in cents
+ */
+export function applyExtraRepayment(
+  state: LoanState,
+  loanMonth: LoanMonth,
+  amountCents: number
+): number {
+  const applied = Math.max(0, Math.min(amountCents, state.balance));
+
+  state.balance -= applied;
+  state.redrawAvailable += applied;
+  loanMonth.extraPayment += applied;
+  loanMonth.endingBalance = state.balance;
+
+  return applied;
+}
+
+/**
+ * Draw previous extra repayments back out of a loan
+ * @param loan - Loan details
+ * @param state - Current loan state (mutated)
+ * @param loanMonth - The month's schedule entry to record the redraw on (mutated)
+ * @param amountCents - Amount wanted
+ * @param purpose - What the redrawn money is used for
+ * @returns Amount actually redrawn in cents (0 when redraw is not allowed)
+ */
+export function applyRedraw(
+  loan: LoanDetails,
+  state: LoanState,
+  loanMonth: LoanMonth,
+  amountCents: number,
+  purpose: LoanPurpose = 'private'
+): number {
+  if (!loan.allowRedraw) return 0;
+
+  const redrawn = Math.max(0, Math.min(amountCents, state.redrawAvailable));
+  if (redrawn <= 0) return 0;
+
+  // Redrawn money is new borrowing, so it takes on the use it is put to
+  const parts = getPurposeBalances(loan, state);
+  parts[purpose] = (parts[purpose] || 0) + redrawn;
+
+  state.balance += redrawn;
+  state.redrawAvailable -= redrawn;
+  loanMonth.redrawAmount += redrawn;
+  loanMonth.endingBalance = state.balance;
+
+  return redrawn;
+}
+
+/**
+ * Apply the loan's own extra repayments, lump sums and redraws for the month
+ * @param loan - Loan details
+ * @param state - Current loan state (mutated)
+ * @param loanMonth - The month's schedule entry (mutated)
+ * @returns Net cash paid into the loan in cents (negative when more is redrawn than repaid)
+ */
+export function applyPlannedPrepayments(
+  loan: LoanDetails,
+  state: LoanState,
+  loanMonth: LoanMonth
+): number {
+  const inMonth = (transaction: LoanTransaction) => monthsBetween(loanMonth.date, transaction.date) === 0;
+
+  const extra = (loan.extraMonthlyCents || 0) +
+    (loan.lumpSums || []).filter(inMonth).reduce((sum, t) => sum + t.amountCents, 0);
+  const repaid = extra > 0 ? applyExtraRepayment(state, loanMonth, extra) : 0;
+
+  let redrawn = 0;
+  for (const redraw of (loan.redraws || []).filter(inMonth)) {
+    redrawn += applyRedraw(loan, state, loanMonth, redraw.amountCents, redraw.purpose);
+  }
+
+  return repaid - redrawn;
+}
+
+/**
+ * Check whether a loan plans any repayments beyond the schedule
+ * @param loan - Loan details
+ * @returns True when the loan has extra repayments, lump sums or redraws
+ */
+function hasPlannedPrepayments(loan: LoanDetails): boolean {
+  return (loan.extraMonthlyCents || 0) > 0 || (loan.lumpSums?.length || 0) > 0 || (loan.redraws?.length || 0) > 0;
+}
+
+/**
+ * Calculate loan schedule with offset account, extra repayments, lump sums and redraws
  * @param loan - Loan details
  * @param months - Number of months to calculate
- * @returns Complete loan schedule
+ * @returns Complete loan schedule, with interest saved against scheduled repayments alone
  */
 export function calculateLoanSchedule(
   loan: LoanDetails,
   months: number = loan.termYears * 12
 ): LoanSchedule {
   const schedule: LoanMonth[] = [];
-  let currentBalance = loan.startBalanceCents;
-  let offsetBalance = loan.offsetStartCents;
+  const state = createLoanState(loan);
   let totalInterest = 0;
   let totalPayments = 0;
+  let totalExtraPayments = 0;
 
-  const ioMonths = loan.ioYears * LOAN_CONSTANTS.MONTHS_PER_YEAR;
-  const monthlyRate = loan.annualRate / LOAN_CONSTANTS.MONTHS_PER_YEAR;
-
-  for (let month = 1; month <= months && currentBalance > 0; month++) {
-    const currentDate = new Date(loan.startDate);
-    currentDate.setMonth(currentDate.getMonth() + month - 1);
-
-    // Update offset balance with monthly contributions
-    offsetBalance += loan.offsetContribMonthlyCents;
-    
-    // Ensure offset doesn't exceed loan balance unless redraw allowed
-    if (!loan.allowRedraw && offsetBalance > currentBalance) {
-      offsetBalance = currentBalance;
-    }
-
-    // Calculate effective balance (loan balance minus offset)
-    const effectiveBalance = Math.max(0, currentBalance - offsetBalance);
-
-    // Calculate interest on effective balance
-    const interestCharged = Math.round(effectiveBalance * monthlyRate);
-
-    let principalPayment = 0;
-    let totalPayment = interestCharged;
-
-    const isInterestOnly = month <= ioMonths;
-
-    if (!isInterestOnly && effectiveBalance > 0) {
-      // Calculate P&I payment for remaining term
-      const remainingMonths = months - month + 1;
-      const piPayment = calculateMonthlyPayment(
-        effectiveBalance,
-        loan.annualRate,
-        remainingMonths / LOAN_CONSTANTS.MONTHS_PER_YEAR
-      );
-      
-      principalPayment = piPayment - interestCharged;
-      totalPayment = piPayment;
-      
-      // Ensure we don't overpay
-      if (principalPayment > currentBalance) {
-        principalPayment = currentBalance;
-        totalPayment = principalPayment + interestCharged;
-      }
-    }
+  while (state.month <= months && state.balance > 0) {
+    const loanMonth = stepLoanMonth(loan, state);
+    totalExtraPayments += applyPlannedPrepayments(loan, state, loanMonth);
 
-    // Update balances
-    currentBalance -= principalPayment;
-    totalInterest += interestCharged;
-    totalPayments += totalPayment;
-
-    schedule.push({
-      month,
-      date: currentDate,
-      startingBalance: currentBalance + principalPayment,
-      offsetBalance,
-      effectiveBalance,
-      interestCharged,
-      principalPayment,
-      totalPayment,
-      endingBalance: currentBalance,
-      isInterestOnly,
-    });
+    totalInterest += loanMonth.interestCharged;
+    totalPayments += loanMonth.totalPayment;
+    schedule.push(loanMonth);
   }
 
+  const lastMonth = schedule[schedule.length - 1];
+  const baseline = hasPlannedPrepayments(loan)
+    ? calculateLoanSchedule({ ...loan, extraMonthlyCents: 0, lumpSums: [], redraws: [] }, months)
+    : undefined;
+
   return {
     loanId: loan.id,
     months: schedule,
     totalInterest,
     totalPayments,
+    totalExtraPayments,
+    payoffDate: lastMonth && lastMonth.endingBalance <= 0 ? lastMonth.date : undefined,
+    interestSaved: baseline ? baseline.totalInterest - totalInterest : 0,
   };
 }
 
+/**
+ * Get the schedule month falling in a calendar month
+ * @param schedule - Loan schedule generated from the loan's start date
+ * @param date - Calendar date to look up
+ * @returns Schedule month, or undefined before the loan starts or after it is repaid
+ */
+export function getScheduleMonthAt(
+  schedule: LoanSchedule,
+  date: Date
+): LoanMonth | undefined {
+  if (schedule.months.length === 0) return undefined;
+
+  const index = monthsBetween(schedule.months[0].date, date);
+
+  return index >= 0 ? schedule.months[index] : undefined;
+}
+
 /**
  * Calculate monthly payment for a given month
  * @param loan - Loan details
@@ -156,27 +669,162 @@ export function getMonthlyPayment(
 }
 
 /**
- * Apply refinancing to a loan
+ * Estimate the break cost of leaving a fixed rate early
+ * Lenders charge roughly the fall in rates over the rest of the fixed period; the loan's
+ * current variable rate stands in for the lender's new fixed rate
+ * @param loan - Loan details
+ * @param state - Current loan state
+ * @param date - Date the fixed rate is broken
+ * @returns Break cost in cents (0 outside the fixed period or when rates have risen)
+ */
+export function estimateBreakFee(loan: LoanDetails, state: LoanState, date: Date): number {
+  const fixedMonths = (loan.fixedYears || 0) * LOAN_CONSTANTS.MONTHS_PER_YEAR;
+  const remainingMonths = fixedMonths - state.month + 1;
+  const fixedBalance = Math.min(state.fixedBalance || 0, state.balance);
+  if (remainingMonths <= 0 || fixedBalance <= 0) return 0;
+
+  const rateFall = Math.max(0, (loan.fixedRatePa || 0) - getVariableRate(loan, date));
+
+  return Math.round(fixedBalance * rateFall * remainingMonths / LOAN_CONSTANTS.MONTHS_PER_YEAR);
+}
+
+/**
+ * Refinance a loan from its current balance on new terms
+ * The new loan is variable; later rate changes move by the same amount as before,
+ * from the new rate. Extra repayments available to redraw stay with the old loan
  * @param loan - Current loan details
+ * @param state - Current loan state
  * @param refinanceDate - Date of refinancing
- * @param newRate - New interest rate
- * @param newIoYears - New interest-only period
- * @param newTermYears - New loan term
- * @returns Updated loan details
+ * @param terms - New rate and term, cash out and switching costs
+ * @param propertyValueCents - Value of the property securing the loan, used to price LMI
+ * @returns The new loan, its opening state and what the switch cost
  */
 export function refinanceLoan(
   loan: LoanDetails,
+  state: LoanState,
   refinanceDate: Date,
-  newRate: number,
-  newIoYears: number = 0,
-  newTermYears: number = 30
-): LoanDetails {
-  return {
+  terms: RefinanceTerms,
+  propertyValueCents?: number
+): RefinanceResult {
+  const shift = terms.annualRate - getVariableRate(loan, refinanceDate);
+  const remainingMonths = loan.termYears * LOAN_CONSTANTS.MONTHS_PER_YEAR - state.month + 1;
+  const cashOut = terms.cashOutCents || 0;
+
+  const breakFee = terms.breakFeeCents ?? estimateBreakFee(loan, state, refinanceDate);
+  const feeTotal = (terms.dischargeFeeCents || 0) + (terms.establishmentFeeCents || 0) +
+    breakFee + (terms.otherCostsCents || 0);
+  const capitalised = terms.capitaliseCosts ? feeTotal : 0;
+
+  // LMI is priced on the whole new loan and always added to it
+  const newLoanAmount = state.balance + cashOut + capitalised;
+  const lmi = propertyValueCents !== undefined ? calculateLmiPremium(newLoanAmount, propertyValueCents) : 0;
+
+  // The new loan keeps the old one's uses; costs and LMI are spread across them in proportion
+  const purposeBalances = { ...getPurposeBalances(loan, state) };
+  const cashOutPurpose = terms.cashOutPurpose || 'private';
+  purposeBalances[cashOutPurpose] = (purposeBalances[cashOutPurpose] || 0) + cashOut;
+
+  const newLoan: LoanDetails = {
     ...loan,
     startDate: refinanceDate,
-    annualRate: newRate,
-    ioYears: newIoYears,
-    termYears: newTermYears,
+    startBalanceCents: newLoanAmount + lmi,
+    annualRate: terms.annualRate,
+    ioYears: terms.ioYears || 0,
+    termYears: terms.termYears || Math.max(1, Math.ceil(remainingMonths / LOAN_CONSTANTS.MONTHS_PER_YEAR)),
+    rateChanges: (loan.rateChanges || [])
+      .filter(change => monthsBetween(refinanceDate, change.date) > 0)
+      .map(change => ({ date: change.date, annualRate: change.annualRate + shift })),
+    rateMarginPa: loan.rateMarginPa !== undefined ? loan.rateMarginPa + shift : undefined,
+    fixedRatePa: undefined,
+    fixedYears: 0,
+    fixedPortionPct: undefined,
+  };
+
+  return {
+    loan: newLoan,
+    state: { ...createLoanState(newLoan), offsetBalance: state.offsetBalance, purposeBalances },
+    costs: {
+      dischargeFee: terms.dischargeFeeCents || 0,
+      establishmentFee: terms.establishmentFeeCents || 0,
+      breakFee,
+      otherCosts: terms.otherCostsCents || 0,
+      lmi,
+      total: feeTotal + lmi,
+    },
+    cashOut,
+    capitalised: capitalised + lmi,
+    cashflow: cashOut - (feeTotal - capitalised),
+  };
+}
+
+/**
+ * Compare keeping a loan with the loan it is refinanced into
+ * Each month the saving is what the old loan would have cost so far, including its balance
+ * still owing, less the same for the new loan net of the cash the switch paid out or cost.
+ * It starts at minus the switching costs and breaks even once the new loan catches up
+ * @param loan - Loan before refinancing
+ * @param state - Loan state at the refinance
+ * @param refinanced - Result of refinancing the loan
+ * @param refinanceDate - Date of refinancing
+ * @param months - Months to compare over; until both loans are repaid when omitted
+ * @returns Repayments, interest, net saving and break-even month of the switch
+ */
+export function compareRefinance(
+  loan: LoanDetails,
+  state: LoanState,
+  refinanced: RefinanceResult,
+  refinanceDate: Date,
+  months?: number
+): RefinanceComparison {
+  const remainingMonths = loan.termYears * LOAN_CONSTANTS.MONTHS_PER_YEAR - state.month + 1;
+  const horizon = months ?? Math.max(remainingMonths, refinanced.loan.termYears * LOAN_CONSTANTS.MONTHS_PER_YEAR);
+  const oldState: LoanState = { ...state };
+  const newState: LoanState = { ...refinanced.state };
+
+  let oldPaid = 0;
+  let newPaid = 0;
+  let oldInterest = 0;
+  let newInterest = 0;
+  let oldPayment = 0;
+  let newPayment = 0;
+  let breakEvenMonth: number | undefined;
+  let netSaving = -refinanced.costs.total;
+
+  for (let month = 1; month <= horizon; month++) {
+    if (oldState.balance > 0) {
+      const oldMonth = stepLoanMonth(loan, oldState);
+      oldPaid += oldMonth.totalPayment + applyPlannedPrepayments(loan, oldState, oldMonth);
+      oldInterest += oldMonth.interestCharged;
+      if (month === 1) oldPayment = oldMonth.totalPayment;
+    }
+    if (newState.balance > 0) {
+      const newMonth = stepLoanMonth(refinanced.loan, newState);
+      newPaid += newMonth.totalPayment + applyPlannedPrepayments(refinanced.loan, newState, newMonth);
+      newInterest += newMonth.interestCharged;
+      if (month === 1) newPayment = newMonth.totalPayment;
+    }
+
+    netSaving = (oldPaid + oldState.balance) - (newPaid + newState.balance - refinanced.cashflow);
+    if (breakEvenMonth === undefined && netSaving >= 0) {
+      breakEvenMonth = month;
+    }
+  }
+
+  return {
+    loanId: loan.id,
+    date: refinanceDate,
+    balance: state.balance,
+    oldRate: getBlendedRate(loan, state, refinanceDate),
+    newRate: refinanced.loan.annualRate,
+    oldPayment,
+    newPayment,
+    oldInterest,
+    newInterest,
+    costs: refinanced.costs,
+    cashOut: refinanced.cashOut,
+    months: horizon,
+    netSaving,
+    breakEvenMonth,
   };
 }
 
@@ -0,0 +1,128 @@
+/**
+ * LVR Engine - Loan-to-value ratios per property and lenders mortgage insurance
+ * LMI is charged on loans above 80% of the property's value and added to the loan
+ * All monetary values are in cents
+ */
+
+import type { ForecastMonth } from './forecastEngine';
+
+export interface LmiPremiumBand {
+  maxLvr: number; // Band covers LVRs up to and including this ratio
+  rates: { maxLoan: number; rate: number }[]; // Premium as a share of the loan, by loan size ($)
+}
+
+export interface LvrWarning {
+  propertyId: string;
+  date: Date;
+  lvr: number;
+  threshold: number;
+}
+
+export const LVR_CONSTANTS = {
+  LMI_THRESHOLD: 0.8, // LMI applies above this LVR
+};
+
+// Thresholds warned on when a scenario does not set its own
+export const DEFAULT_LVR_THRESHOLDS = [0.8, 0.9];
+
+// Indicative single-premium rates for owner-occupied and investment loans
+export const LMI_PREMIUM_TABLE: LmiPremiumBand[] = [
+  {
+    maxLvr: 0.85,
+    rates: [
+      { maxLoan: 300000, rate: 0.0085 },
+      { maxLoan: 500000, rate: 0.0105 },
+      { maxLoan: 600000, rate: 0.012 },
+      { maxLoan: 750000, rate: 0.0135 },
+      { maxLoan: 1000000, rate: 0.015 },
+      { maxLoan: Infinity, rate: 0.0165 },
+    ],
+  },
+  {
+    maxLvr: 0.9,
+    rates: [
+      { maxLoan: 300000, rate: 0.0145 },
+      { maxLoan: 500000, rate: 0.0175 },
+      { maxLoan: 600000, rate: 0.0195 },
+      { maxLoan: 750000, rate: 0.021 },
+      { maxLoan: 1000000, rate: 0.023 },
+      { maxLoan: Infinity, rate: 0.025 },
+    ],
+  },
+  {
+    maxLvr: 0.95,
+    rates: [
+      { maxLoan: 300000, rate: 0.025 },
+      { maxLoan: 500000, rate: 0.03 },
+      { maxLoan: 600000, rate: 0.033 },
+      { maxLoan: 750000, rate: 0.036 },
+      { maxLoan: 1000000, rate: 0.039 },
+      { maxLoan: Infinity, rate: 0.042 },
+    ],
+  },
+];
+
+/**
+ * Estimate the LMI premium on a loan
+ * LVRs above the table's last band are charged at that band's rates
+ * @param loanCents - Loan amount in cents, before the premium is added
+ * @param valueCents - Property value or purchase price in cents
+ * @returns Premium in cents (0 at or below 80% LVR)
+ */
+export function calculateLmiPremium(loanCents: number, valueCents: number): number {
+  if (loanCents <= 0 || valueCents <= 0) return 0;
+
+  const lvr = loanCents / valueCents;
+  if (lvr <= LVR_CONSTANTS.LMI_THRESHOLD) return 0;
+
+  const band = LMI_PREMIUM_TABLE.find(b => lvr <= b.maxLvr) || LMI_PREMIUM_TABLE[LMI_PREMIUM_TABLE.length - 1];
+  const { rate } = band.rates.find(r => loanCents / 100 <= r.maxLoan) || band.rates[band.rates.length - 1];
+
+  return Math.round(loanCents * rate);
+}
+
+/**
+ * Calculate each property's LVR from the debt secured against it
+ * @param propertyValues - Value of each held property in cents
+ * @param propertyDebts - Debt secured against each property in cents
+ * @returns LVR per property id
+ */
+export function getPropertyLvrs(
+  propertyValues: Record<string, number>,
+  propertyDebts: Record<string, number>
+): Record<string, number> {
+  const lvrs: Record<string, number> = {};
+
+  for (const [propertyId, value] of Object.entries(propertyValues)) {
+    const debt = propertyDebts[propertyId] || 0;
+    lvrs[propertyId] = value > 0 ? debt / value : 0;
+  }
+
+  return lvrs;
+}
+
+/**
+ * Find the months a property's LVR rises above a threshold
+ * A property already above a threshold in the first month is warned on then
+ * @param forecast - Complete monthly forecast
+ * @param thresholds - LVRs to warn at
+ * @returns One warning per property each time it crosses a threshold, in date order
+ */
+export function findLvrWarnings(forecast: ForecastMonth[], thresholds: number[]): LvrWarning[] {
+  const warnings: LvrWarning[] = [];
+  let previous: Record<string, number> = {};
+
+  for (const month of forecast) {
+    for (const [propertyId, lvr] of Object.entries(month.propertyLvrs)) {
+      const before = previous[propertyId] ?? 0;
+      for (const threshold of thresholds) {
+        if (lvr > threshold && before <= threshold) {
+          warnings.push({ propertyId, date: month.date, lvr, threshold });
+        }
+      }
+    }
+    previous = month.propertyLvrs;
+  }
+
+  return warnings;
+}
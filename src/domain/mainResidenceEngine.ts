@@ -0,0 +1,166 @@
+/**
+ * Main Residence Engine - Works out how much of a capital gain is exempt as the owners' home
+ * Uses each property's PPOR/investment timeline, resolved month by month and counted in days
+ */
+
+import { PPOR_RULES } from './constants';
+import { monthsBetween } from './loanEngine';
+import type { MarketPath } from './marketEngine';
+import { getPropertyStatus, getPropertyValue, getUseChanges } from './propertyEngine';
+import type { Property } from './forecastEngine';
+
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+
+export interface MainResidenceResult {
+  exemptFraction: number; // Share of the gain that is exempt (0-1)
+  exemptDays: number;
+  ownershipDays: number;
+  absenceDaysClaimed: number; // Days covered by the six-year absence rule
+  overlapDaysClaimed: number; // Days covered by the six-month moving overlap
+  costBaseResetDate?: Date; // Home first used to produce income: acquired at market value on this date
+  costBaseResetCents?: number;
+}
+
+/**
+ * Count whole days between two dates
+ * @param from - Start date
+ * @param to - End date
+ * @returns Days from start to end
+ */
+function daysBetween(from: Date, to: Date): number {
+  return Math.round((to.getTime() - from.getTime()) / MS_PER_DAY);
+}
+
+/**
+ * Find when another property most recently became the owners' home
+ * @param property - The other property
+ * @param month - Month it is the home in
+ * @returns First month of its current run as the home
+ */
+function getHomeStartMonth(property: Property, month: Date): Date {
+  const start = new Date(month);
+  while (monthsBetween(property.purchaseDate, start) > 0) {
+    const previous = new Date(start.getFullYear(), start.getMonth() - 1, 1);
+    if (getPropertyStatus(property, previous) !== 'ppor') break;
+    start.setTime(previous.getTime());
+  }
+  return start;
+}
+
+/**
+ * Count exempt days over part of a property's ownership
+ * @param property - Property being sold
+ * @param from - First day counted
+ * @param saleDate - Settlement date
+ * @param otherProperties - Other properties the owners held, which may also be their home
+ * @param wasHome - Whether the property was already the home before the first day counted
+ * @returns Exempt and ownership days, with the days each concession covered
+ */
+function countExemptDays(
+  property: Property,
+  from: Date,
+  saleDate: Date,
+  otherProperties: Property[],
+  wasHome: boolean
+): Omit<MainResidenceResult, 'exemptFraction'> {
+  const absenceLimitDays = PPOR_RULES.ABSENCE_RULE_YEARS * 365;
+  const overlapLimitMonths = PPOR_RULES.OVERLAP_RULE_MONTHS;
+
+  let exemptDays = 0;
+  let absenceDaysClaimed = 0;
+  let overlapDaysClaimed = 0;
+  let hasBeenHome = wasHome;
+  let incomeAbsenceDays = 0;
+
+  // Walk the ownership a calendar month at a time; status is resolved monthly
+  const month = new Date(from.getFullYear(), from.getMonth(), 1);
+  while (month < saleDate) {
+    const nextMonth = new Date(month.getFullYear(), month.getMonth() + 1, 1);
+    const periodStart = month < from ? from : month;
+    const periodEnd = nextMonth > saleDate ? saleDate : nextMonth;
+    const days = Math.max(0, daysBetween(periodStart, periodEnd));
+
+    const status = getPropertyStatus(property, month);
+    const otherHomes = otherProperties.filter(other => getPropertyStatus(other, month) === 'ppor');
+
+    if (status === 'ppor') {
+      hasBeenHome = true;
+      incomeAbsenceDays = 0;
+
+      // A newer home takes over the exemption after the overlap allowed for moving
+      const newerHome = otherHomes.find(other => other.purchaseDate > property.purchaseDate);
+      if (!newerHome) {
+        exemptDays += days;
+      } else if (monthsBetween(getHomeStartMonth(newerHome, month), month) < overlapLimitMonths) {
+        exemptDays += days;
+        overlapDaysClaimed += days;
+      }
+    } else if (hasBeenHome && otherHomes.length === 0) {
+      // Absence rule: still the home while away, indefinitely if not rented out
+      if (status === 'vacant') {
+        exemptDays += days;
+        absenceDaysClaimed += days;
+      } else {
+        const covered = Math.max(0, Math.min(days, absenceLimitDays - incomeAbsenceDays));
+        incomeAbsenceDays += days;
+        exemptDays += covered;
+        absenceDaysClaimed += covered;
+      }
+    }
+
+    month.setMonth(month.getMonth() + 1);
+  }
+
+  return {
+    exemptDays,
+    ownershipDays: Math.max(0, daysBetween(from, saleDate)),
+    absenceDaysClaimed,
+    overlapDaysClaimed,
+  };
+}
+
+/**
+ * Calculate the main residence exemption for a property sale
+ * The home first used to produce income rule resets the cost base to market value and starts
+ * the ownership period then, whenever income use is the only reason the exemption is partial
+ * @param property - Property being sold
+ * @param saleDate - Settlement date
+ * @param otherProperties - Other properties the owners held, which may also be their home
+ * @param forecastStartDate - Forecast start, when the property's valueNowCents applied
+ * @param market - Simulated market path the property's value followed
+ * @returns Exempt fraction of the gain and how it was reached
+ */
+export function calculateMainResidenceExemption(
+  property: Property,
+  saleDate: Date,
+  otherProperties: Property[],
+  forecastStartDate: Date,
+  market?: MarketPath
+): MainResidenceResult {
+  // Resolve the sale month by the use leading up to settlement
+  const owned: Property = { ...property, soldOn: undefined };
+  const full = countExemptDays(owned, property.purchaseDate, saleDate, otherProperties, false);
+  const result: MainResidenceResult = {
+    ...full,
+    exemptFraction: full.ownershipDays > 0 ? full.exemptDays / full.ownershipDays : 0,
+  };
+
+  if (result.exemptFraction >= 1) return result;
+
+  // Home first used to produce income: it must have been the home from purchase until then
+  const firstIncomeUse = getUseChanges(property).find(change => change.status === 'investment')?.date;
+  const wasHomeUntilIncome = firstIncomeUse &&
+    firstIncomeUse > property.purchaseDate &&
+    firstIncomeUse < saleDate &&
+    getPropertyStatus(owned, property.purchaseDate) === 'ppor';
+
+  if (!wasHomeUntilIncome) return result;
+
+  const reset = countExemptDays(owned, firstIncomeUse, saleDate, otherProperties, true);
+  return {
+    ...reset,
+    exemptFraction: reset.ownershipDays > 0 ? reset.exemptDays / reset.ownershipDays : 0,
+    costBaseResetDate: firstIncomeUse,
+    costBaseResetCents: Math.round(getPropertyValue(property, firstIncomeUse, forecastStartDate, market)),
+  };
+}
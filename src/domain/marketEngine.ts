@@ -0,0 +1,137 @@
+/**
+ * Market Engine - Year-by-year market conditions that move a forecast off its fixed assumptions
+ * Each year's shocks are added to the scenario's own growth, return, inflation and rate
+ * assumptions, so a path of zero shocks reproduces the deterministic forecast
+ * All rates are annual fractions
+ */
+
+import { getVariableRate, LoanDetails, monthsBetween } from './loanEngine';
+
+export interface MarketYear {
+  propertyGrowth: number; // Added to every property's growth rate
+  sharesReturn: number; // Added to the portfolio return and to share and other investment growth
+  superReturn: number; // Added to the super return and super asset growth
+  inflation: number; // Added to CPI
+  rateChange: number; // Move in interest rates over the year, carried into later years
+}
+
+export interface MarketPath {
+  startDate: Date;
+  years: MarketYear[]; // One per forecast year from the start date
+  propertyIndex: number[]; // Property shocks compounded to the start of each forecast month
+  inflationIndex: number[]; // Inflation shocks compounded to the start of each forecast month
+  rateShift: number[]; // Rate changes accumulated by each forecast year
+}
+
+const NO_SHOCK: MarketYear = { propertyGrowth: 0, sharesReturn: 0, superReturn: 0, inflation: 0, rateChange: 0 };
+
+/**
+ * Build a market path from its yearly shocks
+ * @param startDate - Forecast start date, when the first year begins
+ * @param years - Shocks for each forecast year
+ * @returns Path with its compounded property and price indexes
+ */
+export function createMarketPath(startDate: Date, years: MarketYear[]): MarketPath {
+  const propertyIndex = [1];
+  const inflationIndex = [1];
+  const rateShift: number[] = [];
+
+  let shift = 0;
+  years.forEach((year, index) => {
+    shift += year.rateChange;
+    rateShift.push(shift);
+
+    for (let month = 0; month < 12; month++) {
+      const last = index * 12 + month;
+      propertyIndex.push(propertyIndex[last] * Math.pow(1 + year.propertyGrowth, 1 / 12));
+      inflationIndex.push(inflationIndex[last] * Math.pow(1 + year.inflation, 1 / 12));
+    }
+  });
+
+  return { startDate, years, propertyIndex, inflationIndex, rateShift };
+}
+
+/**
+ * Get the month's position in a market path's indexes
+ * @param path - Market path
+ * @param date - Month being projected
+ * @returns Months since the path starts, held at either end of the path
+ */
+function getMonthIndex(path: MarketPath, date: Date): number {
+  return Math.min(Math.max(0, monthsBetween(path.startDate, date)), path.propertyIndex.length - 1);
+}
+
+/**
+ * Get the shocks applying in a month
+ * @param path - Market path; no shocks when omitted
+ * @param date - Month being projected
+ * @returns Shocks for the forecast year the month falls in
+ */
+export function getMarketYear(path: MarketPath | undefined, date: Date): MarketYear {
+  if (!path) return NO_SHOCK;
+
+  const year = Math.floor(monthsBetween(path.startDate, date) / 12);
+  return path.years[year] || NO_SHOCK;
+}
+
+/**
+ * Get how far market shocks have moved property values between two months
+ * @param path - Market path; no movement when omitted
+ * @param from - Month the value is known at
+ * @param to - Month being valued
+ * @returns Multiplier on the value the property's own growth rate gives
+ */
+export function getPropertyIndex(path: MarketPath | undefined, from: Date, to: Date): number {
+  if (!path) return 1;
+  return path.propertyIndex[getMonthIndex(path, to)] / path.propertyIndex[getMonthIndex(path, from)];
+}
+
+/**
+ * Get how far inflation shocks have moved prices since the forecast start
+ * @param path - Market path; no movement when omitted
+ * @param date - Month being projected
+ * @returns Multiplier on prices indexed at the scenario's CPI assumption
+ */
+export function getInflationIndex(path: MarketPath | undefined, date: Date): number {
+  if (!path) return 1;
+  return path.inflationIndex[getMonthIndex(path, date)];
+}
+
+/**
+ * Get how far rates have moved from the scenario's own rates by a month
+ * @param path - Market path; no movement when omitted
+ * @param date - Month being charged
+ * @returns Amount added to variable rates (0 before the forecast starts)
+ */
+export function getRateShift(path: MarketPath | undefined, date: Date): number {
+  if (!path || monthsBetween(path.startDate, date) < 0) return 0;
+
+  const year = Math.floor(monthsBetween(path.startDate, date) / 12);
+  return path.rateShift[Math.min(year, path.rateShift.length - 1)] || 0;
+}
+
+/**
+ * Move a loan's variable rate with a market path's rate changes
+ * The rate is reset at the start of every forecast year and at each of the loan's own
+ * changes, taking the change accumulated by then, floored at zero. Fixed rates are locked in
+ * @param loan - Loan details
+ * @param path - Market path; the loan is unchanged when omitted
+ * @returns Loan with its variable rate changes moved by the path
+ */
+export function applyMarketRates(loan: LoanDetails, path: MarketPath | undefined): LoanDetails {
+  if (!path) return loan;
+
+  const yearStarts = path.years.map((_, year) =>
+    new Date(path.startDate.getFullYear(), path.startDate.getMonth() + year * 12, 1)
+  );
+  const dates = [...(loan.rateChanges || []).map(change => change.date), ...yearStarts]
+    .sort((a, b) => a.getTime() - b.getTime());
+
+  return {
+    ...loan,
+    rateChanges: dates.map(date => ({
+      date,
+      annualRate: Math.max(0, getVariableRate(loan, date) + getRateShift(path, date)),
+    })),
+  };
+}
@@ -0,0 +1,295 @@
+/**
+ * Monte Carlo Engine - Runs the forecast across simulated markets to show the spread of outcomes
+ * Each simulation draws correlated annual returns for property, shares, super, inflation and
+ * interest rates, runs the full forecast on them and records where the household stands each year
+ * All monetary values are in cents
+ */
+
+import { runForecast, type ForecastMonth, type Scenario } from './forecastEngine';
+import { DEFAULT_PURCHASE } from './eventEngine';
+import { createMarketPath, type MarketYear } from './marketEngine';
+
+export type MarketFactor = 'property' | 'shares' | 'super' | 'inflation' | 'rates';
+
+// Order of the factors in the correlation matrix
+export const MARKET_FACTORS: MarketFactor[] = ['property', 'shares', 'super', 'inflation', 'rates'];
+
+export interface FactorDistribution {
+  mean?: number; // Expected annual value (yearly change for rates); the scenario's assumption when omitted
+  stdDev: number; // Year-to-year volatility
+}
+
+export interface MonteCarloSettings {
+  simulations: number;
+  seed: number; // The same seed draws the same simulations
+  distributions: Record<MarketFactor, FactorDistribution>;
+  correlations: number[][]; // Between factors' annual draws, in MARKET_FACTORS order
+}
+
+export interface PercentileBand {
+  p10: number;
+  p50: number;
+  p90: number;
+}
+
+export interface MonteCarloYear {
+  year: number; // Years from the forecast start; the last entry is the end of the horizon
+  date: Date;
+  netWorth: PercentileBand;
+  cashBuffer: PercentileBand;
+  totalDebt: PercentileBand;
+  outOfCashProbability: number; // Share of simulations that have run out of cash by the end of this year
+}
+
+// Simulations run between each yield to the browser
+const SIMULATIONS_PER_CHUNK = 5;
+
+export interface MonteCarloResult {
+  simulations: number;
+  years: MonteCarloYear[];
+  outOfCashProbability: number; // Share of simulations that run out of cash at any point
+}
+
+export const DEFAULT_MONTE_CARLO: MonteCarloSettings = {
+  simulations: 200,
+  seed: 1,
+  distributions: {
+    property: { stdDev: 0.08 },
+    shares: { stdDev: 0.16 },
+    super: { stdDev: 0.1 },
+    inflation: { stdDev: 0.012 },
+    rates: { mean: 0, stdDev: 0.0075 },
+  },
+  correlations: [
+    [1, 0.3, 0.3, 0.3, -0.3],
+    [0.3, 1, 0.8, -0.1, -0.2],
+    [0.3, 0.8, 1, -0.1, -0.2],
+    [0.3, -0.1, -0.1, 1, 0.5],
+    [-0.3, -0.2, -0.2, 0.5, 1],
+  ],
+};
+
+/**
+ * Create a seeded random number generator (mulberry32)
+ * @param seed - Starting seed
+ * @returns Function returning numbers in [0, 1)
+ */
+function createRandom(seed: number): () => number {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+/**
+ * Draw a standard normal value (Box-Muller)
+ * @param random - Uniform random number generator
+ * @returns Normal draw with mean 0 and standard deviation 1
+ */
+function drawNormal(random: () => number): number {
+  const u = Math.max(random(), Number.EPSILON);
+  return Math.sqrt(-2 * Math.log(u)) * Math.cos(2 * Math.PI * random());
+}
+
+/**
+ * Factor a correlation matrix into its lower triangular Cholesky form
+ * A matrix that is not positive definite has its shortfall on the diagonal treated as zero,
+ * which weakens the correlations it cannot support rather than failing
+ * @param correlations - Symmetric correlation matrix
+ * @returns Lower triangular matrix L with L x Lᵀ equal to the correlations
+ */
+function choleskyDecompose(correlations: number[][]): number[][] {
+  const size = correlations.length;
+  const lower = correlations.map(() => new Array(size).fill(0));
+
+  for (let i = 0; i < size; i++) {
+    for (let j = 0; j <= i; j++) {
+      let sum = correlations[i][j];
+      for (let k = 0; k < j; k++) sum -= lower[i][k] * lower[j][k];
+
+      if (i === j) {
+        lower[i][j] = Math.sqrt(Math.max(0, sum));
+      } else {
+        lower[i][j] = lower[j][j] > 0 ? sum / lower[j][j] : 0;
+      }
+    }
+  }
+  return lower;
+}
+
+/**
+ * Get the scenario's own assumption for each market factor
+ * Properties each keep their own growth rate; their average is the centre of the property draws
+ * @param scenario - Scenario being simulated
+ * @returns Annual rate per factor
+ */
+export function getMarketAssumptions(scenario: Scenario): Record<MarketFactor, number> {
+  const growthRates = scenario.properties.map(property => property.valueGrowthPa);
+
+  return {
+    property: growthRates.length > 0
+      ? growthRates.reduce((sum, rate) => sum + rate, 0) / growthRates.length
+      : DEFAULT_PURCHASE.VALUE_GROWTH_PA,
+    shares: scenario.profile.returnPortfolioPa,
+    super: scenario.profile.returnSuperPa,
+    inflation: scenario.profile.inflationCpiPa,
+    rates: 0,
+  };
+}
+
+/**
+ * Draw one simulated market's yearly shocks
+ * @param years - Forecast years to draw
+ * @param settings - Distributions of each factor
+ * @param assumptions - Scenario's own rate for each factor
+ * @param lower - Cholesky factor of the correlations
+ * @param random - Uniform random number generator
+ * @returns Shocks off the scenario's assumptions for each year
+ */
+function drawMarketYears(
+  years: number,
+  settings: MonteCarloSettings,
+  assumptions: Record<MarketFactor, number>,
+  lower: number[][],
+  random: () => number
+): MarketYear[] {
+  const path: MarketYear[] = [];
+
+  for (let year = 0; year < years; year++) {
+    const independent = MARKET_FACTORS.map(() => drawNormal(random));
+    const shocks = {} as Record<MarketFactor, number>;
+
+    MARKET_FACTORS.forEach((factor, i) => {
+      const correlated = lower[i].reduce((sum, weight, j) => sum + weight * independent[j], 0);
+      const { mean, stdDev } = settings.distributions[factor];
+      shocks[factor] = (mean ?? assumptions[factor]) - assumptions[factor] + stdDev * correlated;
+    });
+
+    path.push({
+      propertyGrowth: shocks.property,
+      sharesReturn: shocks.shares,
+      superReturn: shocks.super,
+      inflation: shocks.inflation,
+      rateChange: shocks.rates,
+    });
+  }
+  return path;
+}
+
+/**
+ * Read a percentile from sorted values, interpolating between neighbours
+ * @param sorted - Values in ascending order
+ * @param percentile - Percentile as a fraction (0-1)
+ * @returns Value at the percentile
+ */
+function getPercentile(sorted: number[], percentile: number): number {
+  if (sorted.length === 0) return 0;
+
+  const position = (sorted.length - 1) * percentile;
+  const below = Math.floor(position);
+  const above = Math.min(sorted.length - 1, below + 1);
+  return sorted[below] + (sorted[above] - sorted[below]) * (position - below);
+}
+
+/**
+ * Summarise one value across simulations
+ * @param values - Value from each simulation
+ * @returns 10th, 50th and 90th percentiles
+ */
+function getPercentileBand(values: number[]): PercentileBand {
+  const sorted = [...values].sort((a, b) => a - b);
+  return {
+    p10: getPercentile(sorted, 0.1),
+    p50: getPercentile(sorted, 0.5),
+    p90: getPercentile(sorted, 0.9),
+  };
+}
+
+/**
+ * Wait for the browser to handle pending work before carrying on
+ * @returns Promise resolving on the next task
+ */
+function yieldToBrowser(): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, 0));
+}
+
+/**
+ * Run a scenario's forecast across simulated markets
+ * Simulations run in chunks, yielding between them so the page stays responsive.
+ * Running out of cash means a month's shortfall could not be met from cash, offsets,
+ * redraw or the portfolio
+ * @param scenario - Scenario to simulate
+ * @param settings - Number of simulations, seed, distributions and correlations
+ * @param onProgress - Called with the number of simulations completed after each chunk
+ * @returns P10/P50/P90 bands for net worth, cash and debt at the start of each year and the
+ * end of the horizon, and the chance of running out of cash
+ */
+export async function runMonteCarlo(
+  scenario: Scenario,
+  settings: MonteCarloSettings = DEFAULT_MONTE_CARLO,
+  onProgress?: (completed: number) => void
+): Promise<MonteCarloResult> {
+  const random = createRandom(settings.seed);
+  const lower = choleskyDecompose(settings.correlations);
+  const assumptions = getMarketAssumptions(scenario);
+
+  // Positions at the start of each forecast year and in the final month, per simulation
+  const samples: Record<number, { date: Date; netWorth: number[]; cashBuffer: number[]; totalDebt: number[] }> = {};
+  const firstOutOfCash: number[] = [];
+  let totalMonths = 0;
+
+  for (let simulation = 0; simulation < settings.simulations; simulation++) {
+    const marketYears = drawMarketYears(scenario.horizonYears, settings, assumptions, lower, random);
+    const forecast: ForecastMonth[] = runForecast({
+      ...scenario,
+      marketPath: createMarketPath(scenario.startDate, marketYears),
+    });
+    totalMonths = forecast.length;
+
+    forecast.forEach((month, index) => {
+      if (index % 12 !== 0 && index !== forecast.length - 1) return;
+
+      samples[index] = samples[index] || { date: month.date, netWorth: [], cashBuffer: [], totalDebt: [] };
+      samples[index].netWorth.push(month.netWorth);
+      samples[index].cashBuffer.push(month.cashBuffer);
+      samples[index].totalDebt.push(month.totalDebt);
+    });
+
+    const outOfCash = forecast.findIndex(month => month.isInsolvent);
+    firstOutOfCash.push(outOfCash === -1 ? Infinity : outOfCash);
+
+    if ((simulation + 1) % SIMULATIONS_PER_CHUNK === 0 && simulation + 1 < settings.simulations) {
+      onProgress?.(simulation + 1);
+      await yieldToBrowser();
+    }
+  }
+  onProgress?.(settings.simulations);
+
+  const runs = Math.max(1, settings.simulations);
+  const years: MonteCarloYear[] = Object.keys(samples)
+    .map(Number)
+    .sort((a, b) => a - b)
+    .map(index => {
+      const sample = samples[index];
+      // A year's chance covers the months to its end; the final month's covers the whole forecast
+      const yearEnd = Math.min(index + 12, totalMonths);
+      return {
+        year: Math.ceil(index / 12),
+        date: sample.date,
+        netWorth: getPercentileBand(sample.netWorth),
+        cashBuffer: getPercentileBand(sample.cashBuffer),
+        totalDebt: getPercentileBand(sample.totalDebt),
+        outOfCashProbability: firstOutOfCash.filter(month => month < yearEnd).length / runs,
+      };
+    });
+
+  return {
+    simulations: settings.simulations,
+    years,
+    outOfCashProbability: firstOutOfCash.filter(month => month !== Infinity).length / runs,
+  };
+}
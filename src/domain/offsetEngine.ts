@@ -0,0 +1,116 @@
+/**
+ * Offset Engine - Offset accounts holding the household's cash against one or more loans
+ * An account shared across split facilities covers the highest-rate loan first
+ * All monetary values are in cents
+ */
+
+import { getVariableRate, LoanDetails, LoanState, monthsBetween } from './loanEngine';
+
+export interface OffsetAccount {
+  id: string;
+  scenarioId: string;
+  name: string;
+  balanceCents: number; // Opening balance, held as household cash
+  loanIds: string[]; // Loans the balance offsets; shared when there is more than one
+}
+
+// A loan as the forecast holds it, with its running state
+export interface OffsetLoan {
+  loan: LoanDetails;
+  state: LoanState;
+}
+
+/**
+ * Get a scenario's offset accounts
+ * Loans still carrying their own offset balance from before offsets were accounts get one
+ * account each, unless an account already offsets them
+ * @param accounts - Offset accounts saved on the scenario
+ * @param loans - Scenario loans
+ * @returns Offset accounts to run the forecast with
+ */
+export function getOffsetAccounts(accounts: OffsetAccount[], loans: LoanDetails[]): OffsetAccount[] {
+  const linked = new Set(accounts.flatMap(account => account.loanIds));
+  const legacy = loans
+    .filter(loan => loan.offsetStartCents > 0 && !linked.has(loan.id))
+    .map(loan => ({
+      id: `${loan.id}-offset`,
+      scenarioId: accounts[0]?.scenarioId || '',
+      name: `Loan ${loan.id} offset`,
+      balanceCents: loan.offsetStartCents,
+      loanIds: [loan.id],
+    }));
+
+  return [...accounts, ...legacy];
+}
+
+/**
+ * Find the offset account a loan's offset is held in
+ * Strategies saved before offsets were accounts name the loan instead of the account
+ * @param loanId - Loan the strategy named
+ * @param accounts - Scenario's offset accounts
+ * @returns Id of the first account offsetting the loan, or the loan's legacy account id
+ */
+export function getLoanOffsetId(loanId: string, accounts: OffsetAccount[]): string {
+  return accounts.find(account => account.loanIds.includes(loanId))?.id || `${loanId}-offset`;
+}
+
+/**
+ * Get the part of a loan's balance an offset can reduce
+ * @param loan - Loan details
+ * @param state - Current loan state
+ * @returns Balance outside any fixed-rate portion still in its fixed period
+ */
+function getOffsettableBalance(loan: LoanDetails, state: LoanState): number {
+  const fixedMonths = (loan.fixedYears || 0) * 12;
+  const fixedBalance = state.month <= fixedMonths ? Math.min(state.fixedBalance || 0, state.balance) : 0;
+  return Math.max(0, state.balance - fixedBalance);
+}
+
+/**
+ * Set each running loan's offset from the accounts linked to it
+ * An account covers its loans from the highest variable rate down, each up to its
+ * offsettable balance; money beyond its loans' balances earns nothing
+ * @param accounts - Offset accounts
+ * @param offsetBalances - Balance held in each account
+ * @param loans - Loans with their states (mutated: offsetBalance)
+ * @param date - Month being charged
+ */
+export function applyOffsets(
+  accounts: OffsetAccount[],
+  offsetBalances: Record<string, number>,
+  loans: OffsetLoan[],
+  date: Date
+): void {
+  const running = loans.filter(({ loan, state }) => state.balance > 0 && monthsBetween(loan.startDate, date) >= 0);
+  for (const { state } of loans) {
+    state.offsetBalance = 0;
+  }
+
+  for (const account of accounts) {
+    let available = Math.max(0, offsetBalances[account.id] || 0);
+    const covered = running
+      .filter(({ loan }) => account.loanIds.includes(loan.id))
+      .sort((a, b) => getVariableRate(b.loan, date) - getVariableRate(a.loan, date));
+
+    for (const { loan, state } of covered) {
+      if (available <= 0) break;
+
+      const room = Math.max(0, getOffsettableBalance(loan, state) - state.offsetBalance);
+      const amount = Math.min(available, room);
+      state.offsetBalance += amount;
+      available -= amount;
+    }
+  }
+}
+
+/**
+ * Get the debt an offset account can usefully hold against
+ * @param account - Offset account
+ * @param loans - Loans running this month with their states
+ * @returns Combined balance owing on the account's loans
+ */
+export function getOffsetCapacity(account: OffsetAccount, loans: OffsetLoan[]): number {
+  return loans
+    .filter(({ loan, state }) => account.loanIds.includes(loan.id) && state.balance > 0)
+    .reduce((sum, { state }) => sum + state.balance, 0);
+}
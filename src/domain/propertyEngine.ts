@@ -0,0 +1,99 @@
+/**
+ * Property Engine - Handles property holding periods and valuation over time
+ */
+
+import { monthsBetween } from './loanEngine';
+import { getPropertyIndex, type MarketPath } from './marketEngine';
+import type { Property } from './forecastEngine';
+
+export type PropertyStatus = 'pending' | 'ppor' | 'investment' | 'vacant' | 'sold';
+
+export interface PropertyUseChange {
+  date: Date;
+  status: 'ppor' | 'investment' | 'vacant';
+}
+
+// Fields that decide a property's use over time
+export type PropertyTimeline = Pick<
+  Property,
+  'purchaseDate' | 'soldOn' | 'becomesIpOn' | 'becomesPporOn' | 'useChanges' | 'rentPwCents'
+>;
+
+/**
+ * List a property's changes of use in date order
+ * Combines the property's own becomesIpOn/becomesPporOn dates with those added by plan events
+ * @param property - Property to read
+ * @returns Dated changes of use, earliest first
+ */
+export function getUseChanges(property: PropertyTimeline): PropertyUseChange[] {
+  const changes: PropertyUseChange[] = [];
+  if (property.becomesIpOn) changes.push({ date: property.becomesIpOn, status: 'investment' });
+  if (property.becomesPporOn) changes.push({ date: property.becomesPporOn, status: 'ppor' });
+  changes.push(...(property.useChanges || []));
+  return changes.sort((a, b) => a.date.getTime() - b.date.getTime());
+}
+
+/**
+ * Resolve a property's status during a calendar month
+ * Before its first change of use a property is the opposite of what it becomes:
+ * a home before it is first rented or left vacant, rented (or vacant if it has no rent)
+ * before it first becomes the home
+ * @param property - Property to check
+ * @param date - Month being projected
+ * @returns Status for the month; 'pending' before purchase settles
+ */
+export function getPropertyStatus(property: PropertyTimeline, date: Date): PropertyStatus {
+  if (monthsBetween(property.purchaseDate, date) < 0) return 'pending';
+  if (property.soldOn && monthsBetween(property.soldOn, date) >= 0) return 'sold';
+
+  const changes = getUseChanges(property);
+
+  let status: PropertyStatus;
+  if (changes.length === 0) {
+    status = property.rentPwCents > 0 ? 'investment' : 'ppor';
+  } else if (changes[0].status !== 'ppor') {
+    status = 'ppor';
+  } else {
+    status = property.rentPwCents > 0 ? 'investment' : 'vacant';
+  }
+
+  for (const change of changes) {
+    if (monthsBetween(change.date, date) >= 0) {
+      status = change.status;
+    }
+  }
+
+  return status;
+}
+
+/**
+ * Check whether a property is owned during a calendar month
+ * @param property - Property to check
+ * @param date - Month being projected
+ * @returns True between settlement of the purchase and settlement of any sale
+ */
+export function isPropertyHeld(property: Property, date: Date): boolean {
+  const status = getPropertyStatus(property, date);
+  return status !== 'pending' && status !== 'sold';
+}
+
+/**
+ * Get a property's market value in a calendar month
+ * Properties bought after the forecast starts grow from their purchase price
+ * @param property - Property to value
+ * @param date - Month being projected
+ * @param startDate - Forecast start date, when valueNowCents applies
+ * @param market - Simulated market path moving values off the property's growth rate
+ * @returns Market value in cents
+ */
+export function getPropertyValue(property: Property, date: Date, startDate: Date, market?: MarketPath): number {
+  if (monthsBetween(startDate, property.purchaseDate) > 0) {
+    const yearsHeld = monthsBetween(property.purchaseDate, date) / 12;
+    return property.purchasePriceCents * Math.pow(1 + property.valueGrowthPa, Math.max(0, yearsHeld)) *
+      getPropertyIndex(market, property.purchaseDate, date);
+  }
+
+  const yearsFromStart = monthsBetween(startDate, date) / 12;
+  return property.valueNowCents * Math.pow(1 + property.valueGrowthPa, yearsFromStart) *
+    getPropertyIndex(market, startDate, date);
+}
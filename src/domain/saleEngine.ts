@@ -0,0 +1,212 @@
+/**
+ * Sale Engine - Settles property sales: selling costs, loan payout, CGT and where the proceeds go
+ */
+
+import {
+  calculateCGT,
+  CGT_CONSTANTS,
+  getFinancialYear,
+  SALE_CONSTANTS,
+} from './constants';
+import { getSecurityPropertyIds, monthsBetween, removeSecurity, splitAcrossSecurity } from './loanEngine';
+import { calculateMainResidenceExemption } from './mainResidenceEngine';
+import { getOffsetCapacity, type OffsetAccount } from './offsetEngine';
+import { getPropertyValue, isPropertyHeld } from './propertyEngine';
+import { getPropertyStampDuty } from './stampDutyEngine';
+import { getMarginalTaxRate } from './taxRules';
+import type { HouseholdBalances } from './allocationEngine';
+import type { PlanState } from './eventEngine';
+import type { Property } from './forecastEngine';
+
+export type SaleProceedsRule =
+  | { destination: 'cash' }
+  | { destination: 'offset'; offsetId?: string } // Account offsetting the most debt when none is chosen
+  | { destination: 'portfolio' };
+
+export interface SaleSeller {
+  personId: string;
+  share: number; // Ownership share (0-1)
+  annualTaxableIncome: number; // Taxable income for the year of sale, before the gain
+}
+
+export interface SaleStatement {
+  propertyId: string;
+  propertyName: string;
+  date: Date;
+  salePrice: number;
+  sellingCosts: number;
+  costBase: number;
+  holdingMonths: number;
+  capitalGain: number;
+  exemptFraction: number; // Share of the gain covered by the main residence exemption
+  costBaseResetDate?: Date; // Home first rented out: cost base reset to market value on this date
+  discountApplied: boolean;
+  cgt: number;
+  cgtByPerson: Record<string, number>;
+  debtRepaid: number;
+  netProceeds: number; // What the owners walk away with
+  destination: SaleProceedsRule['destination'];
+  offsetId?: string; // Offset account credited when proceeds go to an offset
+}
+
+// Net proceeds land in the cash buffer unless a scenario configures otherwise
+export const DEFAULT_SALE_PROCEEDS_RULE: SaleProceedsRule = { destination: 'cash' };
+
+/**
+ * Calculate agent commission and other selling costs
+ * @param salePriceCents - Sale price in cents
+ * @returns Selling costs in cents
+ */
+export function calculateSellingCosts(salePriceCents: number): number {
+  return Math.round(salePriceCents * SALE_CONSTANTS.AGENT_COMMISSION_PCT) +
+    SALE_CONSTANTS.FIXED_SELLING_COSTS_CENTS;
+}
+
+/**
+ * Settle a property sale
+ * Pays selling costs, repays the loans secured against the property and each seller's CGT
+ * @param state - Plan state (mutated: linked loans are repaid and released from the property)
+ * @param property - Property whose soldOn date falls in this month
+ * @param date - Month of settlement
+ * @param sellers - Owners with their share and taxable income in the year of sale
+ * @param medicareLevyRate - Medicare levy rate added to each seller's marginal rate
+ * @returns Sale statement; routing of netProceeds is left to the caller
+ */
+export function settlePropertySale(
+  state: PlanState,
+  property: Property,
+  date: Date,
+  sellers: SaleSeller[],
+  medicareLevyRate: number
+): SaleStatement {
+  const salePrice = state.salePrices[property.id] ?? getPropertyValue(property, date, state.startDate, state.market);
+  const sellingCosts = calculateSellingCosts(salePrice);
+  const mainResidence = calculateMainResidenceExemption(
+    property,
+    date,
+    state.properties.filter(p => p.id !== property.id),
+    state.startDate,
+    state.market
+  );
+  const exemptFraction = mainResidence.exemptFraction;
+
+  // A cost base reset also resets when the property is taken to have been acquired
+  const costBase = mainResidence.costBaseResetCents ??
+    property.purchasePriceCents + getPropertyStampDuty(property, state.stateCode).total;
+  const acquiredOn = mainResidence.costBaseResetDate || property.purchaseDate;
+  const holdingMonths = monthsBetween(acquiredOn, date);
+  const capitalGain = Math.max(0, salePrice - sellingCosts - costBase);
+
+  // Each seller pays CGT on their share at their marginal rate for the year of sale
+  const cgtByPerson: Record<string, number> = {};
+  const discount = holdingMonths >= CGT_CONSTANTS.MINIMUM_HOLDING_MONTHS ? CGT_CONSTANTS.DISCOUNT_RATE : 0;
+  const financialYear = getFinancialYear(date);
+  for (const seller of sellers) {
+    const gainShare = capitalGain * (1 - exemptFraction) * seller.share;
+    const taxableWithGain = seller.annualTaxableIncome + gainShare * (1 - discount);
+    const marginalRate = getMarginalTaxRate(taxableWithGain, financialYear) + medicareLevyRate;
+
+    cgtByPerson[seller.personId] = calculateCGT(0, gainShare, holdingMonths, marginalRate);
+  }
+  const cgt = Object.values(cgtByPerson).reduce((sum, amount) => sum + amount, 0);
+
+  // Loans secured by other properties too are repaid by the sold property's share of their value
+  // and stay secured by the rest
+  let debtRepaid = 0;
+  state.loans.forEach((loan, index) => {
+    if (!getSecurityPropertyIds(loan).includes(property.id)) return;
+
+    const loanState = state.loanStates[index];
+    const released = removeSecurity(loan, property.id);
+    if (!released) {
+      debtRepaid += loanState.balance;
+      loanState.balance = 0;
+      loanState.redrawAvailable = 0;
+      return;
+    }
+
+    const values: Record<string, number> = { [property.id]: salePrice };
+    for (const other of state.properties) {
+      if (other.id !== property.id && isPropertyHeld(other, date)) {
+        values[other.id] = getPropertyValue(other, date, state.startDate, state.market);
+      }
+    }
+    const repaid = Math.min(
+      loanState.balance,
+      Math.round(splitAcrossSecurity(loan, loanState.balance, values)[property.id] || 0)
+    );
+    debtRepaid += repaid;
+    loanState.balance -= repaid;
+    loanState.fixedBalance = Math.min(loanState.fixedBalance || 0, loanState.balance);
+    state.loans[index] = released;
+  });
+
+  return {
+    propertyId: property.id,
+    propertyName: property.name,
+    date,
+    salePrice,
+    sellingCosts,
+    costBase,
+    holdingMonths,
+    capitalGain,
+    exemptFraction,
+    costBaseResetDate: mainResidence.costBaseResetDate,
+    discountApplied: discount > 0,
+    cgt,
+    cgtByPerson,
+    debtRepaid,
+    netProceeds: salePrice - sellingCosts - debtRepaid - cgt,
+    destination: 'cash',
+  };
+}
+
+/**
+ * Pay a sale's net proceeds into cash, an offset account or the portfolio
+ * Offsets are only credited while one of their loans is still running; otherwise proceeds stay in cash
+ * @param statement - Settled sale with positive net proceeds (mutated: records destination)
+ * @param rule - Where proceeds should go
+ * @param balances - Household balances (mutated)
+ * @param state - Plan state
+ * @param offsets - Offset accounts
+ * @param date - Month of settlement
+ */
+export function routeSaleProceeds(
+  statement: SaleStatement,
+  rule: SaleProceedsRule,
+  balances: HouseholdBalances,
+  state: PlanState,
+  offsets: OffsetAccount[],
+  date: Date
+): void {
+  const amount = statement.netProceeds;
+
+  if (rule.destination === 'portfolio') {
+    balances.portfolioBalance += amount;
+    balances.portfolioCostBase += amount;
+    statement.destination = 'portfolio';
+    return;
+  }
+
+  if (rule.destination === 'offset') {
+    const running = state.loans
+      .map((loan, index) => ({ loan, state: state.loanStates[index] }))
+      .filter(entry => monthsBetween(entry.loan.startDate, date) >= 0);
+    const open = offsets
+      .map(account => ({ account, capacity: getOffsetCapacity(account, running) }))
+      .filter(entry => entry.capacity > 0)
+      .sort((a, b) => b.capacity - a.capacity);
+    const target = open.find(entry => entry.account.id === rule.offsetId) || open[0];
+
+    if (target) {
+      const { id } = target.account;
+      balances.offsetBalances[id] = (balances.offsetBalances[id] || 0) + amount;
+      statement.destination = 'offset';
+      statement.offsetId = id;
+      return;
+    }
+  }
+
+  balances.cashBuffer += amount;
+  statement.destination = 'cash';
+}
@@ -0,0 +1,231 @@
+/**
+ * Sensitivity Engine - Finds which forecast assumptions move an outcome the most
+ * Each assumption is nudged down and up on its own, the forecast rerun, and the change in the
+ * chosen outcome recorded against the unchanged forecast
+ * All monetary values are in cents
+ */
+
+import { generateSummary, runForecast, type ForecastMonth, type Scenario } from './forecastEngine';
+import { getSecurityPropertyIds } from './loanEngine';
+
+export type SensitivityMetric = 'retirementNetWorth' | 'minCashBuffer' | 'debtFreeMonths';
+
+export type AssumptionKind =
+  | 'inflation'
+  | 'wageGrowth'
+  | 'superReturn'
+  | 'portfolioReturn'
+  | 'propertyGrowth'
+  | 'rent'
+  | 'loanRate';
+
+export interface SensitivityAssumption {
+  kind: AssumptionKind;
+  targetId?: string; // Property or loan the assumption belongs to
+  name?: string; // Property name, or the loan's name after the property securing it
+}
+
+export interface SensitivityDeltas {
+  rate: number; // Moved up and down on growth, return, inflation and interest rates (0.01 = 1 point)
+  rent: number; // Share of each property's rent moved up and down
+}
+
+export interface SensitivityResult {
+  assumption: SensitivityAssumption;
+  low: number; // Outcome with the assumption nudged down
+  high: number; // Outcome with the assumption nudged up
+  lowChange: number;
+  highChange: number;
+  swing: number; // Range the outcome covers across both nudges and the unchanged forecast
+}
+
+export interface SensitivityAnalysis {
+  metric: SensitivityMetric;
+  base: number; // Outcome of the unchanged forecast
+  results: SensitivityResult[]; // Largest swing first
+}
+
+export const DEFAULT_SENSITIVITY_DELTAS: SensitivityDeltas = {
+  rate: 0.01,
+  rent: 0.1,
+};
+
+/**
+ * Read an outcome from a forecast
+ * A forecast that is never debt free counts as debt free at its end
+ * @param forecast - Complete monthly forecast
+ * @param scenario - Scenario the forecast was run on
+ * @param metric - Outcome to read
+ * @returns Net worth at retirement or lowest cash buffer in cents, or months until debt free
+ */
+export function getSensitivityOutcome(
+  forecast: ForecastMonth[],
+  scenario: Scenario,
+  metric: SensitivityMetric
+): number {
+  if (forecast.length === 0) return 0;
+
+  switch (metric) {
+    case 'retirementNetWorth':
+      return generateSummary(forecast, scenario.profile.retirementAge, scenario.profile.dateOfBirth).retirement.netWorth;
+    case 'minCashBuffer':
+      return Math.min(...forecast.map(month => month.cashBuffer));
+    case 'debtFreeMonths': {
+      // Debt free from the month after the last one carrying debt
+      let lastInDebt = -1;
+      forecast.forEach((month, index) => {
+        if (month.totalDebt > 0) lastInDebt = index;
+      });
+      return lastInDebt + 1;
+    }
+  }
+}
+
+/**
+ * List the assumptions a scenario's outcome can be tested against
+ * Properties without rent have no rent to nudge
+ * @param scenario - Scenario being analysed
+ * @returns Household assumptions, then each property's growth and rent, then each loan's rate
+ */
+export function getSensitivityAssumptions(scenario: Scenario): SensitivityAssumption[] {
+  const assumptions: SensitivityAssumption[] = [
+    { kind: 'inflation' },
+    { kind: 'wageGrowth' },
+    { kind: 'superReturn' },
+    { kind: 'portfolioReturn' },
+  ];
+
+  for (const property of scenario.properties) {
+    assumptions.push({ kind: 'propertyGrowth', targetId: property.id, name: property.name });
+    if (property.rentPwCents > 0) {
+      assumptions.push({ kind: 'rent', targetId: property.id, name: property.name });
+    }
+  }
+
+  // Loans are named after their main security, numbered when a property secures several
+  const propertyNames: Record<string, string> = Object.fromEntries(
+    scenario.properties.map(property => [property.id, property.name])
+  );
+  const loanNames = scenario.loans.map((loan, index) => {
+    const securityName = propertyNames[getSecurityPropertyIds(loan)[0]];
+    return securityName ? `${securityName} loan` : `Loan ${index + 1}`;
+  });
+  scenario.loans.forEach((loan, index) => {
+    const sameName = loanNames.filter(name => name === loanNames[index]).length;
+    const position = loanNames.slice(0, index + 1).filter(name => name === loanNames[index]).length;
+    assumptions.push({
+      kind: 'loanRate',
+      targetId: loan.id,
+      name: sameName > 1 ? `${loanNames[index]} ${position}` : loanNames[index],
+    });
+  });
+
+  return assumptions;
+}
+
+/**
+ * Move one assumption of a scenario
+ * A loan's rate moves its variable, fixed and cash rate margin rates together, floored at zero
+ * @param scenario - Scenario to change
+ * @param assumption - Assumption to move
+ * @param direction - 1 to nudge up, -1 to nudge down
+ * @param deltas - Size of the nudges
+ * @returns Scenario with the assumption moved
+ */
+function nudgeAssumption(
+  scenario: Scenario,
+  assumption: SensitivityAssumption,
+  direction: 1 | -1,
+  deltas: SensitivityDeltas
+): Scenario {
+  const rateDelta = deltas.rate * direction;
+  const { profile } = scenario;
+
+  switch (assumption.kind) {
+    case 'inflation':
+      return { ...scenario, profile: { ...profile, inflationCpiPa: profile.inflationCpiPa + rateDelta } };
+    case 'wageGrowth':
+      // Earners grow at their own rate; the profile's applies when the scenario has no people
+      return {
+        ...scenario,
+        profile: { ...profile, salaryGrowthPa: profile.salaryGrowthPa + rateDelta },
+        people: scenario.people.map(person => ({ ...person, salaryGrowthPa: person.salaryGrowthPa + rateDelta })),
+      };
+    case 'superReturn':
+      return { ...scenario, profile: { ...profile, returnSuperPa: profile.returnSuperPa + rateDelta } };
+    case 'portfolioReturn':
+      return { ...scenario, profile: { ...profile, returnPortfolioPa: profile.returnPortfolioPa + rateDelta } };
+    case 'propertyGrowth':
+      return {
+        ...scenario,
+        properties: scenario.properties.map(property =>
+          property.id === assumption.targetId
+            ? { ...property, valueGrowthPa: property.valueGrowthPa + rateDelta }
+            : property
+        ),
+      };
+    case 'rent':
+      return {
+        ...scenario,
+        properties: scenario.properties.map(property =>
+          property.id === assumption.targetId
+            ? { ...property, rentPwCents: Math.round(property.rentPwCents * (1 + deltas.rent * direction)) }
+            : property
+        ),
+      };
+    case 'loanRate': {
+      const move = (rate: number) => Math.max(0, rate + rateDelta);
+      return {
+        ...scenario,
+        loans: scenario.loans.map(loan =>
+          loan.id === assumption.targetId
+            ? {
+                ...loan,
+                annualRate: move(loan.annualRate),
+                rateChanges: loan.rateChanges?.map(change => ({ ...change, annualRate: move(change.annualRate) })),
+                rateMarginPa: loan.rateMarginPa !== undefined ? loan.rateMarginPa + rateDelta : undefined,
+                fixedRatePa: loan.fixedRatePa !== undefined ? move(loan.fixedRatePa) : undefined,
+              }
+            : loan
+        ),
+      };
+    }
+  }
+}
+
+/**
+ * Run the forecast with each assumption nudged down and up
+ * @param scenario - Scenario to analyse
+ * @param metric - Outcome to measure
+ * @param deltas - Size of the nudges
+ * @returns Outcome of the unchanged forecast and each assumption's effect, largest swing first
+ */
+export function runSensitivity(
+  scenario: Scenario,
+  metric: SensitivityMetric,
+  deltas: SensitivityDeltas = DEFAULT_SENSITIVITY_DELTAS
+): SensitivityAnalysis {
+  const base = getSensitivityOutcome(runForecast(scenario), scenario, metric);
+
+  const results = getSensitivityAssumptions(scenario).map(assumption => {
+    const lowScenario = nudgeAssumption(scenario, assumption, -1, deltas);
+    const highScenario = nudgeAssumption(scenario, assumption, 1, deltas);
+    const low = getSensitivityOutcome(runForecast(lowScenario), lowScenario, metric);
+    const high = getSensitivityOutcome(runForecast(highScenario), highScenario, metric);
+
+    return {
+      assumption,
+      low,
+      high,
+      lowChange: low - base,
+      highChange: high - base,
+      swing: Math.max(low, high, base) - Math.min(low, high, base),
+    };
+  });
+
+  return {
+    metric,
+    base,
+    results: results.sort((a, b) => b.swing - a.swing),
+  };
+}
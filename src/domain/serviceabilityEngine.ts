@@ -0,0 +1,194 @@
+/**
+ * Serviceability Engine - Estimates how much a lender would let the household borrow
+ * Follows the usual lender assessment: shaded rent, every debt repaid at its rate plus the
+ * APRA buffer, and the higher of declared living expenses and a HEM-style benchmark
+ * All monetary values are in cents
+ */
+
+import { calculateMonthlyPayment, getFinancialYear, LOAN_CONSTANTS } from './constants';
+import { getTaxpayer } from './taxEngine';
+import { calculateIncomeTax, calculateMedicareLevy } from './taxRules';
+import { getHouseholdEarners, type ForecastMonth, type Scenario } from './forecastEngine';
+
+export interface BorrowingRequest {
+  annualRate: number; // Rate offered on the new loan, before the buffer
+  rentPwCents?: number; // Rent expected from the property being bought
+  loanAmountCents?: number; // Loan applied for; the maximum is assessed when omitted
+}
+
+export interface ServiceabilityAssessment {
+  date: Date;
+  assessmentRate: number; // New loan's rate plus the buffer
+  grossIncome: number; // Annual salary and unshaded rent
+  netIncome: number; // Monthly salary and shaded rent after tax
+  declaredExpenses: number; // Monthly
+  benchmarkExpenses: number; // Monthly
+  expensesUsed: number; // Higher of declared and benchmark
+  existingDebt: number;
+  existingCommitments: number; // Monthly repayments at assessed rates, holding costs and rent
+  surplus: number; // Monthly, before the new loan
+  serviceabilityLimit: number; // Loan the surplus repays at the assessment rate
+  dtiLimit: number; // Loan that keeps total debt within the DTI limit
+  maxBorrowing: number;
+  stressedMaxBorrowing: number; // After the scenario's borrowing capacity haircut
+  loanAmount: number;
+  newLoanRepayment: number; // Monthly at the assessment rate
+  dti: number; // Total debt including the new loan over gross annual income
+  netSurplus: number; // Monthly surplus after the new loan
+}
+
+interface ExpenseBenchmark {
+  maxIncome: number; // Gross annual household income the benchmark applies up to ($)
+  single: number; // Monthly ($)
+  couple: number; // Monthly ($)
+}
+
+export const SERVICEABILITY_CONSTANTS = {
+  APRA_BUFFER: 0.03, // Added to every loan's rate
+  RENTAL_SHADING: 0.8, // Share of rent counted as income
+  DTI_LIMIT: 6, // Total debt as a multiple of gross income
+  ASSESSMENT_TERM_YEARS: 30, // Term the new loan is assessed over
+  BENCHMARK_BASE_YEAR: 2025, // Year the expense benchmarks are priced in
+};
+
+// Indicative household expenditure benchmarks by gross income, before dependants
+export const EXPENSE_BENCHMARKS: ExpenseBenchmark[] = [
+  { maxIncome: 50000, single: 1600, couple: 2500 },
+  { maxIncome: 100000, single: 1900, couple: 2700 },
+  { maxIncome: 150000, single: 2300, couple: 3000 },
+  { maxIncome: 250000, single: 2800, couple: 3600 },
+  { maxIncome: 350000, single: 3200, couple: 4200 },
+  { maxIncome: Infinity, single: 3600, couple: 5000 },
+];
+
+/**
+ * Look up the benchmark living expenses for a household
+ * @param grossIncomeCents - Gross annual household income in cents
+ * @param isCouple - Whether the household has two earners
+ * @param date - Month being assessed, used to index the benchmark
+ * @param cpiRate - Annual inflation rate
+ * @returns Monthly benchmark expenses in cents
+ */
+export function getExpenseBenchmark(
+  grossIncomeCents: number,
+  isCouple: boolean,
+  date: Date,
+  cpiRate: number
+): number {
+  const band = EXPENSE_BENCHMARKS.find(b => grossIncomeCents / 100 <= b.maxIncome)
+    || EXPENSE_BENCHMARKS[EXPENSE_BENCHMARKS.length - 1];
+  const years = Math.max(0, date.getFullYear() - SERVICEABILITY_CONSTANTS.BENCHMARK_BASE_YEAR);
+  const monthly = (isCouple ? band.couple : band.single) * 100;
+
+  return Math.round(monthly * Math.pow(1 + cpiRate, years));
+}
+
+/**
+ * Get the loan a monthly repayment services
+ * @param monthlyPaymentCents - Repayment available each month
+ * @param annualRate - Assessment rate
+ * @param termYears - Assessment term
+ * @returns Principal in cents
+ */
+function getServiceablePrincipal(monthlyPaymentCents: number, annualRate: number, termYears: number): number {
+  if (monthlyPaymentCents <= 0) return 0;
+
+  const monthlyRate = annualRate / LOAN_CONSTANTS.MONTHS_PER_YEAR;
+  const payments = termYears * LOAN_CONSTANTS.MONTHS_PER_YEAR;
+  if (monthlyRate === 0) return Math.round(monthlyPaymentCents * payments);
+
+  return Math.round(monthlyPaymentCents * (1 - Math.pow(1 + monthlyRate, -payments)) / monthlyRate);
+}
+
+/**
+ * Assess the household's borrowing capacity in a forecast month
+ * Income, living costs and loans are read from the month, so a future purchase is assessed
+ * against the household as the forecast expects it to be then
+ * @param scenario - Scenario the forecast was run for
+ * @param month - Forecast month of the application
+ * @param request - New loan's rate, the property's rent and the amount sought
+ * @returns Serviceability breakdown in cents
+ */
+export function assessBorrowingCapacity(
+  scenario: Scenario,
+  month: ForecastMonth,
+  request: BorrowingRequest
+): ServiceabilityAssessment {
+  const { APRA_BUFFER, RENTAL_SHADING, DTI_LIMIT, ASSESSMENT_TERM_YEARS } = SERVICEABILITY_CONSTANTS;
+  const earners = getHouseholdEarners(scenario);
+  const financialYear = getFinancialYear(month.date);
+  const assessmentRate = request.annualRate + APRA_BUFFER;
+
+  // The new property's rent is shared equally between earners
+  const newRent = (request.rentPwCents || 0) * 52 / 12;
+  const newRentShare = earners.length > 0 ? newRent / earners.length : 0;
+
+  let grossIncome = 0;
+  let netIncome = 0;
+  for (const person of earners) {
+    const income = month.personIncomes.find(p => p.personId === person.id);
+    const salary = income?.salary || 0;
+    const rent = (income?.rentalIncome || 0) + newRentShare;
+    const assessable = (salary + rent * RENTAL_SHADING) * 12;
+    const taxpayer = getTaxpayer(person, earners, financialYear, scenario.profile.medicareLevy);
+
+    grossIncome += (salary + rent) * 12;
+    netIncome += (assessable -
+      calculateIncomeTax(assessable, financialYear, taxpayer) -
+      calculateMedicareLevy(assessable, financialYear, taxpayer)) / 12;
+  }
+
+  const declaredExpenses = month.livingExpenses;
+  const benchmarkExpenses = getExpenseBenchmark(
+    grossIncome,
+    earners.length > 1,
+    month.date,
+    scenario.profile.inflationCpiPa
+  );
+  const expensesUsed = Math.max(declaredExpenses, benchmarkExpenses);
+
+  // Existing loans are assessed as principal and interest over their remaining term
+  let existingDebt = 0;
+  let existingRepayments = 0;
+  for (const loan of month.loanPositions) {
+    existingDebt += loan.balance;
+    existingRepayments += calculateMonthlyPayment(
+      loan.balance,
+      loan.annualRate + APRA_BUFFER,
+      Math.max(1, loan.remainingMonths) / LOAN_CONSTANTS.MONTHS_PER_YEAR
+    );
+  }
+  const existingCommitments = existingRepayments + month.propertyExpenses + month.crashPadRent;
+
+  const surplus = netIncome - expensesUsed - existingCommitments;
+  const serviceabilityLimit = getServiceablePrincipal(surplus, assessmentRate, ASSESSMENT_TERM_YEARS);
+  const dtiLimit = Math.max(0, Math.round(grossIncome * DTI_LIMIT - existingDebt));
+  const maxBorrowing = Math.min(serviceabilityLimit, dtiLimit);
+  const stressedMaxBorrowing = Math.round(maxBorrowing * (1 - scenario.stressBorrowCapDownPct / 100));
+
+  const loanAmount = request.loanAmountCents ?? maxBorrowing;
+  const newLoanRepayment = loanAmount > 0
+    ? calculateMonthlyPayment(loanAmount, assessmentRate, ASSESSMENT_TERM_YEARS)
+    : 0;
+
+  return {
+    date: month.date,
+    assessmentRate,
+    grossIncome: Math.round(grossIncome),
+    netIncome: Math.round(netIncome),
+    declaredExpenses: Math.round(declaredExpenses),
+    benchmarkExpenses,
+    expensesUsed: Math.round(expensesUsed),
+    existingDebt,
+    existingCommitments: Math.round(existingCommitments),
+    surplus: Math.round(surplus),
+    serviceabilityLimit,
+    dtiLimit,
+    maxBorrowing,
+    stressedMaxBorrowing,
+    loanAmount,
+    newLoanRepayment,
+    dti: grossIncome > 0 ? (existingDebt + loanAmount) / grossIncome : 0,
+    netSurplus: Math.round(surplus - newLoanRepayment),
+  };
+}
@@ -0,0 +1,83 @@
+import { describe, expect, it } from 'vitest';
+import { calculateStampDuty, getPropertyStampDuty, type DutyPurchase } from './stampDutyEngine';
+
+const investor: DutyPurchase = {
+  isOwnerOccupier: false,
+  isFirstHome: false,
+  isOffThePlan: false,
+  isForeignPurchaser: false,
+};
+const homeBuyer: DutyPurchase = { ...investor, isOwnerOccupier: true };
+
+describe('calculateStampDuty', () => {
+  it('charges the general NSW schedule', () => {
+    // $10,909 plus 4.5% over $364,000
+    expect(calculateStampDuty(100000000, 'NSW', investor).total).toBe(3952900);
+  });
+
+  it('applies the Victorian home concession in the $440,000-$550,000 bracket', () => {
+    // $18,370 plus 6% over $440,000
+    expect(calculateStampDuty(50000000, 'VIC', homeBuyer).total).toBe(2197000);
+    // $2,870 plus 6% over $130,000 on the general rates
+    expect(calculateStampDuty(50000000, 'VIC', investor).total).toBe(2507000);
+  });
+
+  it('charges Victorian duty on the whole value above $960,000', () => {
+    expect(calculateStampDuty(100000000, 'VIC', investor).total).toBe(5500000);
+  });
+
+  it('exempts NSW first home buyers up to $800,000 and phases relief out to $1m', () => {
+    const firstHome = { ...homeBuyer, isFirstHome: true };
+
+    expect(calculateStampDuty(80000000, 'NSW', firstHome).total).toBe(0);
+
+    const halfway = calculateStampDuty(90000000, 'NSW', firstHome);
+    expect(halfway.baseDuty).toBe(3502900);
+    expect(halfway.concession).toBe(1751450);
+    expect(halfway.total).toBe(1751450);
+
+    expect(calculateStampDuty(100000000, 'NSW', firstHome).concession).toBe(0);
+  });
+
+  it('gives investors no first home relief', () => {
+    expect(calculateStampDuty(80000000, 'NSW', { ...investor, isFirstHome: true }).concession).toBe(0);
+  });
+
+  it('adds the foreign purchaser surcharge on the price', () => {
+    const duty = calculateStampDuty(100000000, 'NSW', { ...investor, isForeignPurchaser: true });
+
+    expect(duty.foreignSurcharge).toBe(9000000);
+    expect(duty.total).toBe(3952900 + 9000000);
+  });
+
+  it('uses the Northern Territory formula below $525,000', () => {
+    // 0.06571441V² + 15V, with V in thousands
+    expect(calculateStampDuty(50000000, 'NT', investor).total).toBe(2392860);
+  });
+
+  it('costs unknown states on the NSW schedule', () => {
+    const duty = calculateStampDuty(100000000, 'XX', investor);
+
+    expect(duty.stateCode).toBe('NSW');
+    expect(duty.total).toBe(3952900);
+  });
+});
+
+describe('getPropertyStampDuty', () => {
+  const property = {
+    purchasePriceCents: 50000000,
+    purchaseDate: new Date('2026-01-01'),
+    rentPwCents: 0,
+    stateCode: 'VIC',
+  };
+
+  it('uses owner-occupier rates for a home from settlement', () => {
+    expect(getPropertyStampDuty(property, 'NSW').total).toBe(2197000);
+  });
+
+  it('uses general rates for a property rented from settlement', () => {
+    const rented = { ...property, rentPwCents: 60000 };
+
+    expect(getPropertyStampDuty(rented, 'NSW').total).toBe(2507000);
+  });
+});
@@ -0,0 +1,287 @@
+/**
+ * Stamp Duty Engine - Transfer duty on residential purchases for each state and territory
+ * Schedules are in dollars as published by each revenue office; results are in cents
+ */
+
+import { getPropertyStatus, PropertyTimeline } from './propertyEngine';
+import type { Property } from './forecastEngine';
+
+export interface DutyBracket {
+  min: number; // Dutiable value the bracket starts at ($)
+  base: number; // Duty on the value up to min ($)
+  rate: number; // Rate on the value above min
+  wholeValue?: boolean; // Rate applies to the whole value instead of base plus the excess
+}
+
+export interface DutyPurchase {
+  isOwnerOccupier: boolean;
+  isFirstHome: boolean;
+  isOffThePlan: boolean;
+  isForeignPurchaser: boolean;
+}
+
+export interface StampDutyBreakdown {
+  stateCode: string;
+  baseDuty: number;
+  concession: number; // First home buyer or off-the-plan relief, whichever is larger
+  foreignSurcharge: number;
+  total: number;
+}
+
+// Property fields that set the duty on its purchase
+export type DutiableProperty = PropertyTimeline &
+  Pick<Property, 'purchasePriceCents' | 'stateCode' | 'isFirstHome' | 'isOffThePlan' | 'isForeignPurchaser'>;
+
+interface FirstHomeRules {
+  exemptUpTo: number; // No duty at or below this price ($)
+  concessionUpTo: number; // Relief phases out linearly up to this price ($)
+  newHomeExemptUpTo?: number; // New and off-the-plan homes exempt up to this price ($)
+}
+
+interface StateDutyRules {
+  general: DutyBracket[];
+  ownerOccupier?: DutyBracket[]; // Cheaper home rates where the state has them
+  foreignSurchargeRate: number;
+  firstHome?: FirstHomeRules;
+  // Share of duty waived on an off-the-plan purchase; dutyOn gives the duty on any value
+  offThePlanRelief?: (price: number, isOwnerOccupier: boolean, dutyOn: (value: number) => number) => number;
+}
+
+// Assumed share of an off-the-plan price that is construction still to be done at contract
+export const OFF_THE_PLAN_CONSTRUCTION_SHARE = 0.5;
+
+// Transfer duty rules by state, 2025-26
+export const STAMP_DUTY_RULES: Record<string, StateDutyRules> = {
+  NSW: {
+    general: [
+      { min: 0, base: 0, rate: 0.0125 },
+      { min: 17000, base: 212, rate: 0.015 },
+      { min: 36000, base: 497, rate: 0.0175 },
+      { min: 97000, base: 1564, rate: 0.035 },
+      { min: 364000, base: 10909, rate: 0.045 },
+      { min: 1212000, base: 49069, rate: 0.055 },
+      { min: 3636000, base: 182389, rate: 0.07 }, // Premium property duty
+    ],
+    foreignSurchargeRate: 0.09,
+    firstHome: { exemptUpTo: 800000, concessionUpTo: 1000000 },
+  },
+  VIC: {
+    general: [
+      { min: 0, base: 0, rate: 0.014 },
+      { min: 25000, base: 350, rate: 0.024 },
+      { min: 130000, base: 2870, rate: 0.06 },
+      { min: 960000, base: 0, rate: 0.055, wholeValue: true },
+      { min: 2000000, base: 110000, rate: 0.065 },
+    ],
+    // Principal place of residence concession between $130,000 and $550,000
+    ownerOccupier: [
+      { min: 0, base: 0, rate: 0.014 },
+      { min: 25000, base: 350, rate: 0.024 },
+      { min: 130000, base: 2870, rate: 0.05 },
+      { min: 440000, base: 18370, rate: 0.06 },
+      { min: 550000, base: 28070, rate: 0.06 },
+      { min: 960000, base: 0, rate: 0.055, wholeValue: true },
+      { min: 2000000, base: 110000, rate: 0.065 },
+    ],
+    foreignSurchargeRate: 0.08,
+    firstHome: { exemptUpTo: 600000, concessionUpTo: 750000 },
+    // Construction after the contract date is not dutiable
+    offThePlanRelief: (price, _isOwnerOccupier, dutyOn) => {
+      const fullDuty = dutyOn(price);
+      return fullDuty > 0 ? 1 - dutyOn(price * (1 - OFF_THE_PLAN_CONSTRUCTION_SHARE)) / fullDuty : 0;
+    },
+  },
+  QLD: {
+    general: [
+      { min: 0, base: 0, rate: 0 },
+      { min: 5000, base: 0, rate: 0.015 },
+      { min: 75000, base: 1050, rate: 0.035 },
+      { min: 540000, base: 17325, rate: 0.045 },
+      { min: 1000000, base: 38025, rate: 0.0575 },
+    ],
+    // Home concession rates
+    ownerOccupier: [
+      { min: 0, base: 0, rate: 0.01 },
+      { min: 350000, base: 3500, rate: 0.035 },
+      { min: 540000, base: 10150, rate: 0.045 },
+      { min: 1000000, base: 30850, rate: 0.0575 },
+    ],
+    foreignSurchargeRate: 0.08,
+    firstHome: { exemptUpTo: 700000, concessionUpTo: 800000, newHomeExemptUpTo: Infinity },
+  },
+  WA: {
+    general: [
+      { min: 0, base: 0, rate: 0.019 },
+      { min: 120000, base: 2280, rate: 0.0285 },
+      { min: 150000, base: 3135, rate: 0.038 },
+      { min: 360000, base: 11115, rate: 0.0475 },
+      { min: 725000, base: 28453, rate: 0.0515 },
+    ],
+    foreignSurchargeRate: 0.07,
+    firstHome: { exemptUpTo: 500000, concessionUpTo: 700000 },
+    // Full relief to $650,000, falling to 50% at $750,000
+    offThePlanRelief: (price) => {
+      if (price <= 650000) return 1;
+      if (price <= 750000) return 1 - 0.5 * (price - 650000) / 100000;
+      return 0;
+    },
+  },
+  SA: {
+    general: [
+      { min: 0, base: 0, rate: 0.01 },
+      { min: 12000, base: 120, rate: 0.02 },
+      { min: 30000, base: 480, rate: 0.03 },
+      { min: 50000, base: 1080, rate: 0.035 },
+      { min: 100000, base: 2830, rate: 0.04 },
+      { min: 200000, base: 6830, rate: 0.0425 },
+      { min: 250000, base: 8955, rate: 0.0475 },
+      { min: 300000, base: 11330, rate: 0.05 },
+      { min: 500000, base: 21330, rate: 0.055 },
+    ],
+    foreignSurchargeRate: 0.07,
+    // Relief only for new homes, with no price cap
+    firstHome: { exemptUpTo: 0, concessionUpTo: 0, newHomeExemptUpTo: Infinity },
+  },
+  TAS: {
+    general: [
+      { min: 0, base: 50, rate: 0 },
+      { min: 3000, base: 50, rate: 0.0175 },
+      { min: 25000, base: 435, rate: 0.0225 },
+      { min: 75000, base: 1560, rate: 0.035 },
+      { min: 200000, base: 5935, rate: 0.04 },
+      { min: 375000, base: 12935, rate: 0.0425 },
+      { min: 725000, base: 27810, rate: 0.045 },
+    ],
+    foreignSurchargeRate: 0.08,
+    firstHome: { exemptUpTo: 750000, concessionUpTo: 750000 },
+  },
+  ACT: {
+    general: [
+      { min: 0, base: 0, rate: 0.012 },
+      { min: 200000, base: 2400, rate: 0.022 },
+      { min: 300000, base: 4600, rate: 0.034 },
+      { min: 500000, base: 11400, rate: 0.0432 },
+      { min: 750000, base: 22200, rate: 0.059 },
+      { min: 1000000, base: 36950, rate: 0.064 },
+      { min: 1455000, base: 0, rate: 0.0454, wholeValue: true },
+    ],
+    ownerOccupier: [
+      { min: 0, base: 0, rate: 0.004 },
+      { min: 260000, base: 1040, rate: 0.022 },
+      { min: 300000, base: 1920, rate: 0.034 },
+      { min: 500000, base: 8720, rate: 0.0432 },
+      { min: 750000, base: 19520, rate: 0.059 },
+      { min: 1000000, base: 34270, rate: 0.064 },
+      { min: 1455000, base: 0, rate: 0.0454, wholeValue: true },
+    ],
+    foreignSurchargeRate: 0,
+    // Home Buyer Concession Scheme is income tested rather than price capped
+    firstHome: { exemptUpTo: Infinity, concessionUpTo: Infinity },
+    // Owner-occupied off-the-plan units up to $1m
+    offThePlanRelief: (price, isOwnerOccupier) => (isOwnerOccupier && price <= 1000000 ? 1 : 0),
+  },
+  NT: {
+    // Up to $525,000 duty follows a formula; see calculateNTDuty
+    general: [
+      { min: 525000, base: 0, rate: 0.0495, wholeValue: true },
+      { min: 3000000, base: 0, rate: 0.0575, wholeValue: true },
+      { min: 5000000, base: 0, rate: 0.0595, wholeValue: true },
+    ],
+    foreignSurchargeRate: 0,
+  },
+};
+
+// Unknown state codes are costed on the NSW schedule
+const DEFAULT_STATE_CODE = 'NSW';
+
+/**
+ * Calculate duty from a bracketed schedule
+ * @param value - Dutiable value in dollars
+ * @param brackets - Brackets in ascending order of min
+ * @returns Duty in dollars
+ */
+function dutyFromBrackets(value: number, brackets: DutyBracket[]): number {
+  const bracket = [...brackets].reverse().find(b => value >= b.min);
+  if (!bracket) return 0;
+
+  return bracket.wholeValue ? value * bracket.rate : bracket.base + (value - bracket.min) * bracket.rate;
+}
+
+/**
+ * Calculate Northern Territory duty, which uses a formula below $525,000
+ * @param value - Dutiable value in dollars
+ * @returns Duty in dollars
+ */
+function calculateNTDuty(value: number): number {
+  if (value >= 525000) return dutyFromBrackets(value, STAMP_DUTY_RULES.NT.general);
+
+  const thousands = value / 1000;
+  return 0.06571441 * thousands * thousands + 15 * thousands;
+}
+
+/**
+ * Calculate transfer duty on a residential purchase
+ * @param purchasePriceCents - Purchase price in cents
+ * @param stateCode - State or territory the property is in
+ * @param purchase - Buyer and purchase details that select rates and concessions
+ * @returns Duty before and after concessions, with any foreign purchaser surcharge
+ */
+export function calculateStampDuty(
+  purchasePriceCents: number,
+  stateCode: string,
+  purchase: DutyPurchase
+): StampDutyBreakdown {
+  const code = STAMP_DUTY_RULES[stateCode] ? stateCode : DEFAULT_STATE_CODE;
+  const rules = STAMP_DUTY_RULES[code];
+  const price = purchasePriceCents / 100;
+
+  const brackets = purchase.isOwnerOccupier && rules.ownerOccupier ? rules.ownerOccupier : rules.general;
+  const dutyOn = (value: number) => (code === 'NT' ? calculateNTDuty(value) : dutyFromBrackets(value, brackets));
+  const baseDuty = dutyOn(price);
+
+  // First home relief is for owner-occupiers; the larger of it and off-the-plan relief applies
+  let firstHomeRelief = 0;
+  const firstHome = rules.firstHome;
+  if (firstHome && purchase.isFirstHome && purchase.isOwnerOccupier) {
+    if (purchase.isOffThePlan && price <= (firstHome.newHomeExemptUpTo ?? 0)) {
+      firstHomeRelief = 1;
+    } else if (price <= firstHome.exemptUpTo) {
+      firstHomeRelief = 1;
+    } else if (price < firstHome.concessionUpTo) {
+      firstHomeRelief = (firstHome.concessionUpTo - price) / (firstHome.concessionUpTo - firstHome.exemptUpTo);
+    }
+  }
+  const offThePlanRelief = purchase.isOffThePlan && rules.offThePlanRelief
+    ? rules.offThePlanRelief(price, purchase.isOwnerOccupier, dutyOn)
+    : 0;
+
+  const concession = Math.round(baseDuty * Math.max(firstHomeRelief, offThePlanRelief) * 100);
+  const foreignSurcharge = purchase.isForeignPurchaser
+    ? Math.round(purchasePriceCents * rules.foreignSurchargeRate)
+    : 0;
+  const duty = Math.round(baseDuty * 100);
+
+  return {
+    stateCode: code,
+    baseDuty: duty,
+    concession,
+    foreignSurcharge,
+    total: duty - concession + foreignSurcharge,
+  };
+}
+
+/**
+ * Calculate the duty paid when a property was bought
+ * Owner-occupier rates apply when the property was the owners' home from settlement
+ * @param property - Property bought
+ * @param defaultStateCode - State used when the property does not record one
+ * @returns Duty breakdown in cents
+ */
+export function getPropertyStampDuty(property: DutiableProperty, defaultStateCode: string): StampDutyBreakdown {
+  return calculateStampDuty(property.purchasePriceCents, property.stateCode || defaultStateCode, {
+    isOwnerOccupier: getPropertyStatus(property, property.purchaseDate) === 'ppor',
+    isFirstHome: property.isFirstHome ?? false,
+    isOffThePlan: property.isOffThePlan ?? false,
+    isForeignPurchaser: property.isForeignPurchaser ?? false,
+  });
+}
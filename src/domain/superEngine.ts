@@ -0,0 +1,343 @@
+/**
+ * Super Engine - Handles superannuation contributions, caps, taxes, fees and preservation
+ * Financial years are identified by the calendar year they end in (2026 = 2025-26)
+ */
+
+import { getFinancialYear } from './constants';
+import type { Person } from './forecastEngine';
+
+// Superannuation Guarantee rate by financial year (rate applies from that year onwards)
+export const SG_RATE_SCHEDULE = [
+  { fromFinancialYear: 2014, rate: 0.095 },
+  { fromFinancialYear: 2022, rate: 0.10 },
+  { fromFinancialYear: 2023, rate: 0.105 },
+  { fromFinancialYear: 2024, rate: 0.11 },
+  { fromFinancialYear: 2025, rate: 0.115 },
+  { fromFinancialYear: 2026, rate: 0.12 },
+];
+
+// Contribution caps and thresholds by financial year (in cents)
+// Later years are assumed to stay at the latest legislated amounts
+export const SUPER_CAP_SCHEDULE = [
+  {
+    fromFinancialYear: 2022,
+    concessionalCap: 2750000, // $27,500
+    nonConcessionalCap: 11000000, // $110,000
+    transferBalanceCap: 170000000, // $1.7m
+    maxContributionBaseQuarterly: 5892000, // $58,920
+  },
+  {
+    fromFinancialYear: 2023,
+    concessionalCap: 2750000, // $27,500
+    nonConcessionalCap: 11000000, // $110,000
+    transferBalanceCap: 170000000, // $1.7m
+    maxContributionBaseQuarterly: 6022000, // $60,220
+  },
+  {
+    fromFinancialYear: 2024,
+    concessionalCap: 2750000, // $27,500
+    nonConcessionalCap: 11000000, // $110,000
+    transferBalanceCap: 190000000, // $1.9m
+    maxContributionBaseQuarterly: 6227000, // $62,270
+  },
+  {
+    fromFinancialYear: 2025,
+    concessionalCap: 3000000, // $30,000
+    nonConcessionalCap: 12000000, // $120,000
+    transferBalanceCap: 190000000, // $1.9m
+    maxContributionBaseQuarterly: 6507000, // $65,070
+  },
+  {
+    fromFinancialYear: 2026,
+    concessionalCap: 3000000, // $30,000
+    nonConcessionalCap: 12000000, // $120,000
+    transferBalanceCap: 200000000, // $2.0m
+    maxContributionBaseQuarterly: 6250000, // $62,500
+  },
+];
+
+export const SUPER_CONSTANTS = {
+  CONTRIBUTIONS_TAX_RATE: 0.15,
+  EARNINGS_TAX_RATE: 0.15,
+  DEFAULT_FEE_PCT_PA: 0.007, // 0.7% of balance
+  DEFAULT_ADMIN_FEE_PA_CENTS: 7800, // $78 per year
+  CARRY_FORWARD_YEARS: 5,
+  CARRY_FORWARD_BALANCE_LIMIT_CENTS: 50000000, // $500,000 total super balance
+};
+
+// Preservation age by date of birth (born before the given date)
+export const PRESERVATION_AGE_SCHEDULE = [
+  { bornBefore: new Date('1960-07-01'), age: 55 },
+  { bornBefore: new Date('1961-07-01'), age: 56 },
+  { bornBefore: new Date('1962-07-01'), age: 57 },
+  { bornBefore: new Date('1963-07-01'), age: 58 },
+  { bornBefore: new Date('1964-07-01'), age: 59 },
+];
+
+export interface SuperAccount {
+  personId: string;
+  balance: number;
+  financialYear: number;
+  balanceAtLastFyEnd: number;
+  concessionalThisFy: number;
+  nonConcessionalThisFy: number;
+  // Unused concessional cap from previous financial years
+  carryForward: { financialYear: number; unusedCents: number }[];
+}
+
+export interface SuperContributionInput {
+  salary: number; // Monthly salary in cents, SG is paid on top
+  salarySacrifice: number; // Voluntary concessional contribution requested this month
+  nonConcessional: number; // After-tax contribution requested this month
+}
+
+export interface SuperMonth {
+  personId: string;
+  name: string;
+  balance: number;
+  sgContribution: number;
+  salarySacrifice: number;
+  nonConcessional: number;
+  contributionsTax: number;
+  earnings: number;
+  earningsTax: number;
+  fees: number;
+  refusedContributions: number; // Voluntary contributions rejected by the caps
+  isAccessible: boolean;
+}
+
+/**
+ * Get the Superannuation Guarantee rate for a date
+ * @param date - Date of the salary payment
+ * @returns SG rate (e.g. 0.12 for 12%)
+ */
+export function getSuperGuaranteeRate(date: Date): number {
+  const financialYear = getFinancialYear(date);
+  let rate = SG_RATE_SCHEDULE[0].rate;
+
+  for (const entry of SG_RATE_SCHEDULE) {
+    if (financialYear >= entry.fromFinancialYear) {
+      rate = entry.rate;
+    }
+  }
+
+  return rate;
+}
+
+/**
+ * Get contribution caps and thresholds for a financial year
+ * @param financialYear - Financial year (year it ends in)
+ * @returns Caps in cents
+ */
+export function getSuperCaps(financialYear: number) {
+  let caps = SUPER_CAP_SCHEDULE[0];
+
+  for (const entry of SUPER_CAP_SCHEDULE) {
+    if (financialYear >= entry.fromFinancialYear) {
+      caps = entry;
+    }
+  }
+
+  return caps;
+}
+
+/**
+ * Get a person's preservation age
+ * @param dateOfBirth - Date of birth
+ * @returns Preservation age in years
+ */
+export function getPreservationAge(dateOfBirth: Date): number {
+  for (const entry of PRESERVATION_AGE_SCHEDULE) {
+    if (dateOfBirth < entry.bornBefore) {
+      return entry.age;
+    }
+  }
+
+  return 60;
+}
+
+/**
+ * Calculate age in whole years at a date
+ * @param dateOfBirth - Date of birth
+ * @param date - Date to measure age at
+ * @returns Age in years
+ */
+export function getAgeAt(dateOfBirth: Date, date: Date): number {
+  let age = date.getFullYear() - dateOfBirth.getFullYear();
+  const hadBirthday = date.getMonth() > dateOfBirth.getMonth() ||
+    (date.getMonth() === dateOfBirth.getMonth() && date.getDate() >= dateOfBirth.getDate());
+
+  if (!hadBirthday) age--;
+  return age;
+}
+
+/**
+ * Create a super account for a person at the start of a forecast
+ * Contribution history before the forecast is unknown, so no carry-forward is assumed
+ * @param person - Account holder
+ * @param startDate - Forecast start date
+ * @returns Opening super account
+ */
+export function createSuperAccount(person: Person, startDate: Date): SuperAccount {
+  return {
+    personId: person.id,
+    balance: person.superCurrentCents,
+    financialYear: getFinancialYear(startDate),
+    balanceAtLastFyEnd: person.superCurrentCents,
+    concessionalThisFy: 0,
+    nonConcessionalThisFy: 0,
+    carryForward: [],
+  };
+}
+
+/**
+ * Get the concessional cap still available this financial year
+ * Includes carried-forward unused cap when the balance was under $500k at the last 30 June
+ * @param account - Super account
+ * @returns Remaining concessional cap in cents
+ */
+export function getAvailableConcessionalCap(account: SuperAccount): number {
+  const { concessionalCap } = getSuperCaps(account.financialYear);
+  const carryForward = account.balanceAtLastFyEnd < SUPER_CONSTANTS.CARRY_FORWARD_BALANCE_LIMIT_CENTS
+    ? account.carryForward.reduce((sum, entry) => sum + entry.unusedCents, 0)
+    : 0;
+
+  return Math.max(0, concessionalCap + carryForward - account.concessionalThisFy);
+}
+
+/**
+ * Get the non-concessional cap still available this financial year
+ * The cap is nil once the balance at the last 30 June reached the transfer balance cap
+ * @param account - Super account
+ * @returns Remaining non-concessional cap in cents
+ */
+export function getAvailableNonConcessionalCap(account: SuperAccount): number {
+  const { nonConcessionalCap, transferBalanceCap } = getSuperCaps(account.financialYear);
+  if (account.balanceAtLastFyEnd >= transferBalanceCap) return 0;
+
+  return Math.max(0, nonConcessionalCap - account.nonConcessionalThisFy);
+}
+
+/**
+ * Calculate the month's Superannuation Guarantee contribution
+ * @param salary - Monthly salary in cents
+ * @param date - Month of the salary payment
+ * @returns SG contribution in cents, limited by the maximum contribution base
+ */
+export function calculateSuperGuarantee(salary: number, date: Date): number {
+  const { maxContributionBaseQuarterly } = getSuperCaps(getFinancialYear(date));
+  return Math.min(salary, maxContributionBaseQuarterly / 3) * getSuperGuaranteeRate(date);
+}
+
+/**
+ * Close off a financial year: record unused concessional cap and reset counters
+ * @param account - Super account to roll forward (mutated)
+ * @param financialYear - The new financial year
+ */
+function rollFinancialYear(account: SuperAccount, financialYear: number): void {
+  const { concessionalCap } = getSuperCaps(account.financialYear);
+
+  // Contributions above this year's cap consumed the oldest carried-forward amounts
+  let overCap = Math.max(0, account.concessionalThisFy - concessionalCap);
+  for (const entry of account.carryForward) {
+    const used = Math.min(entry.unusedCents, overCap);
+    entry.unusedCents -= used;
+    overCap -= used;
+  }
+
+  account.carryForward.push({
+    financialYear: account.financialYear,
+    unusedCents: Math.max(0, concessionalCap - account.concessionalThisFy),
+  });
+  account.carryForward = account.carryForward.filter(entry =>
+    entry.unusedCents > 0 &&
+    entry.financialYear > financialYear - 1 - SUPER_CONSTANTS.CARRY_FORWARD_YEARS
+  );
+
+  account.financialYear = financialYear;
+  account.balanceAtLastFyEnd = account.balance;
+  account.concessionalThisFy = 0;
+  account.nonConcessionalThisFy = 0;
+}
+
+/**
+ * Bring a super account into the financial year of a date
+ * @param account - Super account (mutated)
+ * @param date - Month about to be projected
+ */
+export function syncFinancialYear(account: SuperAccount, date: Date): void {
+  const financialYear = getFinancialYear(date);
+  if (financialYear !== account.financialYear) {
+    rollFinancialYear(account, financialYear);
+  }
+}
+
+/**
+ * Apply one month of contributions, earnings, taxes and fees to a super account
+ * SG is always accepted; voluntary contributions are limited to the remaining caps
+ * @param account - Super account (mutated)
+ * @param person - Account holder
+ * @param contributions - Monthly salary and requested voluntary contributions in cents
+ * @param date - Month being projected
+ * @param returnPa - Annual gross earnings rate
+ * @returns Month's super movements
+ */
+export function applySuperMonth(
+  account: SuperAccount,
+  person: Person,
+  contributions: SuperContributionInput,
+  date: Date,
+  returnPa: number
+): SuperMonth {
+  syncFinancialYear(account, date);
+
+  // Earnings on the opening balance, taxed in the fund
+  const earnings = account.balance * returnPa / 12;
+  const earningsTax = Math.max(0, earnings) * SUPER_CONSTANTS.EARNINGS_TAX_RATE;
+
+  // Superannuation Guarantee, limited by the maximum contribution base
+  const sgContribution = calculateSuperGuarantee(contributions.salary, date);
+  account.concessionalThisFy += sgContribution;
+
+  // Voluntary contributions within the caps
+  const salarySacrifice = Math.min(
+    Math.max(0, contributions.salarySacrifice),
+    getAvailableConcessionalCap(account)
+  );
+  account.concessionalThisFy += salarySacrifice;
+
+  const nonConcessional = Math.min(
+    Math.max(0, contributions.nonConcessional),
+    getAvailableNonConcessionalCap(account)
+  );
+  account.nonConcessionalThisFy += nonConcessional;
+
+  const refusedContributions = contributions.salarySacrifice - salarySacrifice +
+    contributions.nonConcessional - nonConcessional;
+
+  const contributionsTax = (sgContribution + salarySacrifice) * SUPER_CONSTANTS.CONTRIBUTIONS_TAX_RATE;
+  const fees = account.balance * SUPER_CONSTANTS.DEFAULT_FEE_PCT_PA / 12 +
+    SUPER_CONSTANTS.DEFAULT_ADMIN_FEE_PA_CENTS / 12;
+
+  account.balance = Math.max(0, account.balance + earnings - earningsTax +
+    sgContribution + salarySacrifice + nonConcessional - contributionsTax - fees);
+
+  const isAccessible = person.dateOfBirth
+    ? getAgeAt(person.dateOfBirth, date) >= getPreservationAge(person.dateOfBirth)
+    : false;
+
+  return {
+    personId: person.id,
+    name: person.name,
+    balance: account.balance,
+    sgContribution,
+    salarySacrifice,
+    nonConcessional,
+    contributionsTax,
+    earnings,
+    earningsTax,
+    fees,
+    refusedContributions,
+    isAccessible,
+  };
+}
@@ -0,0 +1,130 @@
+import { describe, expect, it } from 'vitest';
+import {
+  accrueTaxMonth,
+  assessTaxYear,
+  calculatePersonIncome,
+  createTaxYearAccount,
+  getOwnershipShare,
+  getTaxpayer,
+} from './taxEngine';
+import { calculateIncomeTax, calculateMedicareLevy, getMarginalTaxRate } from './taxRules';
+import type { Person, Property } from './forecastEngine';
+
+const person: Person = {
+  id: 'owner',
+  scenarioId: 'scenario',
+  name: 'Owner',
+  dateOfBirth: new Date('1985-06-15'),
+  salaryCurrentCents: 10000000,
+  salaryGrowthPa: 0.03,
+  superCurrentCents: 0,
+  isPrimary: true,
+};
+const partner: Person = { ...person, id: 'partner', name: 'Partner', isPrimary: false };
+
+describe('calculateIncomeTax', () => {
+  it('taxes 2024-25 income on the Stage 3 brackets', () => {
+    // 16% from $18,200 to $45,000, then 30%
+    expect(calculateIncomeTax(10000000, 2025)).toBe(2078800);
+  });
+
+  it('takes the low income tax offset off lower incomes', () => {
+    // $3,488 less a $575 offset
+    expect(calculateIncomeTax(4000000, 2025)).toBe(291300);
+  });
+
+  it('never goes below zero once the seniors offset applies', () => {
+    expect(calculateIncomeTax(3000000, 2025, { isSenior: true })).toBe(0);
+  });
+
+  it('reads the marginal rate from the year the income falls in', () => {
+    expect(getMarginalTaxRate(10000000, 2024)).toBe(0.325);
+    expect(getMarginalTaxRate(10000000, 2025)).toBe(0.3);
+  });
+});
+
+describe('calculateMedicareLevy', () => {
+  it('charges the full levy on middle incomes', () => {
+    expect(calculateMedicareLevy(10000000, 2025)).toBe(200000);
+  });
+
+  it('phases the levy in above the low-income threshold', () => {
+    expect(calculateMedicareLevy(2800000, 2025)).toBe(7780);
+    expect(calculateMedicareLevy(2700000, 2025)).toBe(0);
+  });
+});
+
+describe('getOwnershipShare', () => {
+  const property = { ownership: { owner: 0.75, partner: 0.25 } } as unknown as Property;
+
+  it('reads explicit ownership', () => {
+    expect(getOwnershipShare(property, 'partner', [person, partner])).toBe(0.25);
+  });
+
+  it('splits properties without ownership equally between earners', () => {
+    expect(getOwnershipShare({} as Property, 'partner', [person, partner])).toBe(0.5);
+  });
+});
+
+describe('getTaxpayer', () => {
+  it('makes people of Age Pension age at the end of the year seniors', () => {
+    const retiree = { ...person, dateOfBirth: new Date('1958-06-01') };
+
+    expect(getTaxpayer(retiree, [retiree], 2025, 0.02).isSenior).toBe(true);
+    expect(getTaxpayer(person, [person, partner], 2025, 0.02)).toEqual({
+      isSenior: false,
+      isCouple: true,
+      medicareLevyRate: 0.02,
+    });
+  });
+});
+
+describe('calculatePersonIncome', () => {
+  it('withholds on salary alone and carries rental losses to the assessment', () => {
+    const income = calculatePersonIncome(
+      person,
+      { salary: 1000000, rentalIncome: 200000, deductions: 100000, interest: 250000, depreciation: 50000 },
+      {},
+      new Date('2025-01-01')
+    );
+
+    expect(income.netRentalIncome).toBe(-200000);
+    expect(income.taxableIncome).toBe(800000);
+    // Withheld on a $120,000 salary
+    expect(income.incomeTax).toBeCloseTo(2678800 / 12);
+    expect(income.medicareLevy).toBeCloseTo(240000 / 12);
+  });
+});
+
+describe('assessTaxYear', () => {
+  const salaryMonth = (netRentalIncome: number) =>
+    calculatePersonIncome(
+      person,
+      { salary: 1000000, rentalIncome: 0, deductions: -netRentalIncome, interest: 0, depreciation: 0 },
+      {},
+      new Date('2025-01-01')
+    );
+
+  it('refunds the tax withheld on salary that a rental loss wipes out', () => {
+    const account = createTaxYearAccount(person.id, new Date('2024-07-01'));
+    for (let month = 0; month < 12; month++) accrueTaxMonth(account, salaryMonth(-2000000 / 12));
+
+    const assessment = assessTaxYear(account, {});
+
+    expect(assessment.financialYear).toBe(2025);
+    expect(assessment.taxableIncome).toBeCloseTo(10000000);
+    // Tax and levy on $100,000 against $29,188 withheld on a $120,000 salary
+    expect(assessment.taxPayable).toBe(2278800);
+    expect(assessment.refund).toBe(640000);
+  });
+
+  it('taxes a part year as if its income ran for the whole year, then pro-rates', () => {
+    const account = createTaxYearAccount(person.id, new Date('2025-01-01'));
+    for (let month = 0; month < 6; month++) accrueTaxMonth(account, salaryMonth(0));
+
+    const assessment = assessTaxYear(account, {});
+
+    expect(assessment.taxPayable).toBe(1459400);
+    expect(assessment.refund).toBe(0);
+  });
+});
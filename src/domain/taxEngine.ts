@@ -0,0 +1,198 @@
+/**
+ * Tax Engine - Handles per-person taxable income and household tax
+ * Tax is withheld from salary each month and assessed on the full taxable income once
+ * the financial year closes, so rental losses come back as a refund at tax time
+ */
+
+import { getFinancialYear } from './constants';
+import { getAgeAt } from './superEngine';
+import { calculateIncomeTax, calculateMedicareLevy, getTaxRules, Taxpayer } from './taxRules';
+import type { Person, Property } from './forecastEngine';
+
+export interface PersonIncomeInput {
+  salary: number;
+  rentalIncome: number;
+  deductions: number; // Holding costs of rented properties
+  interest: number; // Interest on loans secured by rented properties
+  depreciation: number; // Capital works and plant and equipment
+}
+
+export interface PersonIncome {
+  personId: string;
+  name: string;
+  salary: number;
+  rentalIncome: number;
+  deductions: number;
+  interest: number;
+  depreciation: number;
+  netRentalIncome: number; // Negative when the person's properties are negatively geared
+  taxableIncome: number;
+  incomeTax: number; // Withheld from salary
+  medicareLevy: number; // Withheld from salary
+  afterTaxIncome: number;
+}
+
+// Running totals for a person's financial year, assessed when the year closes
+export interface TaxYearAccount {
+  personId: string;
+  financialYear: number;
+  months: number;
+  salary: number;
+  netRentalIncome: number;
+  taxWithheld: number; // Income tax and Medicare levy withheld from salary
+}
+
+export interface TaxYearAssessment {
+  personId: string;
+  financialYear: number;
+  salary: number;
+  netRentalIncome: number;
+  taxableIncome: number;
+  taxPayable: number; // Income tax and Medicare levy on taxable income
+  taxWithheld: number;
+  refund: number; // Positive for a refund, negative for tax owing
+}
+
+/**
+ * Get a person's ownership share of a property
+ * Properties without explicit ownership are split equally between earners
+ * @param property - Property to look up
+ * @param personId - Person to get the share for
+ * @param earners - All earners in the household
+ * @returns Ownership share between 0 and 1
+ */
+export function getOwnershipShare(
+  property: Property,
+  personId: string,
+  earners: Person[]
+): number {
+  if (property.ownership && Object.keys(property.ownership).length > 0) {
+    return property.ownership[personId] || 0;
+  }
+
+  return earners.length > 0 ? 1 / earners.length : 0;
+}
+
+/**
+ * Work out which offsets and thresholds apply to a person in a financial year
+ * Age is taken at the end of the financial year
+ * @param person - The person being taxed
+ * @param earners - All earners in the household
+ * @param financialYear - Financial year being taxed
+ * @param medicareLevyRate - Full Medicare levy rate
+ * @returns Taxpayer details for the tax rules
+ */
+export function getTaxpayer(
+  person: Person,
+  earners: Person[],
+  financialYear: number,
+  medicareLevyRate: number
+): Taxpayer {
+  const yearEnd = new Date(financialYear, 5, 30);
+  const { sapto } = getTaxRules(financialYear);
+
+  return {
+    isSenior: person.dateOfBirth ? getAgeAt(person.dateOfBirth, yearEnd) >= sapto.eligibleAge : false,
+    isCouple: earners.length > 1,
+    medicareLevyRate,
+  };
+}
+
+/**
+ * Calculate a person's monthly taxable income and the tax withheld from their salary
+ * Amounts are monthly and annualised for the bracket calculation
+ * @param person - The person being taxed
+ * @param income - Monthly salary, rental income share and deduction shares in cents
+ * @param taxpayer - Offsets and Medicare levy applying to the person
+ * @param date - Month being taxed, which selects the financial year's rules
+ * @returns Monthly income and tax breakdown in cents
+ */
+export function calculatePersonIncome(
+  person: Person,
+  income: PersonIncomeInput,
+  taxpayer: Taxpayer,
+  date: Date
+): PersonIncome {
+  const netRentalIncome = income.rentalIncome - income.deductions - income.interest - income.depreciation;
+  const taxableIncome = income.salary + netRentalIncome;
+
+  // Employers withhold on salary alone; rental income and losses settle at assessment
+  const financialYear = getFinancialYear(date);
+  const annualSalary = Math.max(0, income.salary * 12);
+  const incomeTax = calculateIncomeTax(annualSalary, financialYear, taxpayer) / 12;
+  const medicareLevy = calculateMedicareLevy(annualSalary, financialYear, taxpayer) / 12;
+
+  return {
+    personId: person.id,
+    name: person.name,
+    salary: income.salary,
+    rentalIncome: income.rentalIncome,
+    deductions: income.deductions,
+    interest: income.interest,
+    depreciation: income.depreciation,
+    netRentalIncome,
+    taxableIncome,
+    incomeTax,
+    medicareLevy,
+    afterTaxIncome: income.salary + income.rentalIncome - incomeTax - medicareLevy,
+  };
+}
+
+/**
+ * Open a person's tax year
+ * @param personId - Person being taxed
+ * @param date - First month counted in the year
+ * @returns Empty account for the financial year the date falls in
+ */
+export function createTaxYearAccount(personId: string, date: Date): TaxYearAccount {
+  return {
+    personId,
+    financialYear: getFinancialYear(date),
+    months: 0,
+    salary: 0,
+    netRentalIncome: 0,
+    taxWithheld: 0,
+  };
+}
+
+/**
+ * Add a month's income and withholding to a person's tax year
+ * @param account - Tax year account (mutated)
+ * @param income - The month's income and tax breakdown
+ */
+export function accrueTaxMonth(account: TaxYearAccount, income: PersonIncome): void {
+  account.months++;
+  account.salary += income.salary;
+  account.netRentalIncome += income.netRentalIncome;
+  account.taxWithheld += income.incomeTax + income.medicareLevy;
+}
+
+/**
+ * Assess a person's tax for a financial year against what was withheld
+ * Rental losses reduce the tax on salary; a year only partly in the forecast is
+ * taxed as if its income continued for the full year, then pro-rated
+ * @param account - Tax year account with the year's months accrued
+ * @param taxpayer - Offsets and Medicare levy applying to the person
+ * @returns Assessment with the refund or tax owing in cents
+ */
+export function assessTaxYear(account: TaxYearAccount, taxpayer: Taxpayer): TaxYearAssessment {
+  const taxableIncome = account.salary + account.netRentalIncome;
+  const yearFraction = account.months / 12;
+  const annualTaxable = yearFraction > 0 ? Math.max(0, taxableIncome / yearFraction) : 0;
+
+  const taxPayable = Math.round(
+    (calculateIncomeTax(annualTaxable, account.financialYear, taxpayer) +
+      calculateMedicareLevy(annualTaxable, account.financialYear, taxpayer)) * yearFraction
+  );
+
+  return {
+    personId: account.personId,
+    financialYear: account.financialYear,
+    salary: account.salary,
+    netRentalIncome: account.netRentalIncome,
+    taxableIncome,
+    taxPayable,
+    taxWithheld: account.taxWithheld,
+    refund: Math.round(account.taxWithheld) - taxPayable,
+  };
+}
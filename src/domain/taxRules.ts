@@ -0,0 +1,320 @@
+/**
+ * Tax Rules - Australian personal income tax tables, Medicare levy and tax offsets by financial year
+ * Financial years are identified by the calendar year they end in (2026 = 2025-26)
+ * All monetary values are in cents
+ */
+
+export interface TaxBracket {
+  min: number;
+  max: number;
+  rate: number;
+}
+
+export interface MedicareLevyRules {
+  rate: number;
+  lowerThreshold: number; // No levy at or below this taxable income
+  seniorLowerThreshold: number; // Lower threshold for those eligible for SAPTO
+  phaseInRate: number; // Levy on income above the threshold until the full rate applies
+}
+
+export interface LowIncomeOffsetRules {
+  maxOffset: number;
+  firstThreshold: number;
+  firstTaperRate: number;
+  secondThreshold: number;
+  secondTaperRate: number;
+}
+
+export interface SeniorsOffsetRules {
+  eligibleAge: number; // Age Pension age
+  singleMaxOffset: number;
+  singleThreshold: number;
+  coupleMaxOffset: number; // Each member of a couple
+  coupleThreshold: number; // Each member of a couple
+  taperRate: number;
+}
+
+export interface TaxRules {
+  financialYear: number;
+  brackets: TaxBracket[];
+  medicare: MedicareLevyRules;
+  lito: LowIncomeOffsetRules;
+  sapto: SeniorsOffsetRules;
+}
+
+export interface Taxpayer {
+  isSenior?: boolean; // Eligible for SAPTO by age
+  isCouple?: boolean; // SAPTO at the couple rates
+  medicareLevyRate?: number; // Full levy rate; defaults to the legislated rate
+}
+
+// Resident tax brackets by financial year (rates apply from that year onwards)
+export const TAX_BRACKET_SCHEDULE: { fromFinancialYear: number; brackets: TaxBracket[] }[] = [
+  {
+    fromFinancialYear: 2024,
+    brackets: [
+      { min: 0, max: 1820000, rate: 0 }, // 0 - $18,200
+      { min: 1820000, max: 4500000, rate: 0.19 }, // $18,201 - $45,000
+      { min: 4500000, max: 12000000, rate: 0.325 }, // $45,001 - $120,000
+      { min: 12000000, max: 18000000, rate: 0.37 }, // $120,001 - $180,000
+      { min: 18000000, max: Infinity, rate: 0.45 }, // $180,001+
+    ],
+  },
+  {
+    // Stage 3 tax cuts
+    fromFinancialYear: 2025,
+    brackets: [
+      { min: 0, max: 1820000, rate: 0 }, // 0 - $18,200
+      { min: 1820000, max: 4500000, rate: 0.16 }, // $18,201 - $45,000
+      { min: 4500000, max: 13500000, rate: 0.30 }, // $45,001 - $135,000
+      { min: 13500000, max: 19000000, rate: 0.37 }, // $135,001 - $190,000
+      { min: 19000000, max: Infinity, rate: 0.45 }, // $190,001+
+    ],
+  },
+  {
+    fromFinancialYear: 2027,
+    brackets: [
+      { min: 0, max: 1820000, rate: 0 },
+      { min: 1820000, max: 4500000, rate: 0.15 },
+      { min: 4500000, max: 13500000, rate: 0.30 },
+      { min: 13500000, max: 19000000, rate: 0.37 },
+      { min: 19000000, max: Infinity, rate: 0.45 },
+    ],
+  },
+  {
+    fromFinancialYear: 2028,
+    brackets: [
+      { min: 0, max: 1820000, rate: 0 },
+      { min: 1820000, max: 4500000, rate: 0.14 },
+      { min: 4500000, max: 13500000, rate: 0.30 },
+      { min: 13500000, max: 19000000, rate: 0.37 },
+      { min: 19000000, max: Infinity, rate: 0.45 },
+    ],
+  },
+];
+
+// Medicare levy low-income thresholds by financial year (singles)
+export const MEDICARE_LEVY_SCHEDULE: { fromFinancialYear: number; rules: MedicareLevyRules }[] = [
+  {
+    fromFinancialYear: 2024,
+    rules: { rate: 0.02, lowerThreshold: 2600000, seniorLowerThreshold: 4108900, phaseInRate: 0.1 },
+  },
+  {
+    fromFinancialYear: 2025,
+    rules: { rate: 0.02, lowerThreshold: 2722200, seniorLowerThreshold: 4302000, phaseInRate: 0.1 },
+  },
+];
+
+// Low income tax offset, unchanged since 2020-21
+export const LITO_SCHEDULE: { fromFinancialYear: number; rules: LowIncomeOffsetRules }[] = [
+  {
+    fromFinancialYear: 2021,
+    rules: {
+      maxOffset: 70000, // $700
+      firstThreshold: 3750000, // Reduces by 5c per $1 above $37,500
+      firstTaperRate: 0.05,
+      secondThreshold: 4500000, // Then by 1.5c per $1 above $45,000
+      secondTaperRate: 0.015,
+    },
+  },
+];
+
+// Seniors and pensioners tax offset
+export const SAPTO_SCHEDULE: { fromFinancialYear: number; rules: SeniorsOffsetRules }[] = [
+  {
+    fromFinancialYear: 2024,
+    rules: {
+      eligibleAge: 67,
+      singleMaxOffset: 223000, // $2,230
+      singleThreshold: 3227900, // $32,279 rebate income
+      coupleMaxOffset: 160200, // $1,602 each
+      coupleThreshold: 2897400, // $28,974 each
+      taperRate: 0.125,
+    },
+  },
+];
+
+/**
+ * Assumed yearly indexation of thresholds beyond the latest published figures
+ * Bracket thresholds and offsets are not indexed by law, so they are held flat (bracket creep);
+ * Medicare levy thresholds have been raised with CPI each budget
+ */
+export const TAX_INDEXATION_PA = {
+  BRACKET_THRESHOLDS: 0,
+  MEDICARE_THRESHOLDS: 0.025,
+  OFFSETS: 0,
+};
+
+/**
+ * Find the schedule entry in force for a financial year
+ * Years before the first entry use the first entry
+ * @param schedule - Entries in financial year order
+ * @param financialYear - Financial year to look up
+ * @returns Entry in force and the years elapsed since it took effect
+ */
+function findScheduleEntry<T extends { fromFinancialYear: number }>(
+  schedule: T[],
+  financialYear: number
+): { entry: T; yearsSince: number } {
+  let entry = schedule[0];
+  for (const candidate of schedule) {
+    if (financialYear >= candidate.fromFinancialYear) {
+      entry = candidate;
+    }
+  }
+
+  return { entry, yearsSince: Math.max(0, financialYear - entry.fromFinancialYear) };
+}
+
+/**
+ * Get the tax rules for a financial year
+ * Thresholds are indexed by TAX_INDEXATION_PA for each year since their entry took effect
+ * @param financialYear - Financial year (e.g. 2026 for 2025-26)
+ * @returns Brackets, Medicare levy and offsets for the year
+ */
+export function getTaxRules(financialYear: number): TaxRules {
+  const brackets = findScheduleEntry(TAX_BRACKET_SCHEDULE, financialYear);
+  const medicare = findScheduleEntry(MEDICARE_LEVY_SCHEDULE, financialYear);
+  const lito = findScheduleEntry(LITO_SCHEDULE, financialYear);
+  const sapto = findScheduleEntry(SAPTO_SCHEDULE, financialYear);
+
+  const bracketIndex = Math.pow(1 + TAX_INDEXATION_PA.BRACKET_THRESHOLDS, brackets.yearsSince);
+  const medicareIndex = Math.pow(1 + TAX_INDEXATION_PA.MEDICARE_THRESHOLDS, medicare.yearsSince);
+  const litoIndex = Math.pow(1 + TAX_INDEXATION_PA.OFFSETS, lito.yearsSince);
+  const saptoIndex = Math.pow(1 + TAX_INDEXATION_PA.OFFSETS, sapto.yearsSince);
+
+  return {
+    financialYear,
+    brackets: brackets.entry.brackets.map(bracket => ({
+      min: Math.round(bracket.min * bracketIndex),
+      max: bracket.max === Infinity ? Infinity : Math.round(bracket.max * bracketIndex),
+      rate: bracket.rate,
+    })),
+    medicare: {
+      ...medicare.entry.rules,
+      lowerThreshold: Math.round(medicare.entry.rules.lowerThreshold * medicareIndex),
+      seniorLowerThreshold: Math.round(medicare.entry.rules.seniorLowerThreshold * medicareIndex),
+    },
+    lito: {
+      ...lito.entry.rules,
+      firstThreshold: Math.round(lito.entry.rules.firstThreshold * litoIndex),
+      secondThreshold: Math.round(lito.entry.rules.secondThreshold * litoIndex),
+    },
+    sapto: {
+      ...sapto.entry.rules,
+      singleThreshold: Math.round(sapto.entry.rules.singleThreshold * saptoIndex),
+      coupleThreshold: Math.round(sapto.entry.rules.coupleThreshold * saptoIndex),
+    },
+  };
+}
+
+/**
+ * Calculate the low income tax offset
+ * @param taxableIncomeCents - Taxable annual income in cents
+ * @param rules - Tax rules for the year
+ * @returns Offset in cents
+ */
+export function calculateLowIncomeTaxOffset(taxableIncomeCents: number, rules: TaxRules): number {
+  const { lito } = rules;
+  const firstReduction = Math.max(0, Math.min(taxableIncomeCents, lito.secondThreshold) - lito.firstThreshold) *
+    lito.firstTaperRate;
+  const secondReduction = Math.max(0, taxableIncomeCents - lito.secondThreshold) * lito.secondTaperRate;
+
+  return Math.max(0, Math.round(lito.maxOffset - firstReduction - secondReduction));
+}
+
+/**
+ * Calculate the seniors and pensioners tax offset
+ * Taxable income stands in for rebate income
+ * @param taxableIncomeCents - Taxable annual income in cents
+ * @param rules - Tax rules for the year
+ * @param isCouple - Whether the couple rates apply
+ * @returns Offset in cents
+ */
+export function calculateSeniorsOffset(taxableIncomeCents: number, rules: TaxRules, isCouple: boolean): number {
+  const { sapto } = rules;
+  const maxOffset = isCouple ? sapto.coupleMaxOffset : sapto.singleMaxOffset;
+  const threshold = isCouple ? sapto.coupleThreshold : sapto.singleThreshold;
+
+  return Math.max(0, Math.round(maxOffset - Math.max(0, taxableIncomeCents - threshold) * sapto.taperRate));
+}
+
+/**
+ * Calculate income tax after the low income and seniors offsets (excluding Medicare levy)
+ * Offsets are non-refundable, so tax never goes below zero
+ * @param taxableIncomeCents - Taxable annual income in cents
+ * @param financialYear - Financial year whose rules apply
+ * @param taxpayer - Seniors offset eligibility
+ * @returns Income tax payable in cents
+ */
+export function calculateIncomeTax(
+  taxableIncomeCents: number,
+  financialYear: number,
+  taxpayer: Taxpayer = {}
+): number {
+  const rules = getTaxRules(financialYear);
+  let taxPayable = 0;
+
+  for (const bracket of rules.brackets) {
+    if (taxableIncomeCents <= bracket.min) break;
+    taxPayable += (Math.min(taxableIncomeCents, bracket.max) - bracket.min) * bracket.rate;
+  }
+
+  taxPayable -= calculateLowIncomeTaxOffset(taxableIncomeCents, rules);
+  if (taxpayer.isSenior) {
+    taxPayable -= calculateSeniorsOffset(taxableIncomeCents, rules, taxpayer.isCouple ?? false);
+  }
+
+  return Math.max(0, Math.round(taxPayable));
+}
+
+/**
+ * Calculate the Medicare levy, phased in above the low-income threshold
+ * @param taxableIncomeCents - Taxable annual income in cents
+ * @param financialYear - Financial year whose rules apply
+ * @param taxpayer - Seniors threshold eligibility and levy rate
+ * @returns Medicare levy in cents
+ */
+export function calculateMedicareLevy(
+  taxableIncomeCents: number,
+  financialYear: number,
+  taxpayer: Taxpayer = {}
+): number {
+  const { medicare } = getTaxRules(financialYear);
+  const rate = taxpayer.medicareLevyRate ?? medicare.rate;
+  const threshold = taxpayer.isSenior ? medicare.seniorLowerThreshold : medicare.lowerThreshold;
+
+  if (taxableIncomeCents <= threshold) return 0;
+
+  const phasedIn = (taxableIncomeCents - threshold) * medicare.phaseInRate;
+  return Math.round(Math.min(taxableIncomeCents * rate, phasedIn));
+}
+
+/**
+ * Get the marginal income tax rate for a taxable income
+ * @param taxableIncomeCents - Taxable annual income in cents
+ * @param financialYear - Financial year whose rules apply
+ * @returns Marginal tax rate (excluding Medicare levy)
+ */
+export function getMarginalTaxRate(taxableIncomeCents: number, financialYear: number): number {
+  const { brackets } = getTaxRules(financialYear);
+  const bracket = brackets.find(b => taxableIncomeCents < b.max);
+  return bracket ? bracket.rate : brackets[brackets.length - 1].rate;
+}
+
+/**
+ * Calculate after-tax income for a financial year
+ * @param grossIncomeCents - Gross annual income in cents
+ * @param financialYear - Financial year whose rules apply
+ * @param taxpayer - Offset eligibility and Medicare levy rate
+ * @returns After-tax income in cents
+ */
+export function calculateAfterTaxIncome(
+  grossIncomeCents: number,
+  financialYear: number,
+  taxpayer: Taxpayer = {}
+): number {
+  return grossIncomeCents -
+    calculateIncomeTax(grossIncomeCents, financialYear, taxpayer) -
+    calculateMedicareLevy(grossIncomeCents, financialYear, taxpayer);
+}
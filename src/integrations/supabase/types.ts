@@ -54,12 +54,23 @@ export type Database = {
         Row: {
           allow_redraw: boolean | null
           created_at: string
+          extra_monthly_cents: number
+          fixed_portion_pct: number | null
+          fixed_rate_pa: number | null
+          fixed_years: number | null
           id: string
           io_years: number | null
+          lump_sums_json: Json | null
           offset_contrib_monthly_cents: number | null
           offset_start_cents: number | null
+          prepayment_mode: string
           property_id: string
+          purpose: string
+          rate_changes_json: Json | null
+          rate_margin_pa: number | null
           rate_pa: number
+          redraws_json: Json | null
+          security_property_ids: string[]
           start_balance_cents: number
           start_date: string
           term_years: number | null
@@ -68,12 +79,23 @@ export type Database = {
         Insert: {
           allow_redraw?: boolean | null
           created_at?: string
+          extra_monthly_cents?: number
+          fixed_portion_pct?: number | null
+          fixed_rate_pa?: number | null
+          fixed_years?: number | null
           id?: string
           io_years?: number | null
+          lump_sums_json?: Json | null
           offset_contrib_monthly_cents?: number | null
           offset_start_cents?: number | null
+          prepayment_mode?: string
           property_id: string
+          purpose?: string
+          rate_changes_json?: Json | null
+          rate_margin_pa?: number | null
           rate_pa: number
+          redraws_json?: Json | null
+          security_property_ids?: string[]
           start_balance_cents: number
           start_date: string
           term_years?: number | null
@@ -82,12 +104,23 @@ export type Database = {
         Update: {
           allow_redraw?: boolean | null
           created_at?: string
+          extra_monthly_cents?: number
+          fixed_portion_pct?: number | null
+          fixed_rate_pa?: number | null
+          fixed_years?: number | null
           id?: string
           io_years?: number | null
+          lump_sums_json?: Json | null
           offset_contrib_monthly_cents?: number | null
           offset_start_cents?: number | null
+          prepayment_mode?: string
           property_id?: string
+          purpose?: string
+          rate_changes_json?: Json | null
+          rate_margin_pa?: number | null
           rate_pa?: number
+          redraws_json?: Json | null
+          security_property_ids?: string[]
           start_balance_cents?: number
           start_date?: string
           term_years?: number | null
@@ -103,6 +136,36 @@ export type Database = {
           },
         ]
       }
+      offset_accounts: {
+        Row: {
+          balance_cents: number
+          created_at: string | null
+          id: string
+          loan_ids: string[]
+          name: string
+          scenario_id: string
+          updated_at: string | null
+        }
+        Insert: {
+          balance_cents?: number
+          created_at?: string | null
+          id?: string
+          loan_ids?: string[]
+          name: string
+          scenario_id: string
+          updated_at?: string | null
+        }
+        Update: {
+          balance_cents?: number
+          created_at?: string | null
+          id?: string
+          loan_ids?: string[]
+          name?: string
+          scenario_id?: string
+          updated_at?: string | null
+        }
+        Relationships: []
+      }
       people: {
         Row: {
           created_at: string | null
@@ -193,14 +256,20 @@ export type Database = {
           depreciation_plant_pa_cents: number | null
           id: string
           insurance_pa_cents: number | null
+          is_first_home: boolean
+          is_foreign_purchaser: boolean
+          is_off_the_plan: boolean
           land_tax_pa_cents: number | null
+          land_value_cents: number | null
           maintenance_pct_of_value: number | null
           name: string
+          owned_by_trust: boolean
           purchase_date: string
           purchase_price_cents: number
           rates_pa_cents: number | null
           rent_pw_cents: number | null
           sold_on: string | null
+          state_code: string | null
           strata_pa_cents: number | null
           updated_at: string
           user_id: string
@@ -217,14 +286,20 @@ export type Database = {
           depreciation_plant_pa_cents?: number | null
           id?: string
           insurance_pa_cents?: number | null
+          is_first_home?: boolean
+          is_foreign_purchaser?: boolean
+          is_off_the_plan?: boolean
           land_tax_pa_cents?: number | null
+          land_value_cents?: number | null
           maintenance_pct_of_value?: number | null
           name: string
+          owned_by_trust?: boolean
           purchase_date: string
           purchase_price_cents: number
           rates_pa_cents?: number | null
           rent_pw_cents?: number | null
           sold_on?: string | null
+          state_code?: string | null
           strata_pa_cents?: number | null
           updated_at?: string
           user_id: string
@@ -241,14 +316,20 @@ export type Database = {
           depreciation_plant_pa_cents?: number | null
           id?: string
           insurance_pa_cents?: number | null
+          is_first_home?: boolean
+          is_foreign_purchaser?: boolean
+          is_off_the_plan?: boolean
           land_tax_pa_cents?: number | null
+          land_value_cents?: number | null
           maintenance_pct_of_value?: number | null
           name?: string
+          owned_by_trust?: boolean
           purchase_date?: string
           purchase_price_cents?: number
           rates_pa_cents?: number | null
           rent_pw_cents?: number | null
           sold_on?: string | null
+          state_code?: string | null
           strata_pa_cents?: number | null
           updated_at?: string
           user_id?: string
@@ -260,44 +341,59 @@ export type Database = {
       }
       scenarios: {
         Row: {
+          cash_rate_path_json: Json | null
           created_at: string
+          deficit_funding_json: Json | null
           horizon_years: number | null
           id: string
+          lvr_thresholds_json: Json | null
           name: string
           notes: string | null
+          sale_proceeds_json: Json | null
           start_date: string
           stress_borrow_cap_down_pct: number | null
           stress_growth_haircut_pct: number | null
           stress_rate_bump_pct: number | null
           stress_vacancy_weeks: number | null
+          surplus_allocation_json: Json | null
           updated_at: string
           user_id: string
         }
         Insert: {
+          cash_rate_path_json?: Json | null
           created_at?: string
+          deficit_funding_json?: Json | null
           horizon_years?: number | null
           id?: string
+          lvr_thresholds_json?: Json | null
           name: string
           notes?: string | null
+          sale_proceeds_json?: Json | null
           start_date: string
           stress_borrow_cap_down_pct?: number | null
           stress_growth_haircut_pct?: number | null
           stress_rate_bump_pct?: number | null
           stress_vacancy_weeks?: number | null
+          surplus_allocation_json?: Json | null
           updated_at?: string
           user_id: string
         }
         Update: {
+          cash_rate_path_json?: Json | null
           created_at?: string
+          deficit_funding_json?: Json | null
           horizon_years?: number | null
           id?: string
+          lvr_thresholds_json?: Json | null
           name?: string
           notes?: string | null
+          sale_proceeds_json?: Json | null
           start_date?: string
           stress_borrow_cap_down_pct?: number | null
           stress_growth_haircut_pct?: number | null
           stress_rate_bump_pct?: number | null
           stress_vacancy_weeks?: number | null
+          surplus_allocation_json?: Json | null
           updated_at?: string
           user_id?: string
         }
@@ -0,0 +1,3 @@
+-- Store each scenario's surplus allocation waterfall as an ordered list of steps
+ALTER TABLE public.scenarios
+ADD COLUMN surplus_allocation_json jsonb;
@@ -0,0 +1,3 @@
+-- Store the order in which each scenario funds monthly cashflow deficits
+ALTER TABLE public.scenarios
+ADD COLUMN deficit_funding_json jsonb;
@@ -0,0 +1,3 @@
+-- Store where each scenario pays the net proceeds of property sales
+ALTER TABLE public.scenarios
+ADD COLUMN sale_proceeds_json jsonb;
@@ -0,0 +1,6 @@
+-- Store the purchase details that set each property's stamp duty
+ALTER TABLE public.properties
+ADD COLUMN state_code text,
+ADD COLUMN is_first_home boolean NOT NULL DEFAULT false,
+ADD COLUMN is_off_the_plan boolean NOT NULL DEFAULT false,
+ADD COLUMN is_foreign_purchaser boolean NOT NULL DEFAULT false;
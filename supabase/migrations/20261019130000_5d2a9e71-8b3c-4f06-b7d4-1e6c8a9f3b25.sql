@@ -0,0 +1,4 @@
+-- Store land values and trust ownership so land tax can be calculated
+ALTER TABLE public.properties
+ADD COLUMN land_value_cents bigint,
+ADD COLUMN owned_by_trust boolean NOT NULL DEFAULT false;
@@ -0,0 +1,3 @@
+-- Store the LVRs each scenario warns at
+ALTER TABLE public.scenarios
+ADD COLUMN lvr_thresholds_json jsonb;
@@ -0,0 +1,6 @@
+-- Store extra repayments, lump sums, redraws and how repayments respond to paying ahead
+ALTER TABLE public.loans
+ADD COLUMN extra_monthly_cents bigint NOT NULL DEFAULT 0,
+ADD COLUMN lump_sums_json jsonb,
+ADD COLUMN redraws_json jsonb,
+ADD COLUMN prepayment_mode text NOT NULL DEFAULT 'recalculate_payment';
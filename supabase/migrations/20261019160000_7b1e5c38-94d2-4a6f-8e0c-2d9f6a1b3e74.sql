@@ -0,0 +1,11 @@
+-- Store variable rate paths, cash rate margins and fixed or split rate periods on loans
+ALTER TABLE public.loans
+ADD COLUMN rate_changes_json jsonb,
+ADD COLUMN rate_margin_pa numeric,
+ADD COLUMN fixed_rate_pa numeric,
+ADD COLUMN fixed_years integer,
+ADD COLUMN fixed_portion_pct numeric;
+
+-- Store each scenario's projected cash rate
+ALTER TABLE public.scenarios
+ADD COLUMN cash_rate_path_json jsonb;
@@ -0,0 +1,3 @@
+-- Let a loan be secured by further properties as well as its main one (cross-collateralised)
+ALTER TABLE public.loans
+ADD COLUMN security_property_ids uuid[] NOT NULL DEFAULT '{}';
@@ -0,0 +1,30 @@
+-- Hold offsets in their own accounts, linked to one loan or shared across several
+CREATE TABLE public.offset_accounts (
+    id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+    scenario_id uuid NOT NULL,
+    name text NOT NULL,
+    balance_cents bigint NOT NULL DEFAULT 0,
+    loan_ids uuid[] NOT NULL DEFAULT '{}',
+    created_at timestamp with time zone DEFAULT now(),
+    updated_at timestamp with time zone DEFAULT now()
+);
+
+-- Create trigger for offset accounts table
+CREATE TRIGGER update_offset_accounts_updated_at
+    BEFORE UPDATE ON public.offset_accounts
+    FOR EACH ROW
+    EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Move each loan's starting offset into an account in its owner's latest scenario, the one
+-- opened by default. Loans keep their offset fields, so other scenarios still offset them
+-- through the legacy fallback until they are given an account of their own
+INSERT INTO public.offset_accounts (scenario_id, name, balance_cents, loan_ids)
+SELECT latest.id, 'Offset', loans.offset_start_cents, ARRAY[loans.id]
+FROM public.loans
+JOIN public.properties ON properties.id = loans.property_id
+JOIN (
+    SELECT DISTINCT ON (user_id) id, user_id
+    FROM public.scenarios
+    ORDER BY user_id, created_at DESC
+) AS latest ON latest.user_id = properties.user_id
+WHERE loans.offset_start_cents > 0;
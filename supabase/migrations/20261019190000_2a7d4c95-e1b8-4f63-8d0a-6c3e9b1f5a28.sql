@@ -0,0 +1,3 @@
+-- Record what each loan was borrowed for, which decides whether its interest is deductible
+ALTER TABLE public.loans
+ADD COLUMN purpose text NOT NULL DEFAULT 'property';